@@ -3,88 +3,302 @@
  * Orchestrates the pathfinding visualization
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import Grid from './components/Grid';
+import GraphCanvas from './components/GraphCanvas';
 import Controls from './components/Controls';
 import MetricsPanel from './components/MetricsPanel';
-import { executeDFS } from './algorithms/dfs';
-import { executeBFS } from './algorithms/bfs';
-import { executeAStar } from './algorithms/astar';
-import { generateMaze, createEmptyMaze } from './utils/mazeGenerator';
+import {
+  getAlgorithm,
+  getAlgorithms,
+  getAlgorithmColor,
+  executeAlgorithm,
+  computeFlowField,
+  getFlowFieldRoute,
+  runFogOfWarAgent,
+  routeThroughWaypoints,
+  runConflictBasedSearch,
+  planAroundMovingObstacles,
+  getObstacleRouteSegment,
+  MAX_MAPF_AGENTS,
+  MAX_MOVING_OBSTACLES,
+  MAX_WAYPOINTS,
+} from './algorithms';
+import {
+  generateMap,
+  createEmptyMaze,
+  createMazeSeed,
+  isSameMapSettings,
+  DEFAULT_MAP_SETTINGS,
+} from './utils/mazeGenerator';
+import {
+  createSampleGraph,
+  edgeJoins,
+  formatEdgeList,
+  getDefaultEdgeWeight,
+  getNextNodeId,
+  parseEdgeList,
+} from './utils/graph';
+import { DEFAULT_SEARCH_OPTIONS } from './utils/searchOptions';
+import { isTerrain } from './utils/terrain';
+import { addTurnStats } from './utils/turns';
+import { addPathSmoothing } from './utils/anyAngle';
+import {
+  DOOR_TYPES,
+  KEY_TYPES,
+  ONE_WAY_TYPES,
+  PORTAL_TYPES,
+  findCells,
+  getChannel,
+  isDoor,
+  isKey,
+  isPortal,
+  isSpecialCell,
+} from './utils/specialCells';
 import {
   CellType,
   CellState,
   Position,
-  Algorithm,
   AlgorithmResult,
   EditMode,
+  CaveOptions,
+  FlowField,
+  GenerationStep,
+  Graph,
+  GraphEditMode,
+  Heuristic,
+  IncrementalPlanner,
+  MapfAgent,
+  MapSettings,
+  MapStyle,
+  MazeGenerator,
+  MovementModel,
+  MovingObstacle,
+  NoiseOptions,
+  SearchDirection,
+  SearchOptions,
+  TerrainCosts,
+  Topology,
+  WaypointOrder,
 } from './types/maze.types';
 import './App.css';
 
 const GRID_ROWS = 21;
 const GRID_COLS = 41;
 
+// Seed of the maze shown on load
+const INITIAL_MAZE_SEED = 12345;
+
+// Most ticks a maze construction is animated over; longer logs replay several steps per tick
+const MAX_GENERATION_TICKS = 400;
+
+// Terrain painted by each paint edit mode
+const PAINT_TERRAIN: Partial<Record<EditMode, CellType>> = {
+  [EditMode.PAINT_ROAD]: CellType.ROAD,
+  [EditMode.PAINT_MUD]: CellType.MUD,
+  [EditMode.PAINT_WATER]: CellType.WATER,
+};
+
+// Modes that place and remove special cells; other modes leave them alone
+const SPECIAL_CELL_MODES = [EditMode.PLACE_PORTAL, EditMode.PLACE_ONE_WAY, EditMode.PLACE_KEY_DOOR];
+
 function App() {
-  // Maze state
-  const [grid, setGrid] = useState<CellType[][]>(() => generateMaze(GRID_ROWS, GRID_COLS, 12345));
+  // Maze state. The last generated grid is kept with its seed and map
+  // settings, which rebuild it only while that very grid is shown, since
+  // edits and Clear Maze replace it with a new array.
+  const [seededMaze, setSeededMaze] = useState(() => ({
+    seed: INITIAL_MAZE_SEED,
+    settings: DEFAULT_MAP_SETTINGS,
+    grid: generateMap(GRID_ROWS, GRID_COLS, INITIAL_MAZE_SEED, Topology.SQUARE, DEFAULT_MAP_SETTINGS).grid,
+  }));
+  const [grid, setGrid] = useState<CellType[][]>(seededMaze.grid);
   const [cellStates, setCellStates] = useState<CellState[][]>(() =>
     Array(GRID_ROWS).fill(null).map(() => Array(GRID_COLS).fill(CellState.UNEXPLORED))
   );
 
   // Control state
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<Algorithm | null>(null);
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState<string | null>(null);
   const [isRunning, setIsRunning] = useState(false);
   const [animationSpeed, setAnimationSpeed] = useState(50);
   const [editMode, setEditMode] = useState<EditMode>(EditMode.TOGGLE_WALL);
+  const [terrainCosts, setTerrainCosts] = useState<TerrainCosts>(DEFAULT_SEARCH_OPTIONS.terrainCosts);
+  const [movement, setMovement] = useState<MovementModel>(DEFAULT_SEARCH_OPTIONS.movement);
+  const [topology, setTopology] = useState<Topology>(DEFAULT_SEARCH_OPTIONS.topology);
+  const [heuristic, setHeuristic] = useState<Heuristic>(DEFAULT_SEARCH_OPTIONS.heuristic);
+  const [heuristicWeight, setHeuristicWeight] = useState(DEFAULT_SEARCH_OPTIONS.heuristicWeight);
+  const [turnPenalty, setTurnPenalty] = useState(DEFAULT_SEARCH_OPTIONS.turnPenalty);
+
+  const searchOptions: SearchOptions = { terrainCosts, movement, topology, heuristic, heuristicWeight, turnPenalty };
+
+  // Waypoints in placement order, and how a run visits them
+  const [waypoints, setWaypoints] = useState<Position[]>([]);
+  const [waypointOrder, setWaypointOrder] = useState<WaypointOrder>(WaypointOrder.IN_ORDER);
+  // What New Maze builds: a maze from a generator, caves or a noise map
+  const [mapStyle, setMapStyle] = useState<MapStyle>(DEFAULT_MAP_SETTINGS.style);
+  const [mazeGenerator, setMazeGenerator] = useState<MazeGenerator>(DEFAULT_MAP_SETTINGS.generator);
+  const [caveOptions, setCaveOptions] = useState<CaveOptions>(DEFAULT_MAP_SETTINGS.cave);
+  const [noiseOptions, setNoiseOptions] = useState<NoiseOptions>(DEFAULT_MAP_SETTINGS.noise);
+  const mapSettings: MapSettings = { style: mapStyle, generator: mazeGenerator, cave: caveOptions, noise: noiseOptions };
+
+  // The seed is shown only while it and the map settings rebuild the grid on screen
+  const isSeededGrid = seededMaze.grid === grid;
+  const mazeSeed = isSeededGrid && isSameMapSettings(seededMaze.settings, mapSettings) ? seededMaze.seed : null;
+  const [animateGeneration, setAnimateGeneration] = useState(false);
+
+  // Fog-of-war agent mode: Run walks a partially observing agent instead
+  const [agentMode, setAgentMode] = useState(false);
+  const [sensingRadius, setSensingRadius] = useState(2);
+
+  // Multi-agent (CBS) agents, the start of one still awaiting its goal, and
+  // where each agent stands while their plans are animated
+  const [mapfAgents, setMapfAgents] = useState<MapfAgent[]>([]);
+  const [pendingAgentStart, setPendingAgentStart] = useState<Position | null>(null);
+  const [mapfPositions, setMapfPositions] = useState<Position[] | null>(null);
 
-  // Results
-  const [results, setResults] = useState<AlgorithmResult[]>([]);
+  // Looping obstacles, the route of one still being drawn, and the time step
+  // they are shown at while a plan around them is animated
+  const [movingObstacles, setMovingObstacles] = useState<MovingObstacle[]>([]);
+  const [pendingObstacleRoute, setPendingObstacleRoute] = useState<Position[] | null>(null);
+  const [obstacleTime, setObstacleTime] = useState<number | null>(null);
+
+  // Graph mode: a general graph replaces the maze, and algorithms that
+  // support it (executeGraph) search its nodes
+  const [graphMode, setGraphMode] = useState(false);
+  const [graph, setGraph] = useState<Graph>(createSampleGraph);
+  const [graphStart, setGraphStart] = useState<string | null>('A');
+  const [graphGoal, setGraphGoal] = useState<string | null>('H');
+  const [graphEditMode, setGraphEditMode] = useState<GraphEditMode>(GraphEditMode.ADD_NODE);
+  const [pendingEdgeFrom, setPendingEdgeFrom] = useState<string | null>(null);
+  const [nodeExplorers, setNodeExplorers] = useState<Map<string, string[]>>(() => new Map());
+  const [graphPath, setGraphPath] = useState<string[]>([]);
+
+  // Results (maze or graph runs)
+  const [results, setResults] = useState<AlgorithmResult<unknown>[]>([]);
+
+  // Path smoothing: every maze run's path is also shown string-pulled
+  const [smoothPaths, setSmoothPaths] = useState(false);
+  const displayedResults = useMemo(
+    () => smoothPaths && !graphMode
+      ? (results as AlgorithmResult[]).map((result) =>
+          addPathSmoothing(result, grid, { ...DEFAULT_SEARCH_OPTIONS, movement, topology }))
+      : results,
+    [smoothPaths, graphMode, results, grid, movement, topology]
+  );
+
+  // Straight-segment paths drawn over the grid: smoothed paths, else Theta* corners
+  const polylines = displayedResults.flatMap((result) => {
+    const points = result.smoothedPath ?? result.anyAnglePath;
+    return points ? [{ points, color: getAlgorithmColor(result.algorithmId) }] : [];
+  });
+
+  // Label shown over the grid during animation (e.g. current iterative-deepening bound)
+  const [animationLabel, setAnimationLabel] = useState<string | null>(null);
+
+  // Comparison mode: algorithm ids that explored each cell, keyed by "row,col"
+  const [cellExplorers, setCellExplorers] = useState<Map<string, string[]>>(() => new Map());
+
+  // Incremental planner behind the displayed run, repaired on wall/terrain edits
+  const plannerRef = useRef<IncrementalPlanner | null>(null);
 
   /**
-   * Find start and goal positions in the grid
+   * Find every start and goal position in the grid (row-major order)
    */
   const findPositions = useCallback((currentGrid: CellType[][]) => {
-    let start: Position | null = null;
-    let goal: Position | null = null;
+    const starts: Position[] = [];
+    const goals: Position[] = [];
 
     for (let row = 0; row < currentGrid.length; row++) {
       for (let col = 0; col < currentGrid[0].length; col++) {
         if (currentGrid[row][col] === CellType.START) {
-          start = { row, col };
+          starts.push({ row, col });
         } else if (currentGrid[row][col] === CellType.GOAL) {
-          goal = { row, col };
+          goals.push({ row, col });
         }
       }
     }
 
-    return { start, goal };
+    return { starts, goals };
   }, []);
 
   /**
-   * Reset visualization (clear cell states but keep maze)
+   * Clear cell states, results and labels but keep maze
    */
-  const resetVisualization = useCallback(() => {
+  const clearVisualization = useCallback(() => {
     setCellStates(
       Array(grid.length).fill(null).map(() => Array(grid[0].length).fill(CellState.UNEXPLORED))
     );
     setResults([]);
+    setCellExplorers(new Map());
+    setAnimationLabel(null);
+    setMapfPositions(null);
+    setObstacleTime(null);
+    setNodeExplorers(new Map());
+    setGraphPath([]);
   }, [grid]);
 
+  // Flow field view: distance heatmap from the goal(s); clicks read routes off it
+  const [showFlowField, setShowFlowField] = useState(false);
+  const flowField = useMemo(() => {
+    if (!showFlowField) return null;
+    const { goals } = findPositions(grid);
+    return computeFlowField(grid, goals, { ...DEFAULT_SEARCH_OPTIONS, terrainCosts, movement, topology });
+  }, [showFlowField, grid, terrainCosts, movement, topology, findPositions]);
+
+  /**
+   * Reset visualization (clear cell states but keep maze) and discard any
+   * incremental planner state
+   */
+  const resetVisualization = useCallback(() => {
+    clearVisualization();
+    plannerRef.current = null;
+  }, [clearVisualization]);
+
   /**
    * Animate algorithm execution step by step
    */
   const animateAlgorithm = async (result: AlgorithmResult): Promise<number> => {
     return new Promise((resolve) => {
-      const { explorationOrder, path } = result;
+      const { explorationOrder, explorationDirections, scannedCells, path, meetingPoint } = result;
+      const { iterationStarts, iterationBounds, iterationBoundLabel } = result;
       let step = 0;
+      let iteration = 0;
       const startTime = performance.now();
 
       const intervalId = setInterval(() => {
         if (step < explorationOrder.length) {
           const pos = explorationOrder[step];
+          // Bidirectional searches color each frontier separately, JPS marks jump points
+          const direction = explorationDirections?.[step];
+          const exploredState = scannedCells
+            ? CellState.JUMP_POINT
+            : direction === undefined
+              ? CellState.EXPLORED
+              : direction === SearchDirection.FORWARD
+                ? CellState.FORWARD_EXPLORED
+                : CellState.BACKWARD_EXPLORED;
+          const scanned = scannedCells?.[step] ?? [];
+
+          // Iterative deepening: wipe the grid and relabel when a new bound starts
+          const startsIteration = iterationStarts?.[iteration] === step;
+          if (startsIteration && iterationBounds) {
+            const bound = iterationBounds[iteration];
+            setAnimationLabel(
+              `Iteration ${iteration + 1} · ${iterationBoundLabel ?? 'Bound'}: ${Number.isInteger(bound) ? bound : bound.toFixed(2)}`
+            );
+            iteration++;
+          }
+
           setCellStates((prev) => {
-            const newStates = prev.map((row) => [...row]);
-            newStates[pos.row][pos.col] = CellState.EXPLORED;
+            const newStates = startsIteration
+              ? prev.map((row) => row.map(() => CellState.UNEXPLORED))
+              : prev.map((row) => [...row]);
+            // Cells passed over by jump scans, without hiding earlier jump points
+            for (const cell of scanned) {
+              if (newStates[cell.row][cell.col] === CellState.UNEXPLORED) {
+                newStates[cell.row][cell.col] = CellState.SCANNED;
+              }
+            }
+            newStates[pos.row][pos.col] = exploredState;
             return newStates;
           });
           step++;
@@ -101,6 +315,14 @@ function App() {
                 newStates[pos.row][pos.col] = CellState.PATH;
               }
             }
+            // Highlight where bidirectional frontiers met
+            if (
+              meetingPoint &&
+              grid[meetingPoint.row][meetingPoint.col] !== CellType.START &&
+              grid[meetingPoint.row][meetingPoint.col] !== CellType.GOAL
+            ) {
+              newStates[meetingPoint.row][meetingPoint.col] = CellState.MEETING;
+            }
             return newStates;
           });
           clearInterval(intervalId);
@@ -115,14 +337,245 @@ function App() {
     });
   };
 
+  /**
+   * Animate a fog-of-war agent: reveal sensed cells, draw the planned route
+   * and move the agent one cell per tick
+   */
+  const animateAgent = async (result: AlgorithmResult): Promise<number> => {
+    return new Promise((resolve) => {
+      const timeline = result.agentTimeline ?? [];
+      const known = new Set<string>();
+      let previousRoute: Position[] = [];
+      let previousPosition: Position | null = null;
+      let replans = 0;
+      let step = 0;
+      const startTime = performance.now();
+
+      // Everything starts in the fog
+      setCellStates(grid.map((row) => row.map(() => CellState.UNKNOWN)));
+
+      const intervalId = setInterval(() => {
+        if (step < timeline.length) {
+          const { position, sensed, route, replanned } = timeline[step];
+          const staleRoute = previousRoute;
+          const lastPosition = previousPosition;
+          for (const cell of sensed) {
+            known.add(`${cell.row},${cell.col}`);
+          }
+          const knownNow = new Set(known);
+
+          if (replanned) {
+            replans++;
+            setAnimationLabel(`Replan ${replans} · step ${step}: sensed cells block the route`);
+          }
+
+          setCellStates((prev) => {
+            const newStates = prev.map((row) => [...row]);
+            // Drop the old plan back to what the agent knows about those cells
+            for (const cell of staleRoute) {
+              if (newStates[cell.row][cell.col] === CellState.PATH) {
+                newStates[cell.row][cell.col] = knownNow.has(`${cell.row},${cell.col}`)
+                  ? CellState.SENSED
+                  : CellState.UNKNOWN;
+              }
+            }
+            for (const cell of sensed) {
+              if (newStates[cell.row][cell.col] === CellState.UNKNOWN) {
+                newStates[cell.row][cell.col] = CellState.SENSED;
+              }
+            }
+            for (const cell of route) {
+              const state = newStates[cell.row][cell.col];
+              if (state === CellState.UNKNOWN || state === CellState.SENSED) {
+                newStates[cell.row][cell.col] = CellState.PATH;
+              }
+            }
+            if (lastPosition) {
+              newStates[lastPosition.row][lastPosition.col] = CellState.TRAVERSED;
+            }
+            newStates[position.row][position.col] = CellState.AGENT;
+            return newStates;
+          });
+
+          previousRoute = route;
+          previousPosition = position;
+          step++;
+        } else {
+          clearInterval(intervalId);
+          resolve(performance.now() - startTime);
+        }
+      }, Math.max(1, 101 - animationSpeed));
+    });
+  };
+
+  /**
+   * Animate a waypoint route one leg at a time, keeping earlier legs' paths
+   * on screen, then draw the whole route
+   */
+  const animateRoute = async (result: AlgorithmResult): Promise<number> => {
+    const startTime = performance.now();
+    const legs = result.legs ?? [];
+
+    for (let i = 0; i < legs.length; i++) {
+      setCellStates((prev) =>
+        prev.map((row) => row.map((state) => (state === CellState.PATH ? state : CellState.UNEXPLORED)))
+      );
+      setAnimationLabel(`Leg ${i + 1} of ${legs.length}: ${legs[i].label}`);
+      await animateAlgorithm(legs[i].result);
+    }
+
+    setCellStates((prev) => {
+      const newStates = prev.map((row) => [...row]);
+      for (const pos of result.path) {
+        newStates[pos.row][pos.col] = CellState.PATH;
+      }
+      return newStates;
+    });
+
+    return performance.now() - startTime;
+  };
+
+  /**
+   * Animate a CBS run: flash the conflict split at each constraint-tree node,
+   * then move every agent together, one time step per tick
+   */
+  const animateMultiAgent = async (result: AlgorithmResult): Promise<number> => {
+    return new Promise((resolve) => {
+      const conflicts = result.conflicts ?? [];
+      const paths = result.agentPaths ?? [];
+      const makespan = result.makespan ?? 0;
+      const positionsAt = (time: number) => paths.map((path) => path[Math.min(time, path.length - 1)]);
+      let step = 0;
+      let moveTicks = 0;
+      const startTime = performance.now();
+
+      const intervalId = setInterval(() => {
+        if (step < conflicts.length) {
+          const { agents: [first, second], position, to, time, highLevelNode, sumOfCosts } = conflicts[step];
+          setAnimationLabel(
+            `CT node ${highLevelNode} · cost ${sumOfCosts}: ${to ? 'edge' : 'vertex'} conflict between agents ${first + 1} and ${second + 1} at t=${time}`
+          );
+          setCellStates(
+            grid.map((row, r) =>
+              row.map((_, c) =>
+                (r === position.row && c === position.col) || (to && r === to.row && c === to.col)
+                  ? CellState.CONFLICT
+                  : CellState.UNEXPLORED
+              )
+            )
+          );
+          step++;
+        } else if (paths.length > 0 && step - conflicts.length <= makespan) {
+          // Time steps are held for several ticks so the moves can be followed
+          if (moveTicks++ % 4 !== 0) return;
+          const time = step - conflicts.length;
+          const trail = time > 0 ? positionsAt(time - 1) : [];
+          setAnimationLabel(`t = ${time} of ${makespan}`);
+          setCellStates((prev) => {
+            const newStates = time === 0
+              ? prev.map((row) => row.map(() => CellState.UNEXPLORED))
+              : prev.map((row) => [...row]);
+            for (const cell of trail) {
+              newStates[cell.row][cell.col] = CellState.TRAVERSED;
+            }
+            return newStates;
+          });
+          setMapfPositions(positionsAt(time));
+          step++;
+        } else {
+          clearInterval(intervalId);
+          resolve(performance.now() - startTime);
+        }
+      }, Math.max(1, 101 - animationSpeed));
+    });
+  };
+
+  /**
+   * Animate a plan around moving obstacles on one timeline: every tick the
+   * obstacles and the agent advance one time step, leaving the agent's trail
+   * behind and the rest of its plan ahead
+   */
+  const animateMovingObstacles = async (result: AlgorithmResult): Promise<number> => {
+    return new Promise((resolve) => {
+      const { path } = result;
+      const arrivalTime = result.arrivalTime ?? 0;
+      let time = 0;
+      let ticks = 0;
+      const startTime = performance.now();
+
+      const intervalId = setInterval(() => {
+        if (result.found && time <= arrivalTime) {
+          // Time steps are held for several ticks so the moves can be followed
+          if (ticks++ % 4 !== 0) return;
+          const position = path[time];
+          const isWaiting = time > 0 && position.row === path[time - 1].row && position.col === path[time - 1].col;
+          setAnimationLabel(`t = ${time} of ${arrivalTime}${isWaiting ? ' · waiting' : ''}`);
+          setCellStates(() => {
+            const newStates = grid.map((row) => row.map(() => CellState.UNEXPLORED));
+            path.forEach((cell, t) => {
+              newStates[cell.row][cell.col] = t < time ? CellState.TRAVERSED : CellState.PATH;
+            });
+            newStates[position.row][position.col] = CellState.AGENT;
+            return newStates;
+          });
+          setObstacleTime(time);
+          time++;
+        } else {
+          clearInterval(intervalId);
+          resolve(performance.now() - startTime);
+        }
+      }, Math.max(1, 101 - animationSpeed));
+    });
+  };
+
+  /**
+   * Animate a maze being carved: replay its generation steps on an all-wall
+   * grid, showing the generator's working set (backtracking stack, frontier,
+   * random walk or current run) as the frontier
+   */
+  const animateMazeGeneration = async (finalGrid: CellType[][], steps: GenerationStep[]): Promise<void> => {
+    return new Promise((resolve) => {
+      const carved = finalGrid.map((row) => row.map(() => CellType.WALL));
+      const stepsPerTick = Math.ceil(steps.length / MAX_GENERATION_TICKS);
+      let step = 0;
+      setGrid(carved.map((row) => [...row]));
+
+      const intervalId = setInterval(() => {
+        if (step < steps.length) {
+          const batch = steps.slice(step, step + stepsPerTick);
+          for (const { opened, closed = [] } of batch) {
+            for (const { row, col } of opened) carved[row][col] = CellType.FREE;
+            for (const { row, col } of closed) carved[row][col] = CellType.WALL;
+          }
+          step += batch.length;
+
+          const active = batch[batch.length - 1].active ?? [];
+          setGrid(carved.map((row) => [...row]));
+          setCellStates(() => {
+            const newStates = carved.map((row) => row.map(() => CellState.UNEXPLORED));
+            for (const { row, col } of active) {
+              newStates[row][col] = CellState.FRONTIER;
+            }
+            return newStates;
+          });
+          setAnimationLabel(`Carving · step ${step} of ${steps.length}`);
+        } else {
+          clearInterval(intervalId);
+          resolve();
+        }
+      }, Math.max(1, 101 - animationSpeed));
+    });
+  };
+
   /**
    * Run selected algorithm
    */
   const runAlgorithm = async () => {
-    if (!selectedAlgorithm) return;
+    const algorithm = selectedAlgorithm ? getAlgorithm(selectedAlgorithm) : undefined;
+    if (!algorithm) return;
 
-    const { start, goal } = findPositions(grid);
-    if (!start || !goal) {
+    const { starts, goals } = findPositions(grid);
+    if (starts.length === 0 || goals.length === 0) {
       alert('Start or goal position not found!');
       return;
     }
@@ -130,24 +583,30 @@ function App() {
     setIsRunning(true);
     resetVisualization();
 
-    // Execute algorithm
+    // Execute algorithm, keeping incremental planners around for later edits.
+    // Agents, waypoint routes and planners use the first start and goal.
+    const [start] = starts;
+    const [goal] = goals;
+    const isSinglePair = starts.length === 1 && goals.length === 1;
     let result: AlgorithmResult;
-    switch (selectedAlgorithm) {
-      case Algorithm.DFS:
-        result = executeDFS(grid, start, goal);
-        break;
-      case Algorithm.BFS:
-        result = executeBFS(grid, start, goal);
-        break;
-      case Algorithm.ASTAR:
-        result = executeAStar(grid, start, goal);
-        break;
-      default:
-        return;
+    if (agentMode) {
+      result = runFogOfWarAgent(algorithm, grid, start, goal, sensingRadius, searchOptions);
+    } else if (waypoints.length > 0) {
+      result = routeThroughWaypoints(algorithm, grid, start, waypoints, goal, waypointOrder, searchOptions);
+    } else if (algorithm.createPlanner && isSinglePair) {
+      const planner = algorithm.createPlanner(grid, start, goal, searchOptions);
+      result = addTurnStats(planner.plan(), algorithm, grid, searchOptions);
+      plannerRef.current = planner;
+    } else {
+      result = executeAlgorithm(algorithm, grid, starts, goals, searchOptions);
     }
 
     // Animate and get visual time
-    const visualTime = await animateAlgorithm(result);
+    const visualTime = result.agentTimeline
+      ? await animateAgent(result)
+      : result.legs
+        ? await animateRoute(result)
+        : await animateAlgorithm(result);
 
     // Update result with visual timing
     setResults([{
@@ -158,12 +617,59 @@ function App() {
   };
 
   /**
-   * Run comparison of all algorithms (CONCURRENT with different colors)
+   * Plan collision-free paths for every placed agent with CBS
+   */
+  const runMultiAgent = async () => {
+    if (mapfAgents.length === 0) return;
+
+    setIsRunning(true);
+    resetVisualization();
+    setPendingAgentStart(null);
+
+    const result = runConflictBasedSearch(grid, mapfAgents, searchOptions);
+    const visualTime = await animateMultiAgent(result);
+
+    setResults([{
+      ...result,
+      timeTaken: visualTime
+    }]);
+    setIsRunning(false);
+  };
+
+  /**
+   * Plan from the start to the goal around the moving obstacles with
+   * space-time A*
+   */
+  const runMovingObstacles = async () => {
+    if (movingObstacles.length === 0) return;
+
+    const { starts, goals } = findPositions(grid);
+    if (starts.length === 0 || goals.length === 0) {
+      alert('Start or goal position not found!');
+      return;
+    }
+
+    setIsRunning(true);
+    resetVisualization();
+    setPendingObstacleRoute(null);
+
+    const result = planAroundMovingObstacles(grid, starts[0], goals[0], movingObstacles, searchOptions);
+    const visualTime = await animateMovingObstacles(result);
+
+    setResults([{
+      ...result,
+      timeTaken: visualTime
+    }]);
+    setIsRunning(false);
+  };
+
+  /**
+   * Run comparison of all registered algorithms (CONCURRENT with different colors)
    * All algorithms run simultaneously with distinct colors
    */
   const runComparison = async () => {
-    const { start, goal } = findPositions(grid);
-    if (!start || !goal) {
+    const { starts, goals } = findPositions(grid);
+    if (starts.length === 0 || goals.length === 0) {
       alert('Start or goal position not found!');
       return;
     }
@@ -171,23 +677,22 @@ function App() {
     setIsRunning(true);
     resetVisualization();
 
-    // Execute all algorithms (they compute results independently)
-    const dfsResult = executeDFS(grid, start, goal);
-    const bfsResult = executeBFS(grid, start, goal);
-    const astarResult = executeAStar(grid, start, goal);
+    // Execute all algorithms (they compute results independently); iterative
+    // deepening would stretch the shared animation to hundreds of thousands of ticks
+    const algorithmResults = getAlgorithms()
+      .filter((algorithm) => !algorithm.excludeFromComparison)
+      .map((algorithm) => executeAlgorithm(algorithm, grid, starts, goals, searchOptions));
 
     // Track which algorithms have explored each cell
-    const exploredBy: Map<string, Set<string>> = new Map();
+    const exploredBy: Map<string, string[]> = new Map();
     
     // Track when each algorithm reaches the goal (step number)
     const goalReachedStep: Record<string, number> = {};
-    const goalKey = `${goal.row},${goal.col}`;
+    const goalKeys = new Set(goals.map((goal) => `${goal.row},${goal.col}`));
 
     // Find the maximum exploration length to know when to stop
     const maxExplorationSteps = Math.max(
-      dfsResult.explorationOrder.length,
-      bfsResult.explorationOrder.length,
-      astarResult.explorationOrder.length
+      ...algorithmResults.map((result) => result.explorationOrder.length)
     );
 
     // Animation timing
@@ -198,85 +703,55 @@ function App() {
     let step = 0;
     const intervalId = setInterval(() => {
       if (step < maxExplorationSteps) {
-        // Helper function to determine the correct cell state based on which algorithms explored it
-        const getCombinedState = (algorithms: Set<string>): CellState => {
-          const hasDfs = algorithms.has('dfs');
-          const hasBfs = algorithms.has('bfs');
-          const hasAstar = algorithms.has('astar');
-          
-          if (hasDfs && hasBfs && hasAstar) return CellState.ALL_EXPLORED;
-          if (hasDfs && hasBfs) return CellState.DFS_BFS_EXPLORED;
-          if (hasDfs && hasAstar) return CellState.DFS_ASTAR_EXPLORED;
-          if (hasBfs && hasAstar) return CellState.BFS_ASTAR_EXPLORED;
-          if (hasDfs) return CellState.DFS_EXPLORED;
-          if (hasBfs) return CellState.BFS_EXPLORED;
-          if (hasAstar) return CellState.ASTAR_EXPLORED;
-          return CellState.UNEXPLORED;
-        };
-
         // Process all algorithm steps for this tick BEFORE updating state
-        // Track DFS
-        if (step < dfsResult.explorationOrder.length) {
-          const pos = dfsResult.explorationOrder[step];
-          const key = `${pos.row},${pos.col}`;
-          if (!exploredBy.has(key)) {
-            exploredBy.set(key, new Set());
-          }
-          exploredBy.get(key)!.add('dfs');
-          if (key === goalKey && !goalReachedStep['DFS']) {
-            goalReachedStep['DFS'] = step;
-          }
-        }
-        
-        // Track BFS
-        if (step < bfsResult.explorationOrder.length) {
-          const pos = bfsResult.explorationOrder[step];
-          const key = `${pos.row},${pos.col}`;
-          if (!exploredBy.has(key)) {
-            exploredBy.set(key, new Set());
-          }
-          exploredBy.get(key)!.add('bfs');
-          if (key === goalKey && !goalReachedStep['BFS']) {
-            goalReachedStep['BFS'] = step;
-          }
-        }
-        
-        // Track A*
-        if (step < astarResult.explorationOrder.length) {
-          const pos = astarResult.explorationOrder[step];
+        const changedKeys: string[] = [];
+        for (const result of algorithmResults) {
+          if (step >= result.explorationOrder.length) continue;
+
+          const pos = result.explorationOrder[step];
           const key = `${pos.row},${pos.col}`;
-          if (!exploredBy.has(key)) {
-            exploredBy.set(key, new Set());
+          const explorers = exploredBy.get(key) ?? [];
+          if (!explorers.includes(result.algorithmId)) {
+            exploredBy.set(key, [...explorers, result.algorithmId]);
+            changedKeys.push(key);
           }
-          exploredBy.get(key)!.add('astar');
-          if (key === goalKey && !goalReachedStep['A*']) {
-            goalReachedStep['A*'] = step;
+          if (goalKeys.has(key) && goalReachedStep[result.algorithmId] === undefined) {
+            goalReachedStep[result.algorithmId] = step;
           }
         }
 
         // Now update the cell states
+        setCellExplorers(new Map(exploredBy));
         setCellStates((prev) => {
           const newStates = prev.map((row) => [...row]);
           
-          // Update all explored cells based on current exploredBy state
-          exploredBy.forEach((algorithms, key) => {
+          for (const key of changedKeys) {
             const [rowStr, colStr] = key.split(',');
             const row = parseInt(rowStr);
             const col = parseInt(colStr);
             if (grid[row][col] !== CellType.START && grid[row][col] !== CellType.GOAL) {
-              newStates[row][col] = getCombinedState(algorithms);
+              newStates[row][col] = CellState.COMPARED;
             }
-          });
+          }
           
           return newStates;
         });
         step++;
       } else {
-        // Show final path (A* typically has the best path, show that)
-        if (astarResult.path.length > 0) {
+        // Show the shortest path found by an optimal algorithm (falling back to any path)
+        const foundResults = algorithmResults.filter((result) => result.found);
+        const candidates = foundResults.some((result) => result.isOptimal)
+          ? foundResults.filter((result) => result.isOptimal)
+          : foundResults;
+        const bestResult = candidates.reduce<AlgorithmResult | null>(
+          (best, result) => (!best || result.pathCost < best.pathCost ? result : best),
+          null
+        );
+
+        if (bestResult) {
           setCellStates((prev) => {
             const newStates = prev.map((row) => [...row]);
-            for (const pos of astarResult.path) {
+            for (const pos of bestResult.path) {
               if (grid[pos.row][pos.col] !== CellType.START && grid[pos.row][pos.col] !== CellType.GOAL) {
                 newStates[pos.row][pos.col] = CellState.PATH;
               }
@@ -292,8 +767,8 @@ function App() {
         const totalVisualTime = animationEndTime - animationStartTime;
         
         // Create updated results with visual timing
-        const updatedResults = [dfsResult, bfsResult, astarResult].map(result => {
-          const stepsToGoal = goalReachedStep[result.algorithmName] ?? result.explorationOrder.length;
+        const updatedResults = algorithmResults.map(result => {
+          const stepsToGoal = goalReachedStep[result.algorithmId] ?? result.explorationOrder.length;
           const visualTime = (stepsToGoal / maxExplorationSteps) * totalVisualTime;
           return {
             ...result,
@@ -309,45 +784,346 @@ function App() {
   };
 
   /**
-   * Generate new random maze
+   * Run every algorithm that supports graphs on the graph (or just the
+   * selected one), animating all explorations together as in comparison mode
+   * @param algorithmIds - Algorithms to run, in registration order
    */
-  const handleGenerateMaze = () => {
-    const newGrid = generateMaze(GRID_ROWS, GRID_COLS);
-    setGrid(newGrid);
+  const runGraphSearches = async (algorithmIds: string[]) => {
+    if (!graphStart || !graphGoal) {
+      alert('Start or goal node not set!');
+      return;
+    }
+
+    setIsRunning(true);
     resetVisualization();
+
+    const algorithmResults = algorithmIds.map((id) => getAlgorithm(id)!.executeGraph!(graph, graphStart, graphGoal));
+    const exploredBy: Map<string, string[]> = new Map();
+    const goalReachedStep: Record<string, number> = {};
+    const maxExplorationSteps = Math.max(...algorithmResults.map((result) => result.explorationOrder.length));
+    const animationStartTime = performance.now();
+
+    await new Promise<void>((resolve) => {
+      let step = 0;
+      const intervalId = setInterval(() => {
+        if (step < maxExplorationSteps) {
+          for (const result of algorithmResults) {
+            if (step >= result.explorationOrder.length) continue;
+            const id = result.explorationOrder[step];
+            const explorers = exploredBy.get(id) ?? [];
+            if (!explorers.includes(result.algorithmId)) {
+              exploredBy.set(id, [...explorers, result.algorithmId]);
+            }
+            if (id === graphGoal && goalReachedStep[result.algorithmId] === undefined) {
+              goalReachedStep[result.algorithmId] = step;
+            }
+          }
+          setNodeExplorers(new Map(exploredBy));
+          step++;
+        } else {
+          clearInterval(intervalId);
+          resolve();
+        }
+      }, Math.max(1, 101 - animationSpeed));
+    });
+
+    // Show the cheapest path found by an optimal algorithm (falling back to any path)
+    const foundResults = algorithmResults.filter((result) => result.found);
+    const candidates = foundResults.some((result) => result.isOptimal)
+      ? foundResults.filter((result) => result.isOptimal)
+      : foundResults;
+    const bestResult = candidates.reduce<AlgorithmResult<string> | null>(
+      (best, result) => (!best || result.pathCost < best.pathCost ? result : best),
+      null
+    );
+    setGraphPath(bestResult?.path ?? []);
+
+    // Visual time until each algorithm reached the goal
+    const totalVisualTime = performance.now() - animationStartTime;
+    setResults(algorithmResults.map((result) => {
+      const stepsToGoal = goalReachedStep[result.algorithmId] ?? result.explorationOrder.length;
+      return {
+        ...result,
+        timeTaken: maxExplorationSteps > 0 ? (stepsToGoal / maxExplorationSteps) * totalVisualTime : 0,
+        stepsToGoal,
+      };
+    }));
+    setIsRunning(false);
   };
 
+  /**
+   * Run the selected algorithm on the graph
+   */
+  const runGraphAlgorithm = async () => {
+    if (selectedAlgorithm && getAlgorithm(selectedAlgorithm)?.executeGraph) {
+      await runGraphSearches([selectedAlgorithm]);
+    }
+  };
+
+  /**
+   * Run every algorithm that supports graphs on the graph at once
+   */
+  const runGraphComparison = async () => {
+    await runGraphSearches(getAlgorithms().filter((algorithm) => algorithm.executeGraph).map((algorithm) => algorithm.id));
+  };
+
+  /**
+   * Switch between the maze and the graph (both are kept)
+   */
+  const handleGraphModeToggle = () => {
+    const enabled = !graphMode;
+    setGraphMode(enabled);
+    if (enabled && selectedAlgorithm && !getAlgorithm(selectedAlgorithm)?.executeGraph) {
+      setSelectedAlgorithm(null);
+    }
+    setPendingEdgeFrom(null);
+    resetVisualization();
+  };
+
+  /**
+   * Replace the graph with the sample road network
+   */
+  const handleSampleGraph = () => {
+    setGraph(createSampleGraph());
+    setGraphStart('A');
+    setGraphGoal('H');
+    setPendingEdgeFrom(null);
+    resetVisualization();
+  };
+
+  /**
+   * Replace the graph with one read from an edge list
+   * @returns An error message if the list could not be read
+   */
+  const handleImportEdgeList = (text: string): string | null => {
+    let imported: Graph;
+    try {
+      imported = parseEdgeList(text);
+    } catch (error) {
+      return (error as Error).message;
+    }
+    setGraph(imported);
+    setGraphStart(imported.nodes[0].id);
+    setGraphGoal(imported.nodes.length > 1 ? imported.nodes[imported.nodes.length - 1].id : null);
+    setPendingEdgeFrom(null);
+    resetVisualization();
+    return null;
+  };
+
+  /**
+   * Handle a click on empty canvas: add a node there
+   */
+  const handleGraphCanvasClick = (x: number, y: number) => {
+    setPendingEdgeFrom(null);
+    if (graphEditMode !== GraphEditMode.ADD_NODE) return;
+    setGraph((prev) => ({ ...prev, nodes: [...prev.nodes, { id: getNextNodeId(prev), x, y }] }));
+    resetVisualization();
+  };
+
+  /**
+   * Handle a click on a node for editing
+   */
+  const handleGraphNodeClick = (id: string) => {
+    switch (graphEditMode) {
+      case GraphEditMode.ADD_EDGE:
+        // First click picks one end, the second adds the edge (once per pair)
+        if (!pendingEdgeFrom || pendingEdgeFrom === id) {
+          setPendingEdgeFrom(pendingEdgeFrom ? null : id);
+          return;
+        }
+        if (!graph.edges.some((edge) => edgeJoins(edge, pendingEdgeFrom, id))) {
+          setGraph({
+            ...graph,
+            edges: [...graph.edges, { from: pendingEdgeFrom, to: id, weight: getDefaultEdgeWeight(graph, pendingEdgeFrom, id) }],
+          });
+        }
+        setPendingEdgeFrom(null);
+        break;
+
+      case GraphEditMode.SET_START:
+        if (id === graphGoal) return;
+        setGraphStart(id);
+        break;
+
+      case GraphEditMode.SET_GOAL:
+        if (id === graphStart) return;
+        setGraphGoal(id);
+        break;
+
+      case GraphEditMode.DELETE:
+        setGraph({
+          nodes: graph.nodes.filter((node) => node.id !== id),
+          edges: graph.edges.filter((edge) => edge.from !== id && edge.to !== id),
+        });
+        if (id === graphStart) setGraphStart(null);
+        if (id === graphGoal) setGraphGoal(null);
+        break;
+
+      default:
+        return;
+    }
+
+    resetVisualization();
+  };
+
+  /**
+   * Handle a click on an edge: change its weight, or delete it
+   */
+  const handleGraphEdgeClick = (index: number) => {
+    const edge = graph.edges[index];
+    if (graphEditMode === GraphEditMode.DELETE) {
+      setGraph({ ...graph, edges: graph.edges.filter((_, i) => i !== index) });
+    } else if (graphEditMode === GraphEditMode.ADD_EDGE) {
+      const input = prompt(`Weight of edge ${edge.from} – ${edge.to}:`, String(edge.weight));
+      const weight = Number(input);
+      if (input === null || input.trim() === '' || !Number.isFinite(weight) || weight < 0) return;
+      setGraph({ ...graph, edges: graph.edges.map((e, i) => (i === index ? { ...e, weight } : e)) });
+    } else {
+      return;
+    }
+    resetVisualization();
+  };
+
+  /**
+   * Generate the maze of a seed, animating its construction if enabled
+   */
+  const regenerateMaze = async (seed: number) => {
+    const { grid: newGrid, steps } = generateMap(GRID_ROWS, GRID_COLS, seed, topology, mapSettings);
+    setSeededMaze({ seed, settings: mapSettings, grid: newGrid });
+    setWaypoints([]);
+    setMapfAgents([]);
+    setPendingAgentStart(null);
+    setMovingObstacles([]);
+    setPendingObstacleRoute(null);
+    resetVisualization();
+
+    if (animateGeneration) {
+      setIsRunning(true);
+      await animateMazeGeneration(newGrid, steps);
+      resetVisualization();
+      setIsRunning(false);
+    }
+    setGrid(newGrid);
+  };
+
+  /**
+   * Generate new random maze
+   */
+  const handleGenerateMaze = () => regenerateMaze(createMazeSeed());
+
   /**
    * Clear maze to empty grid
    */
   const handleClearMaze = () => {
-    const newGrid = createEmptyMaze(GRID_ROWS, GRID_COLS);
+    const newGrid = createEmptyMaze(GRID_ROWS, GRID_COLS, topology);
     setGrid(newGrid);
+    setWaypoints([]);
+    setMapfAgents([]);
+    setPendingAgentStart(null);
+    setMovingObstacles([]);
+    setPendingObstacleRoute(null);
     resetVisualization();
   };
 
+  /**
+   * Change the type of some cells. An incremental planner from the last run
+   * repairs and re-animates its path; otherwise the displayed run is cleared.
+   */
+  const applyCellEdits = async (cells: Position[], type: CellType) => {
+    const newGrid = grid.map((r) => [...r]);
+    for (const { row, col } of cells) {
+      newGrid[row][col] = type;
+    }
+    setGrid(newGrid);
+
+    const planner = plannerRef.current;
+    if (!planner) {
+      resetVisualization();
+      return;
+    }
+
+    setIsRunning(true);
+    clearVisualization();
+
+    planner.updateCells(newGrid, cells);
+    const plan = planner.plan();
+    const algorithm = getAlgorithm(plan.algorithmId);
+    const result = algorithm ? addTurnStats(plan, algorithm, newGrid, searchOptions) : plan;
+    setAnimationLabel(`Replan ${result.replanCount} · ${result.nodesExpanded} cells re-expanded`);
+    const visualTime = await animateAlgorithm(result);
+
+    setResults([{
+      ...result,
+      timeTaken: visualTime
+    }]);
+    setIsRunning(false);
+  };
+
+  const applyCellEdit = (row: number, col: number, type: CellType) => applyCellEdits([{ row, col }], type);
+
+  /**
+   * Show the flow field's route from a cell (no search is run)
+   */
+  const showFlowRoute = (field: FlowField, row: number, col: number) => {
+    const result = getFlowFieldRoute(field, grid, { row, col }, searchOptions);
+    clearVisualization();
+    setCellStates((prev) => {
+      const newStates = prev.map((r) => [...r]);
+      for (const pos of result.path) {
+        if (grid[pos.row][pos.col] !== CellType.START && grid[pos.row][pos.col] !== CellType.GOAL) {
+          newStates[pos.row][pos.col] = CellState.PATH;
+        }
+      }
+      return newStates;
+    });
+    setResults([result]);
+  };
+
   /**
    * Handle cell click for editing
    */
   const handleCellClick = (row: number, col: number) => {
     if (isRunning) return;
 
+    // Flow field view: clicks pick a cell to route from instead of editing
+    if (flowField) {
+      showFlowRoute(flowField, row, col);
+      return;
+    }
+
     const currentCell = grid[row][col];
+    const isWaypoint = currentCell === CellType.WAYPOINT;
+    const removeWaypoint = () =>
+      setWaypoints((prev) => prev.filter((pos) => pos.row !== row || pos.col !== col));
+    const isHere = (pos: Position | null) => pos !== null && pos.row === row && pos.col === col;
+    const agentHere = mapfAgents.findIndex((agent) => isHere(agent.start) || isHere(agent.goal));
+    const obstacleHere = movingObstacles.findIndex((obstacle) => obstacle.route.some(isHere));
+    const isOnObstacleRoute = obstacleHere !== -1 || (pendingObstacleRoute?.some(isHere) ?? false);
+    // Special cells go on open floor that no agent stands on
+    const isOpenFloor =
+      (currentCell === CellType.FREE || isTerrain(currentCell)) && agentHere === -1 && !isHere(pendingAgentStart);
+
+    // Special cells are only changed in their own modes, so pairs stay whole
+    if (isSpecialCell(currentCell) && !SPECIAL_CELL_MODES.includes(editMode)) return;
 
     switch (editMode) {
       case EditMode.TOGGLE_WALL:
-        // Don't allow toggling start/goal
-        if (currentCell !== CellType.START && currentCell !== CellType.GOAL) {
-          setGrid((prev) => {
-            const newGrid = prev.map((r) => [...r]);
-            newGrid[row][col] =
-              currentCell === CellType.WALL ? CellType.FREE : CellType.WALL;
-            return newGrid;
-          });
+        // Don't allow toggling start/goal/waypoints or walling in an agent
+        if (
+          currentCell !== CellType.START &&
+          currentCell !== CellType.GOAL &&
+          !isWaypoint &&
+          agentHere === -1 &&
+          !isHere(pendingAgentStart) &&
+          !isOnObstacleRoute
+        ) {
+          applyCellEdit(row, col, currentCell === CellType.WALL ? CellType.FREE : CellType.WALL);
+          return;
         }
         break;
 
       case EditMode.SET_START:
+        if (isWaypoint) removeWaypoint();
         // Remove old start
         setGrid((prev) => {
           const newGrid = prev.map((r) => [...r]);
@@ -364,6 +1140,7 @@ function App() {
         break;
 
       case EditMode.SET_GOAL:
+        if (isWaypoint) removeWaypoint();
         // Remove old goal
         setGrid((prev) => {
           const newGrid = prev.map((r) => [...r]);
@@ -378,8 +1155,263 @@ function App() {
           return newGrid;
         });
         break;
+
+      case EditMode.PAINT_ROAD:
+      case EditMode.PAINT_MUD:
+      case EditMode.PAINT_WATER: {
+        // Paint terrain over free/terrain cells; painting the same terrain again clears it
+        const terrain = PAINT_TERRAIN[editMode]!;
+        if (currentCell !== CellType.START && currentCell !== CellType.GOAL && currentCell !== CellType.WALL && !isWaypoint) {
+          applyCellEdit(row, col, currentCell === terrain ? CellType.FREE : terrain);
+          return;
+        }
+        break;
+      }
+
+      case EditMode.TOGGLE_START:
+      case EditMode.TOGGLE_GOAL: {
+        // Add or remove one of several starts/goals on walkable cells
+        const endpoint = editMode === EditMode.TOGGLE_START ? CellType.START : CellType.GOAL;
+        const other = endpoint === CellType.START ? CellType.GOAL : CellType.START;
+        if (currentCell !== CellType.WALL && currentCell !== other) {
+          if (isWaypoint) removeWaypoint();
+          setGrid((prev) => {
+            const newGrid = prev.map((r) => [...r]);
+            newGrid[row][col] = currentCell === endpoint ? CellType.FREE : endpoint;
+            return newGrid;
+          });
+        }
+        break;
+      }
+
+      case EditMode.SET_WAYPOINT:
+        // Toggle a waypoint on any walkable cell; new waypoints go last in the visiting order
+        if (isWaypoint) {
+          setGrid((prev) => {
+            const newGrid = prev.map((r) => [...r]);
+            newGrid[row][col] = CellType.FREE;
+            return newGrid;
+          });
+          removeWaypoint();
+        } else if (
+          currentCell !== CellType.START &&
+          currentCell !== CellType.GOAL &&
+          currentCell !== CellType.WALL &&
+          waypoints.length < MAX_WAYPOINTS
+        ) {
+          setGrid((prev) => {
+            const newGrid = prev.map((r) => [...r]);
+            newGrid[row][col] = CellType.WAYPOINT;
+            return newGrid;
+          });
+          setWaypoints((prev) => [...prev, { row, col }]);
+        }
+        break;
+
+      case EditMode.PLACE_AGENT:
+        // First click places an agent's start, the second its goal; clicking
+        // an agent's start or goal (or a lone start) removes it
+        if (agentHere !== -1) {
+          setMapfAgents((prev) => prev.filter((_, i) => i !== agentHere));
+        } else if (isHere(pendingAgentStart)) {
+          setPendingAgentStart(null);
+        } else if (
+          currentCell !== CellType.START &&
+          currentCell !== CellType.GOAL &&
+          currentCell !== CellType.WALL &&
+          !isWaypoint
+        ) {
+          if (pendingAgentStart) {
+            setMapfAgents((prev) => [...prev, { start: pendingAgentStart, goal: { row, col } }]);
+            setPendingAgentStart(null);
+          } else if (mapfAgents.length < MAX_MAPF_AGENTS) {
+            setPendingAgentStart({ row, col });
+          }
+        }
+        break;
+
+      case EditMode.PLACE_OBSTACLE: {
+        // The first click starts a route and later clicks extend it along the
+        // shortest way there; clicking its first cell closes the loop (right
+        // away for a stationary obstacle). Clicking a finished route removes it.
+        if (pendingObstacleRoute) {
+          const last = pendingObstacleRoute[pendingObstacleRoute.length - 1];
+          const target = isHere(pendingObstacleRoute[0]) ? pendingObstacleRoute[0] : { row, col };
+          const segment = currentCell === CellType.WALL
+            ? null
+            : getObstacleRouteSegment(grid, last, target, movement, topology);
+          if (target === pendingObstacleRoute[0]) {
+            if (!segment) {
+              alert('The route cannot loop back to its first cell');
+              return;
+            }
+            // The loop ends next to the first cell, which the route already starts with
+            setMovingObstacles((prev) => [...prev, { route: [...pendingObstacleRoute, ...segment.slice(0, -1)] }]);
+            setPendingObstacleRoute(null);
+          } else if (segment) {
+            setPendingObstacleRoute([...pendingObstacleRoute, ...segment]);
+          }
+        } else if (obstacleHere !== -1) {
+          setMovingObstacles((prev) => prev.filter((_, i) => i !== obstacleHere));
+        } else if (currentCell !== CellType.WALL && movingObstacles.length < MAX_MOVING_OBSTACLES) {
+          setPendingObstacleRoute([{ row, col }]);
+        }
+        break;
+      }
+
+      case EditMode.PLACE_PORTAL: {
+        // Clicking a portal removes its pair; otherwise link a lone portal to
+        // this cell, or start a new pair in the first unused channel
+        if (isPortal(currentCell)) {
+          applyCellEdits(findCells(grid, currentCell), CellType.FREE);
+          return;
+        }
+        const counts = PORTAL_TYPES.map((type) => findCells(grid, type).length);
+        const channel = counts.includes(1) ? counts.indexOf(1) : counts.indexOf(0);
+        if (isOpenFloor && channel !== -1) {
+          applyCellEdit(row, col, PORTAL_TYPES[channel]);
+          return;
+        }
+        break;
+      }
+
+      case EditMode.PLACE_ONE_WAY: {
+        // Each click turns the arrow clockwise, then back to floor
+        const index = ONE_WAY_TYPES.indexOf(currentCell);
+        if (index !== -1 || (currentCell === CellType.FREE && isOpenFloor)) {
+          applyCellEdit(row, col, index === ONE_WAY_TYPES.length - 1 ? CellType.FREE : ONE_WAY_TYPES[index + 1]);
+          return;
+        }
+        break;
+      }
+
+      case EditMode.PLACE_KEY_DOOR: {
+        // Clicking a key or door removes the pair; otherwise place the door
+        // of a key still missing one, or a new key in the first unused channel
+        if (isKey(currentCell) || isDoor(currentCell)) {
+          const channel = getChannel(currentCell);
+          applyCellEdits(
+            [...findCells(grid, KEY_TYPES[channel]), ...findCells(grid, DOOR_TYPES[channel])],
+            CellType.FREE
+          );
+          return;
+        }
+        const hasKey = KEY_TYPES.map((type) => findCells(grid, type).length > 0);
+        const hasDoor = DOOR_TYPES.map((type) => findCells(grid, type).length > 0);
+        const doorless = hasKey.findIndex((key, i) => key && !hasDoor[i]);
+        const unused = hasKey.findIndex((key, i) => !key && !hasDoor[i]);
+        if (isOpenFloor && doorless !== -1) {
+          applyCellEdit(row, col, DOOR_TYPES[doorless]);
+          return;
+        }
+        if (isOpenFloor && unused !== -1) {
+          applyCellEdit(row, col, KEY_TYPES[unused]);
+          return;
+        }
+        break;
+      }
+    }
+
+    resetVisualization();
+  };
+
+  /**
+   * Change the movement model (invalidates any displayed run)
+   */
+  const handleMovementChange = (newMovement: MovementModel) => {
+    setMovement(newMovement);
+    resetVisualization();
+  };
+
+  /**
+   * Change the grid topology. Mazes are carved for one topology, so a seeded
+   * maze is rebuilt from its seed, and a cleared or edited grid becomes an
+   * empty one; the hex heuristic is picked on (and only on) hex grids.
+   */
+  const handleTopologyChange = (newTopology: Topology) => {
+    setTopology(newTopology);
+    if (newTopology === Topology.HEX) {
+      setHeuristic(Heuristic.HEX);
+    } else if (heuristic === Heuristic.HEX) {
+      setHeuristic(DEFAULT_SEARCH_OPTIONS.heuristic);
+    }
+    if (isSeededGrid) {
+      const { seed, settings } = seededMaze;
+      const newGrid = generateMap(GRID_ROWS, GRID_COLS, seed, newTopology, settings).grid;
+      setSeededMaze({ seed, settings, grid: newGrid });
+      setGrid(newGrid);
+    } else {
+      setGrid(createEmptyMaze(GRID_ROWS, GRID_COLS, newTopology));
     }
+    setWaypoints([]);
+    setMapfAgents([]);
+    setPendingAgentStart(null);
+    setMovingObstacles([]);
+    setPendingObstacleRoute(null);
+    resetVisualization();
+  };
 
+  /**
+   * Change the heuristic (invalidates any displayed run)
+   */
+  const handleHeuristicChange = (newHeuristic: Heuristic) => {
+    setHeuristic(newHeuristic);
+    resetVisualization();
+  };
+
+  /**
+   * Change the A* heuristic weight (invalidates any displayed run)
+   */
+  const handleHeuristicWeightChange = (weight: number) => {
+    setHeuristicWeight(weight);
+    resetVisualization();
+  };
+
+  /**
+   * Change the cost of turning (invalidates any displayed run)
+   */
+  const handleTurnPenaltyChange = (penalty: number) => {
+    setTurnPenalty(penalty);
+    resetVisualization();
+  };
+
+  /**
+   * Change how waypoints are ordered (invalidates any displayed run)
+   */
+  const handleWaypointOrderChange = (order: WaypointOrder) => {
+    setWaypointOrder(order);
+    resetVisualization();
+  };
+
+  /**
+   * Show or hide the flow field (invalidates any displayed run)
+   */
+  const handleFlowFieldToggle = () => {
+    setShowFlowField((prev) => !prev);
+    resetVisualization();
+  };
+
+  /**
+   * Toggle fog-of-war agent mode (invalidates any displayed run)
+   */
+  const handleAgentModeChange = (enabled: boolean) => {
+    setAgentMode(enabled);
+    resetVisualization();
+  };
+
+  /**
+   * Change how far the agent can see (invalidates any displayed run)
+   */
+  const handleSensingRadiusChange = (radius: number) => {
+    setSensingRadius(radius);
+    resetVisualization();
+  };
+
+  /**
+   * Update the cost of one terrain type
+   */
+  const handleTerrainCostChange = (terrain: keyof TerrainCosts, cost: number) => {
+    setTerrainCosts((prev) => ({ ...prev, [terrain]: cost }));
     resetVisualization();
   };
 
@@ -389,15 +1421,63 @@ function App() {
         <Controls
           selectedAlgorithm={selectedAlgorithm}
           onAlgorithmSelect={setSelectedAlgorithm}
-          onRunAlgorithm={runAlgorithm}
-          onRunComparison={runComparison}
+          onRunAlgorithm={graphMode ? runGraphAlgorithm : runAlgorithm}
+          onRunComparison={graphMode ? runGraphComparison : runComparison}
+          onRunMultiAgent={runMultiAgent}
           onResetVisualization={resetVisualization}
-          onGenerateMaze={handleGenerateMaze}
+          onGenerateMaze={graphMode ? handleSampleGraph : handleGenerateMaze}
+          mapStyle={mapStyle}
+          onMapStyleChange={setMapStyle}
+          mazeGenerator={mazeGenerator}
+          onMazeGeneratorChange={setMazeGenerator}
+          caveOptions={caveOptions}
+          onCaveOptionsChange={setCaveOptions}
+          noiseOptions={noiseOptions}
+          onNoiseOptionsChange={setNoiseOptions}
+          mazeSeed={mazeSeed}
+          onMazeSeedSubmit={regenerateMaze}
+          animateGeneration={animateGeneration}
+          onAnimateGenerationToggle={() => setAnimateGeneration((prev) => !prev)}
           onClearMaze={handleClearMaze}
           animationSpeed={animationSpeed}
           onSpeedChange={setAnimationSpeed}
           editMode={editMode}
           onEditModeChange={setEditMode}
+          movement={movement}
+          onMovementChange={handleMovementChange}
+          topology={topology}
+          onTopologyChange={handleTopologyChange}
+          heuristic={heuristic}
+          onHeuristicChange={handleHeuristicChange}
+          heuristicWeight={heuristicWeight}
+          onHeuristicWeightChange={handleHeuristicWeightChange}
+          turnPenalty={turnPenalty}
+          onTurnPenaltyChange={handleTurnPenaltyChange}
+          waypointCount={waypoints.length}
+          waypointOrder={waypointOrder}
+          onWaypointOrderChange={handleWaypointOrderChange}
+          showFlowField={showFlowField}
+          onFlowFieldToggle={handleFlowFieldToggle}
+          smoothPaths={smoothPaths}
+          onSmoothPathsToggle={() => setSmoothPaths((prev) => !prev)}
+          agentMode={agentMode}
+          onAgentModeChange={handleAgentModeChange}
+          sensingRadius={sensingRadius}
+          onSensingRadiusChange={handleSensingRadiusChange}
+          mapfAgentCount={mapfAgents.length}
+          onRunMovingObstacles={runMovingObstacles}
+          obstacleCount={movingObstacles.length}
+          terrainCosts={terrainCosts}
+          onTerrainCostChange={handleTerrainCostChange}
+          graphMode={graphMode}
+          onGraphModeToggle={handleGraphModeToggle}
+          graphEditMode={graphEditMode}
+          onGraphEditModeChange={(mode) => {
+            setGraphEditMode(mode);
+            setPendingEdgeFrom(null);
+          }}
+          edgeList={formatEdgeList(graph)}
+          onImportEdgeList={handleImportEdgeList}
           isRunning={isRunning}
         />
       </div>
@@ -405,25 +1485,61 @@ function App() {
       <div className="main-content">
         <div className="visualization-area">
           <div className="maze-container">
-            <Grid
-              grid={grid}
-              cellStates={cellStates}
-              onCellClick={handleCellClick}
-              editMode={editMode}
-              isRunning={isRunning}
-            />
+            {animationLabel && <div className="animation-label">{animationLabel}</div>}
+            {graphMode ? (
+              <GraphCanvas
+                graph={graph}
+                start={graphStart}
+                goal={graphGoal}
+                nodeExplorers={nodeExplorers}
+                path={graphPath}
+                pendingEdgeFrom={pendingEdgeFrom}
+                editMode={graphEditMode}
+                onCanvasClick={handleGraphCanvasClick}
+                onNodeClick={handleGraphNodeClick}
+                onEdgeClick={handleGraphEdgeClick}
+                isRunning={isRunning}
+              />
+            ) : (
+              <Grid
+                grid={grid}
+                cellStates={cellStates}
+                cellExplorers={cellExplorers}
+                waypoints={waypoints}
+                flowField={flowField}
+                topology={topology}
+                mapfAgents={mapfAgents}
+                pendingAgentStart={pendingAgentStart}
+                mapfPositions={mapfPositions}
+                movingObstacles={movingObstacles}
+                pendingObstacleRoute={pendingObstacleRoute}
+                obstacleTime={obstacleTime}
+                turnPoints={results.length === 1 ? results[0].turnPoints ?? [] : []}
+                polylines={polylines}
+                clusterOverlay={results.length === 1 && results[0].clusterSize && results[0].abstractNodes
+                  ? {
+                      clusterSize: results[0].clusterSize,
+                      nodes: results[0].abstractNodes,
+                      color: getAlgorithmColor(results[0].algorithmId),
+                    }
+                  : null}
+                onCellClick={handleCellClick}
+                editMode={editMode}
+                isRunning={isRunning}
+              />
+            )}
           </div>
           
           {/* Analysis panel below maze when in comparison mode */}
           {results.length > 1 && (
             <div className="analysis-inline">
-              <MetricsPanel results={results} showAnalysis={true} metricsOnly={false} />
+              <MetricsPanel results={displayedResults} showAnalysis={true} metricsOnly={false} />
             </div>
           )}
         </div>
 
         <div className="metrics-sidebar">
-          <MetricsPanel results={results} showAnalysis={false} />
+          <MetricsPanel results={displayedResults} showAnalysis={false} />
         </div>
       </div>
     </div>
@@ -3,199 +3,140 @@
  * 
  * CHARACTERISTICS:
  * - Uses a priority queue ordered by f(n) = g(n) + h(n)
- * - g(n): actual cost from start to node n
- * - h(n): heuristic estimate from node n to goal (Manhattan distance)
+ * - g(n): actual cost from start to node n (sum of step costs)
+ * - h(n): heuristic estimate from node n to goal (selected distance
+ *   heuristic scaled by the cheapest step cost on the grid)
  * - f(n): total estimated cost of path through n
  * - GUARANTEED to find optimal path if heuristic is admissible
  * - More efficient than BFS by using heuristic guidance
  * - Explores fewer nodes than BFS/DFS when heuristic is good
  * 
  * TIME COMPLEXITY: O(b^d) where b = branching factor, d = depth
+ * (each open-set operation is O(log n) on an indexed binary heap)
  * SPACE COMPLEXITY: O(b^d) - stores all generated nodes
  * 
- * ADMISSIBILITY: Manhattan distance never overestimates (admissible for 4-directional movement)
+ * ADMISSIBILITY: Depends on the movement model. Manhattan distance is admissible
+ * for 4-directional movement only; Octile, Euclidean, Chebyshev and zero are
+ * admissible for both 4- and 8-directional movement.
  * OPTIMALITY: Guaranteed to find shortest path with admissible heuristic
+ *
+ * WEIGHTED A*: f(n) = g(n) + w·h(n) with w > 1 trades optimality for speed;
+ * with an admissible heuristic the path costs at most w times the optimum.
+ * GREEDY BEST-FIRST: f(n) = h(n) ignores the cost so far; fast but unbounded.
+ *
+ * MULTI-SOURCE / NEAREST-GOAL: every start is seeded at g = 0 and h(n) is the
+ * minimum over the goals, which stays admissible for the nearest goal.
+ *
+ * GENERAL GRAPHS: the same search runs over the nodes and weighted edges of
+ * graph mode, with h(n) the straight-line distance between node coordinates.
+ *
+ * TURN PENALTIES: with a turn penalty set, states are (cell, heading) and each
+ * step also pays for the turn into it; h(n) ignores turns, so it stays admissible.
  */
 
-import { CellType, Position, AlgorithmResult, AStarNode } from '../types/maze.types';
-
-const DIRECTIONS = [
-  { row: -1, col: 0 },  // Up
-  { row: 1, col: 0 },   // Down
-  { row: 0, col: -1 },  // Left
-  { row: 0, col: 1 },   // Right
-];
-
-/**
- * Calculate Manhattan distance heuristic
- * This is admissible for 4-directional movement (never overestimates)
- * @param from - Current position
- * @param to - Goal position
- * @returns Manhattan distance
- */
-function manhattanDistance(from: Position, to: Position): number {
-  return Math.abs(from.row - to.row) + Math.abs(from.col - to.col);
-}
-
-/**
- * Check if two positions are equal
- */
-function positionsEqual(a: Position, b: Position): boolean {
-  return a.row === b.row && a.col === b.col;
-}
-
-/**
- * Get neighbors of a cell (4-directional)
- */
-function getNeighbors(pos: Position, grid: CellType[][]): Position[] {
-  const neighbors: Position[] = [];
-  const rows = grid.length;
-  const cols = grid[0].length;
-
-  for (const dir of DIRECTIONS) {
-    const newPos: Position = {
-      row: pos.row + dir.row,
-      col: pos.col + dir.col,
-    };
-
-    // Check bounds and if not a wall
-    if (
-      newPos.row >= 0 &&
-      newPos.row < rows &&
-      newPos.col >= 0 &&
-      newPos.col < cols &&
-      grid[newPos.row][newPos.col] !== CellType.WALL
-    ) {
-      neighbors.push(newPos);
-    }
-  }
-
-  return neighbors;
-}
+import {
+  AlgorithmResult,
+  AStarNode,
+  CellType,
+  Graph,
+  GraphSearchOutcome,
+  Position,
+  SearchGraph,
+  SearchOptions,
+} from '../types/maze.types';
+import { getMinStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import {
+  describeMovement,
+  getDistanceEstimate,
+  isHeuristicAdmissible,
+  HEURISTIC_LABELS,
+} from '../utils/movement';
+import { PriorityQueue, compareAStarNodes } from '../utils/priorityQueue';
+import { createEdgeSearchGraph, createGridSearchGraph, getEuclideanEstimate } from '../utils/searchGraph';
+import { withPortalShortcuts } from '../utils/specialCells';
+import { createTurnAwareSearchGraph } from '../utils/turns';
+import { executeMultiDijkstra } from './dijkstra';
+import { getConnectedPair } from './multiTarget';
 
 /**
  * Reconstruct path from start to goal using parent pointers
  */
-function reconstructPath(
-  nodeMap: Map<string, AStarNode>,
-  goal: Position
-): Position[] {
-  const path: Position[] = [];
-  let current: Position | null = goal;
+function reconstructPath<N>(
+  graph: SearchGraph<N>,
+  nodeMap: Map<string, AStarNode<N>>,
+  goal: N
+): N[] {
+  const path: N[] = [];
+  let current: N | null = goal;
 
   while (current !== null) {
-    path.unshift(current);
-    const key = `${current.row},${current.col}`;
-    const node = nodeMap.get(key);
-    current = node?.parent || null;
+    path.push(current);
+    const node = nodeMap.get(graph.key(current));
+    current = node?.parent ?? null;
   }
 
-  return path;
+  return path.reverse();
 }
 
-/**
- * Simple priority queue implementation for A*
- * Orders nodes by f-value (lowest first)
- */
-class PriorityQueue {
-  private items: AStarNode[] = [];
-
-  enqueue(node: AStarNode): void {
-    this.items.push(node);
-    // Sort by f-value (lower is better)
-    // In case of tie, use h-value (prefer nodes closer to goal)
-    this.items.sort((a, b) => {
-      if (a.f === b.f) {
-        return a.h - b.h;
-      }
-      return a.f - b.f;
-    });
-  }
-
-  dequeue(): AStarNode | undefined {
-    return this.items.shift();
-  }
-
-  isEmpty(): boolean {
-    return this.items.length === 0;
-  }
-
-  contains(position: Position): boolean {
-    return this.items.some(
-      (node) =>
-        node.position.row === position.row &&
-        node.position.col === position.col
-    );
-  }
-
-  updateNode(position: Position, newG: number, newF: number, parent: Position): void {
-    const index = this.items.findIndex(
-      (node) =>
-        node.position.row === position.row &&
-        node.position.col === position.col
-    );
-    
-    if (index !== -1) {
-      this.items[index].g = newG;
-      this.items[index].f = newF;
-      this.items[index].parent = parent;
-      
-      // Re-sort after update
-      this.items.sort((a, b) => {
-        if (a.f === b.f) {
-          return a.h - b.h;
-        }
-        return a.f - b.f;
-      });
-    }
-  }
+// Weights applied to g and h when ordering the open set
+interface PriorityWeights {
+  g: number;
+  h: number;
 }
 
 /**
- * Execute A* algorithm
- * @param grid - The maze grid
- * @param start - Starting position
- * @param goal - Goal position
- * @returns Algorithm result with path and metrics
+ * Best-first search over any search graph, ordered by
+ * f(n) = weights.g·g(n) + weights.h·h(n)
+ * @param graph - Grid or general graph to search
+ * @param starts - Starting states, all seeded at g = 0
+ * @param isGoal - Whether a state ends the search
+ * @param estimate - Heuristic h(n) to the nearest goal
+ * @param weights - Shared by A* (g = 1, h = w) and Greedy Best-First (g = 0, h = 1)
+ * @returns Path (with its cost), exploration order and memory use
  */
-export function executeAStar(
-  grid: CellType[][],
-  start: Position,
-  goal: Position
-): AlgorithmResult {
-  const startTime = performance.now();
+export function searchBestFirst<N>(
+  graph: SearchGraph<N>,
+  starts: N[],
+  isGoal: (node: N) => boolean,
+  estimate: (node: N) => number,
+  weights: PriorityWeights
+): GraphSearchOutcome<N> {
+  const priority = (g: number, h: number) => weights.g * g + weights.h * h;
   
-  // Priority queue ordered by f-value
-  const openSet = new PriorityQueue();
+  // Binary heap ordered by f-value, ties broken by h-value
+  const openSet = new PriorityQueue<AStarNode<N>>(compareAStarNodes, (node) => graph.key(node.position));
   
   // Track closed (explored) nodes
   const closedSet = new Set<string>();
   
   // Map to store node information including g, h, f values
-  const nodeMap = new Map<string, AStarNode>();
+  const nodeMap = new Map<string, AStarNode<N>>();
   
   // Track exploration order
-  const explorationOrder: Position[] = [];
+  const explorationOrder: N[] = [];
   
   let nodesExpanded = 0;
 
-  // Initialize start node
-  const h = manhattanDistance(start, goal);
-  const startNode: AStarNode = {
-    position: start,
-    g: 0,           // Cost from start to start is 0
-    h: h,           // Heuristic estimate to goal
-    f: 0 + h,       // Total estimated cost
-    parent: null,
-  };
+  // Initialize start nodes
+  for (const start of starts) {
+    const h = estimate(start);
+    const startNode: AStarNode<N> = {
+      position: start,
+      g: 0,                 // Cost from start to start is 0
+      h: h,                 // Heuristic estimate to goal
+      f: priority(0, h),    // Total estimated cost
+      parent: null,
+    };
 
-  openSet.enqueue(startNode);
-  nodeMap.set(`${start.row},${start.col}`, startNode);
+    openSet.enqueue(startNode);
+    nodeMap.set(graph.key(start), startNode);
+  }
 
   while (!openSet.isEmpty()) {
     // Get node with lowest f-value
     const current = openSet.dequeue()!;
-    const key = `${current.position.row},${current.position.col}`;
+    const key = graph.key(current.position);
 
     // Skip if already in closed set
     if (closedSet.has(key)) {
@@ -208,27 +149,22 @@ export function executeAStar(
     nodesExpanded++;
 
     // Check if goal reached
-    if (positionsEqual(current.position, goal)) {
-      const path = reconstructPath(nodeMap, goal);
-      const endTime = performance.now();
-
+    if (isGoal(current.position)) {
       return {
-        algorithmName: 'A*',
         found: true,
-        path,
+        path: reconstructPath(graph, nodeMap, current.position),
         explorationOrder,
         nodesExpanded,
-        pathLength: path.length - 1,
-        timeTaken: endTime - startTime,
-        isOptimal: true, // A* with admissible heuristic guarantees optimal path
+        pathCost: current.g,
+        peakMemory: nodeMap.size,
       };
     }
 
     // Explore neighbors
-    const neighbors = getNeighbors(current.position, grid);
+    const neighbors = graph.neighbors(current.position);
     
     for (const neighbor of neighbors) {
-      const neighborKey = `${neighbor.row},${neighbor.col}`;
+      const neighborKey = graph.key(neighbor);
       
       // Skip if already explored
       if (closedSet.has(neighborKey)) {
@@ -236,15 +172,15 @@ export function executeAStar(
       }
 
       // Calculate costs for neighbor
-      const tentativeG = current.g + 1; // Cost to reach neighbor (uniform cost = 1)
-      const h = manhattanDistance(neighbor, goal);
-      const f = tentativeG + h;
+      const tentativeG = current.g + graph.stepCost(current.position, neighbor);
+      const h = estimate(neighbor);
+      const f = priority(tentativeG, h);
 
       const existingNode = nodeMap.get(neighborKey);
 
       if (!existingNode) {
         // New node - add to open set
-        const newNode: AStarNode = {
+        const newNode: AStarNode<N> = {
           position: neighbor,
           g: tentativeG,
           h: h,
@@ -259,24 +195,156 @@ export function executeAStar(
         existingNode.f = f;
         existingNode.parent = current.position;
         
-        // Update in open set if it's there
-        if (openSet.contains(neighbor)) {
-          openSet.updateNode(neighbor, tentativeG, f, current.position);
-        }
+        // Decrease-key: closed nodes were skipped above, so it is still queued
+        openSet.update(existingNode);
       }
     }
   }
 
   // No path found
-  const endTime = performance.now();
+  return { found: false, path: [], explorationOrder, nodesExpanded, pathCost: 0, peakMemory: nodeMap.size };
+}
+
+/**
+ * Best-first search on the maze with the selected heuristic, reporting
+ * optimality, the suboptimality bound and warnings for the settings
+ */
+function runBestFirstSearch(
+  grid: CellType[][],
+  starts: Position[],
+  goals: Position[],
+  options: SearchOptions,
+  weights: PriorityWeights,
+  algorithmId: string,
+  algorithmName: string
+): AlgorithmResult {
+  const startTime = performance.now();
+  const { terrainCosts, heuristic, movement, topology } = options;
+
+  // Heuristic scale that keeps unit-cost distances admissible on weighted terrain;
+  // with several goals the nearest one bounds the remaining cost
+  const minStepCost = getMinStepCost(grid, terrainCosts);
+  const goalKeys = new Set(goals.map((goal) => `${goal.row},${goal.col}`));
+  const distance = withPortalShortcuts(grid, getDistanceEstimate(grid, heuristic, topology));
+  const estimate = (pos: Position) =>
+    goals.reduce((best, goal) => Math.min(best, distance(pos, goal)), Infinity) * minStepCost;
+
+  // An overestimating heuristic voids both the optimality guarantee and the w bound
+  const isAdmissible = isHeuristicAdmissible(heuristic, movement, topology);
+  const isGreedy = weights.g === 0;
+  const isWeighted = isGreedy || weights.h !== 1;
+  const isOptimal = isAdmissible && !isWeighted;
+  const warnings = isAdmissible
+    ? []
+    : [`${HEURISTIC_LABELS[heuristic]} heuristic overestimates with ${describeMovement(movement, topology)} movement; path may be sub-optimal`];
+
+  // Greedy ignores costs, turns included, so it keeps to cells
+  const outcome = searchBestFirst(
+    options.turnPenalty > 0 && !isGreedy ? createTurnAwareSearchGraph(grid, options) : createGridSearchGraph(grid, options),
+    starts,
+    (pos) => goalKeys.has(`${pos.row},${pos.col}`),
+    estimate,
+    weights
+  );
+
+  // Measure the real suboptimality against an optimal reference run
+  return {
+    algorithmId,
+    algorithmName,
+    ...outcome,
+    pathLength: outcome.found ? outcome.path.length - 1 : 0,
+    timeTaken: performance.now() - startTime,
+    isOptimal, // A* with admissible heuristic and w = 1 guarantees optimal path
+    warnings,
+    // Path cost can exceed the optimum by at most this factor
+    suboptimalityBound: isWeighted
+      ? (isAdmissible && !isGreedy ? weights.h : Infinity)
+      : undefined,
+    optimalCost: outcome.found && !isOptimal
+      ? executeMultiDijkstra(grid, starts, goals, options).pathCost
+      : undefined,
+    ...getConnectedPair(outcome.path, starts, goals),
+  };
+}
+
+/**
+ * Execute A* algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic, heuristic weight)
+ * @returns Algorithm result with path and metrics
+ */
+export function executeAStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  return executeMultiAStar(grid, [start], [goal], options);
+}
+
+/**
+ * Execute A* from several starts to the nearest of several goals, guided by
+ * the minimum heuristic over the goals
+ * @param grid - The maze grid
+ * @param starts - Starting positions, all seeded at cost 0
+ * @param goals - Goal positions; the first one expanded ends the search
+ * @param options - Search settings (terrain costs, movement, heuristic, heuristic weight)
+ * @returns Algorithm result with path, metrics and the connected start/goal pair
+ */
+export function executeMultiAStar(
+  grid: CellType[][],
+  starts: Position[],
+  goals: Position[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const weight = options.heuristicWeight;
+  const name = weight === 1 ? 'A*' : `A* (w=${weight})`;
+  return runBestFirstSearch(grid, starts, goals, options, { g: 1, h: weight }, 'astar', name);
+}
+
+/**
+ * Execute Greedy Best-First Search: A* ordered by h(n) alone
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with path and metrics
+ */
+export function executeGreedyBestFirst(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  return runBestFirstSearch(grid, [start], [goal], options, { g: 0, h: 1 }, 'greedy', 'Greedy');
+}
+
+/**
+ * Execute A* on a general graph, guided by the straight-line distance between
+ * node coordinates (scaled to stay admissible for the edge weights)
+ * @param graph - Nodes and weighted edges
+ * @param start - Starting node id
+ * @param goal - Goal node id
+ * @returns Algorithm result with the node ids of the path and metrics
+ */
+export function executeGraphAStar(graph: Graph, start: string, goal: string): AlgorithmResult<string> {
+  const startTime = performance.now();
+  const outcome = searchBestFirst(
+    createEdgeSearchGraph(graph),
+    [start],
+    (id) => id === goal,
+    getEuclideanEstimate(graph, goal),
+    { g: 1, h: 1 }
+  );
+
   return {
+    algorithmId: 'astar',
     algorithmName: 'A*',
-    found: false,
-    path: [],
-    explorationOrder,
-    nodesExpanded,
-    pathLength: 0,
-    timeTaken: endTime - startTime,
-    isOptimal: true,
+    ...outcome,
+    pathLength: outcome.found ? outcome.path.length - 1 : 0,
+    timeTaken: performance.now() - startTime,
+    isOptimal: true, // The scaled Euclidean distance never overestimates
   };
 }
@@ -0,0 +1,16 @@
+/**
+ * Reference runs for comparing a search against a simpler one on the same maze
+ */
+
+import { AlgorithmResult, BaselineStats } from '../types/maze.types';
+
+/**
+ * Summarize a reference run for AlgorithmResult.baseline
+ */
+export function getBaselineStats(result: AlgorithmResult): BaselineStats {
+  return {
+    algorithmName: result.algorithmName,
+    nodesExpanded: result.nodesExpanded,
+    peakMemory: result.peakMemory,
+  };
+}
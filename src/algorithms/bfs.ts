@@ -11,110 +11,86 @@
  * TIME COMPLEXITY: O(V + E) where V = vertices, E = edges
  * SPACE COMPLEXITY: O(V) - stores all nodes at current level
  * 
- * OPTIMALITY: Always finds the shortest path in terms of number of steps
- */
-
-import { CellType, Position, AlgorithmResult, SearchNode } from '../types/maze.types';
-
-const DIRECTIONS = [
-  { row: -1, col: 0 },  // Up
-  { row: 1, col: 0 },   // Down
-  { row: 0, col: -1 },  // Left
-  { row: 0, col: 1 },   // Right
-];
-
-/**
- * Check if two positions are equal
- */
-function positionsEqual(a: Position, b: Position): boolean {
-  return a.row === b.row && a.col === b.col;
-}
-
-/**
- * Get neighbors of a cell (4-directional)
+ * MULTI-SOURCE / NEAREST-GOAL: every start is seeded into the queue at depth 0
+ * and the search stops at whichever goal it reaches first.
+ * 
+ * OPTIMALITY: Always finds the shortest path in terms of number of steps.
+ * Terrain costs and diagonal step lengths are ignored, so on weighted maps or
+ * with 8-way movement the path is NOT guaranteed to be the cheapest.
+ * 
+ * GENERAL GRAPHS: the same search runs over the nodes of graph mode, where it
+ * is optimal only if every edge has the same weight.
  */
-function getNeighbors(pos: Position, grid: CellType[][]): Position[] {
-  const neighbors: Position[] = [];
-  const rows = grid.length;
-  const cols = grid[0].length;
-
-  for (const dir of DIRECTIONS) {
-    const newPos: Position = {
-      row: pos.row + dir.row,
-      col: pos.col + dir.col,
-    };
-
-    // Check bounds and if not a wall
-    if (
-      newPos.row >= 0 &&
-      newPos.row < rows &&
-      newPos.col >= 0 &&
-      newPos.col < cols &&
-      grid[newPos.row][newPos.col] !== CellType.WALL
-    ) {
-      neighbors.push(newPos);
-    }
-  }
 
-  return neighbors;
-}
+import {
+  AlgorithmResult,
+  CellType,
+  Graph,
+  GraphSearchOutcome,
+  Position,
+  SearchGraph,
+  SearchNode,
+  SearchOptions,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS, hasUniformStepCost } from '../utils/searchOptions';
+import { createEdgeSearchGraph, createGridSearchGraph } from '../utils/searchGraph';
+import { getConnectedPair } from './multiTarget';
 
 /**
  * Reconstruct path from start to goal using parent pointers
  */
-function reconstructPath(
-  nodeMap: Map<string, SearchNode>,
-  goal: Position
-): Position[] {
-  const path: Position[] = [];
-  let current: Position | null = goal;
+function reconstructPath<N>(
+  graph: SearchGraph<N>,
+  nodeMap: Map<string, SearchNode<N>>,
+  goal: N
+): N[] {
+  const path: N[] = [];
+  let current: N | null = goal;
 
   while (current !== null) {
     path.unshift(current);
-    const key = `${current.row},${current.col}`;
-    const node = nodeMap.get(key);
-    current = node?.parent || null;
+    const node = nodeMap.get(graph.key(current));
+    current = node?.parent ?? null;
   }
 
   return path;
 }
 
 /**
- * Execute BFS algorithm
- * @param grid - The maze grid
- * @param start - Starting position
- * @param goal - Goal position
- * @returns Algorithm result with path and metrics
+ * Breadth-first search over any search graph
+ * @param graph - Grid or general graph to search
+ * @param starts - Starting states, all seeded at depth 0
+ * @param isGoal - Whether a state ends the search
+ * @returns Path (with its cost), exploration order and memory use
  */
-export function executeBFS(
-  grid: CellType[][],
-  start: Position,
-  goal: Position
-): AlgorithmResult {
-  const startTime = performance.now();
-  
-  // Queue for BFS (FIFO)
-  const queue: SearchNode[] = [{ position: start, parent: null }];
+export function searchBreadthFirst<N>(
+  graph: SearchGraph<N>,
+  starts: N[],
+  isGoal: (node: N) => boolean
+): GraphSearchOutcome<N> {
+  // Queue for BFS (FIFO), seeded with every start
+  const queue: SearchNode<N>[] = starts.map((start) => ({ position: start, parent: null }));
   
   // Track visited nodes
   const visited = new Set<string>();
   
   // Map to store node information
-  const nodeMap = new Map<string, SearchNode>();
+  const nodeMap = new Map<string, SearchNode<N>>();
   
   // Track exploration order
-  const explorationOrder: Position[] = [];
+  const explorationOrder: N[] = [];
   
   let nodesExpanded = 0;
 
-  // Mark start as visited immediately
-  const startKey = `${start.row},${start.col}`;
-  visited.add(startKey);
+  // Mark starts as visited immediately
+  for (const start of starts) {
+    visited.add(graph.key(start));
+  }
 
   while (queue.length > 0) {
     // Dequeue from front (FIFO - explores breadth first)
     const current = queue.shift()!;
-    const key = `${current.position.row},${current.position.col}`;
+    const key = graph.key(current.position);
 
     // Store node and mark as explored
     nodeMap.set(key, current);
@@ -122,27 +98,20 @@ export function executeBFS(
     nodesExpanded++;
 
     // Check if goal reached
-    if (positionsEqual(current.position, goal)) {
-      const path = reconstructPath(nodeMap, goal);
-      const endTime = performance.now();
-
-      return {
-        algorithmName: 'BFS',
-        found: true,
-        path,
-        explorationOrder,
-        nodesExpanded,
-        pathLength: path.length - 1, // Subtract 1 to get number of steps
-        timeTaken: endTime - startTime,
-        isOptimal: true, // BFS guarantees optimal path in unweighted graphs
-      };
+    if (isGoal(current.position)) {
+      const path = reconstructPath(graph, nodeMap, current.position);
+      let pathCost = 0;
+      for (let i = 1; i < path.length; i++) {
+        pathCost += graph.stepCost(path[i - 1], path[i]);
+      }
+      return { found: true, path, explorationOrder, nodesExpanded, pathCost, peakMemory: visited.size };
     }
 
     // Add neighbors to queue
-    const neighbors = getNeighbors(current.position, grid);
+    const neighbors = graph.neighbors(current.position);
     
     for (const neighbor of neighbors) {
-      const neighborKey = `${neighbor.row},${neighbor.col}`;
+      const neighborKey = graph.key(neighbor);
       
       // Only add if not visited (prevents cycles and duplicate processing)
       if (!visited.has(neighborKey)) {
@@ -156,15 +125,79 @@ export function executeBFS(
   }
 
   // No path found
-  const endTime = performance.now();
+  return { found: false, path: [], explorationOrder, nodesExpanded, pathCost: 0, peakMemory: visited.size };
+}
+
+/**
+ * Wrap a breadth-first search outcome as an algorithm result
+ * @param isOptimal - Whether every step costs the same (fewest steps is then cheapest)
+ */
+function buildResult<N>(outcome: GraphSearchOutcome<N>, startTime: number, isOptimal: boolean): AlgorithmResult<N> {
   return {
+    algorithmId: 'bfs',
     algorithmName: 'BFS',
-    found: false,
-    path: [],
-    explorationOrder,
-    nodesExpanded,
-    pathLength: 0,
-    timeTaken: endTime - startTime,
-    isOptimal: true, // Still optimal (no path exists)
+    ...outcome,
+    pathLength: outcome.found ? outcome.path.length - 1 : 0, // Subtract 1 to get number of steps
+    timeTaken: performance.now() - startTime,
+    isOptimal, // BFS guarantees optimal path only when all steps cost the same
+  };
+}
+
+/**
+ * Execute BFS algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with path and metrics
+ */
+export function executeBFS(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  return executeMultiBFS(grid, [start], [goal], options);
+}
+
+/**
+ * Execute BFS from several starts to the nearest of several goals
+ * @param grid - The maze grid
+ * @param starts - Starting positions, all seeded at depth 0
+ * @param goals - Goal positions; the first one reached ends the search
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with path, metrics and the connected start/goal pair
+ */
+export function executeMultiBFS(
+  grid: CellType[][],
+  starts: Position[],
+  goals: Position[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const goalKeys = new Set(goals.map((goal) => `${goal.row},${goal.col}`));
+  const outcome = searchBreadthFirst(
+    createGridSearchGraph(grid, options),
+    starts,
+    (pos) => goalKeys.has(`${pos.row},${pos.col}`)
+  );
+
+  return {
+    ...buildResult(outcome, startTime, hasUniformStepCost(grid, options)),
+    ...getConnectedPair(outcome.path, starts, goals),
   };
 }
+
+/**
+ * Execute BFS on a general graph
+ * @param graph - Nodes and weighted edges
+ * @param start - Starting node id
+ * @param goal - Goal node id
+ * @returns Algorithm result with the node ids of the path and metrics
+ */
+export function executeGraphBFS(graph: Graph, start: string, goal: string): AlgorithmResult<string> {
+  const startTime = performance.now();
+  const outcome = searchBreadthFirst(createEdgeSearchGraph(graph), [start], (id) => id === goal);
+  const isOptimal = graph.edges.every((edge) => edge.weight === graph.edges[0].weight);
+  return buildResult(outcome, startTime, isOptimal);
+}
@@ -0,0 +1,237 @@
+/**
+ * Bidirectional A* Search Algorithm
+ * 
+ * CHARACTERISTICS:
+ * - Runs two A* searches at once: forward from the start (heuristic to goal)
+ *   and backward from the goal (heuristic to start)
+ * - Expands from whichever open set is smaller (balances the work)
+ * - Tracks μ, the cheapest start-to-goal connection seen between the frontiers
+ * - Stops once neither frontier can still produce a path cheaper than μ
+ * 
+ * TIME COMPLEXITY: O(b^(d/2)) per direction in the best case
+ * SPACE COMPLEXITY: O(b^(d/2)) - stores both search trees
+ * 
+ * TERMINATION: Stop when μ ≤ max(min f forward, min f backward); with an
+ * admissible heuristic every remaining path costs at least that bound
+ * OPTIMALITY: Guaranteed with an admissible, consistent heuristic
+ *
+ * The backward search follows moves in reverse (getPredecessors), which
+ * cannot know which keys the walker holds, so doors stay locked.
+ */
+
+import {
+  CellType,
+  Position,
+  AlgorithmResult,
+  AStarNode,
+  SearchDirection,
+  SearchOptions,
+} from '../types/maze.types';
+import { getMinStepCost, getPathCost, getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import {
+  getNeighbors,
+  getPredecessors,
+  describeMovement,
+  getDistanceEstimate,
+  isHeuristicAdmissible,
+  HEURISTIC_LABELS,
+} from '../utils/movement';
+import { PriorityQueue, compareAStarNodes } from '../utils/priorityQueue';
+import { LOCKED_DOORS_WARNING, lockDoors, withPortalShortcuts } from '../utils/specialCells';
+import { executeBFS } from './bfs';
+import { getBaselineStats } from './baseline';
+
+// State of one search direction
+interface Frontier {
+  direction: SearchDirection;
+  target: Position;                  // Heuristic target (goal forward, start backward)
+  openSet: PriorityQueue<AStarNode>;
+  closedSet: Set<string>;
+  nodeMap: Map<string, AStarNode>;
+  expanded: number;
+}
+
+/**
+ * Follow parent pointers from a node back to its search root
+ */
+function chainToRoot(nodeMap: Map<string, AStarNode>, from: Position): Position[] {
+  const chain: Position[] = [];
+  let current: Position | null = from;
+
+  while (current !== null) {
+    chain.push(current);
+    current = nodeMap.get(`${current.row},${current.col}`)?.parent ?? null;
+  }
+
+  return chain;
+}
+
+/**
+ * Execute bidirectional A* algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with path, per-direction metrics and meeting point
+ */
+export function executeBidirectionalAStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const { terrainCosts, heuristic, movement, topology } = options;
+
+  // Heuristic scale that keeps unit-cost distances admissible on weighted terrain
+  const minStepCost = getMinStepCost(grid, terrainCosts);
+
+  // Backward states cannot carry keys, so both sides search with doors locked
+  const searchGrid = lockDoors(grid);
+  const distance = withPortalShortcuts(searchGrid, getDistanceEstimate(grid, heuristic, topology));
+
+  // An overestimating heuristic voids the optimality guarantee
+  const isAdmissible = isHeuristicAdmissible(heuristic, movement, topology);
+  const isOptimal = isAdmissible && searchGrid === grid;
+  const warnings = isAdmissible
+    ? []
+    : [`${HEURISTIC_LABELS[heuristic]} heuristic overestimates with ${describeMovement(movement, topology)} movement; path may be sub-optimal`];
+  if (searchGrid !== grid) {
+    warnings.push(LOCKED_DOORS_WARNING);
+  }
+
+  const createFrontier = (direction: SearchDirection, root: Position, target: Position): Frontier => {
+    const h = distance(root, target) * minStepCost;
+    const rootNode: AStarNode = { position: root, g: 0, h, f: h, parent: null };
+    const frontier: Frontier = {
+      direction,
+      target,
+      openSet: new PriorityQueue<AStarNode>(compareAStarNodes),
+      closedSet: new Set<string>(),
+      nodeMap: new Map([[`${root.row},${root.col}`, rootNode]]),
+      expanded: 0,
+    };
+    frontier.openSet.enqueue(rootNode);
+    return frontier;
+  };
+
+  const forward = createFrontier(SearchDirection.FORWARD, start, goal);
+  const backward = createFrontier(SearchDirection.BACKWARD, goal, start);
+
+  // Track exploration order and which frontier produced each entry
+  const explorationOrder: Position[] = [];
+  const explorationDirections: SearchDirection[] = [];
+
+  // μ: cheapest known connection between the frontiers
+  let bestCost = Infinity;
+  let meetingPoint: Position | undefined;
+
+  const recordConnection = (pos: Position, cost: number) => {
+    if (cost < bestCost) {
+      bestCost = cost;
+      meetingPoint = pos;
+    }
+  };
+
+  while (!forward.openSet.isEmpty() && !backward.openSet.isEmpty()) {
+    // No remaining path can beat μ
+    const lowerBound = Math.max(forward.openSet.peek()!.f, backward.openSet.peek()!.f);
+    if (bestCost <= lowerBound) {
+      break;
+    }
+
+    // Expand from the smaller open set
+    const side = forward.openSet.size <= backward.openSet.size ? forward : backward;
+    const other = side === forward ? backward : forward;
+
+    const current = side.openSet.dequeue()!;
+    const key = `${current.position.row},${current.position.col}`;
+
+    side.closedSet.add(key);
+    explorationOrder.push(current.position);
+    explorationDirections.push(side.direction);
+    side.expanded++;
+
+    const otherNode = other.nodeMap.get(key);
+    if (otherNode) {
+      recordConnection(current.position, current.g + otherNode.g);
+    }
+
+    // Forward follows moves out of a cell, backward the moves into it
+    const neighbors = side === forward
+      ? getNeighbors(current.position, searchGrid, movement, topology)
+      : getPredecessors(current.position, searchGrid, movement, topology);
+    for (const neighbor of neighbors) {
+      const neighborKey = `${neighbor.row},${neighbor.col}`;
+      if (side.closedSet.has(neighborKey)) {
+        continue;
+      }
+
+      // The backward search walks edges in reverse, so cost the forward step
+      const stepCost = side === forward
+        ? getStepCost(current.position, neighbor, grid, terrainCosts, topology)
+        : getStepCost(neighbor, current.position, grid, terrainCosts, topology);
+      const tentativeG = current.g + stepCost;
+
+      const existingNode = side.nodeMap.get(neighborKey);
+      if (!existingNode) {
+        const h = distance(neighbor, side.target) * minStepCost;
+        const newNode: AStarNode = {
+          position: neighbor,
+          g: tentativeG,
+          h,
+          f: tentativeG + h,
+          parent: current.position,
+        };
+        side.openSet.enqueue(newNode);
+        side.nodeMap.set(neighborKey, newNode);
+      } else if (tentativeG < existingNode.g) {
+        existingNode.g = tentativeG;
+        existingNode.f = tentativeG + existingNode.h;
+        existingNode.parent = current.position;
+        side.openSet.update(existingNode);
+      } else {
+        continue;
+      }
+
+      // Frontiers touch at this neighbor
+      const otherNeighbor = other.nodeMap.get(neighborKey);
+      if (otherNeighbor) {
+        recordConnection(neighbor, tentativeG + otherNeighbor.g);
+      }
+    }
+  }
+
+  const endTime = performance.now();
+
+  let path: Position[] = [];
+  if (meetingPoint) {
+    // Stitch start -> meeting point -> goal
+    path = [
+      ...chainToRoot(forward.nodeMap, meetingPoint).reverse(),
+      ...chainToRoot(backward.nodeMap, meetingPoint).slice(1),
+    ];
+  }
+  const found = path.length > 0;
+
+  return {
+    algorithmId: 'biastar',
+    algorithmName: 'Bi-A*',
+    found,
+    path,
+    explorationOrder,
+    nodesExpanded: forward.expanded + backward.expanded,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost: found ? getPathCost(path, grid, terrainCosts, topology) : 0,
+    timeTaken: endTime - startTime,
+    isOptimal,
+    warnings,
+    peakMemory: forward.nodeMap.size + backward.nodeMap.size,
+    explorationDirections,
+    nodesExpandedForward: forward.expanded,
+    nodesExpandedBackward: backward.expanded,
+    meetingPoint,
+    baseline: getBaselineStats(executeBFS(grid, start, goal, options)),
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Bidirectional Breadth-First Search Algorithm
+ * 
+ * CHARACTERISTICS:
+ * - Runs two BFS searches at once: forward from the start, backward from the goal
+ * - Always expands one full level of the smaller frontier
+ * - Stops as soon as the frontiers touch; the cheapest connection found on
+ *   that level gives the shortest path
+ * - Each side only needs to reach about half the solution depth
+ * 
+ * TIME COMPLEXITY: O(b^(d/2)) where b = branching factor, d = depth
+ * SPACE COMPLEXITY: O(b^(d/2)) - stores both frontiers
+ * 
+ * OPTIMALITY: Finds the shortest path in steps, which is the cheapest path
+ * only when every step costs the same (like BFS)
+ *
+ * The backward search follows moves in reverse (getPredecessors), which
+ * cannot know which keys the walker holds, so doors stay locked.
+ */
+
+import {
+  CellType,
+  Position,
+  AlgorithmResult,
+  SearchDirection,
+  SearchOptions,
+} from '../types/maze.types';
+import { getPathCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS, hasUniformStepCost } from '../utils/searchOptions';
+import { getNeighbors, getPredecessors } from '../utils/movement';
+import { LOCKED_DOORS_WARNING, lockDoors } from '../utils/specialCells';
+import { executeBFS } from './bfs';
+import { getBaselineStats } from './baseline';
+
+// State of one search direction
+interface Frontier {
+  direction: SearchDirection;
+  queue: Position[];                       // Current level
+  parents: Map<string, Position | null>;   // Discovered cells and their parents
+  depth: Map<string, number>;              // Steps from this side's root
+  expanded: number;
+}
+
+/**
+ * Follow parent pointers from a cell back to its search root
+ */
+function chainToRoot(parents: Map<string, Position | null>, from: Position): Position[] {
+  const chain: Position[] = [];
+  let current: Position | null = from;
+
+  while (current !== null) {
+    chain.push(current);
+    current = parents.get(`${current.row},${current.col}`) ?? null;
+  }
+
+  return chain;
+}
+
+/**
+ * Create a frontier rooted at a position
+ */
+function createFrontier(direction: SearchDirection, root: Position): Frontier {
+  const key = `${root.row},${root.col}`;
+  return {
+    direction,
+    queue: [root],
+    parents: new Map([[key, null]]),
+    depth: new Map([[key, 0]]),
+    expanded: 0,
+  };
+}
+
+/**
+ * Execute bidirectional BFS algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with path, per-direction metrics and meeting point
+ */
+export function executeBidirectionalBFS(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+
+  const forward = createFrontier(SearchDirection.FORWARD, start);
+  const backward = createFrontier(SearchDirection.BACKWARD, goal);
+
+  // Track exploration order and which frontier produced each entry
+  const explorationOrder: Position[] = [];
+  const explorationDirections: SearchDirection[] = [];
+
+  // Backward states cannot carry keys, so both sides search with doors locked
+  const searchGrid = lockDoors(grid);
+  const warnings = searchGrid === grid ? [] : [LOCKED_DOORS_WARNING];
+
+  // Steps are counted, not costed, so optimality needs uniform step costs
+  const isOptimal = hasUniformStepCost(grid, options) && searchGrid === grid;
+
+  let path: Position[] = [];
+  let meetingPoint: Position | undefined;
+
+  if (start.row === goal.row && start.col === goal.col) {
+    path = [start];
+    meetingPoint = start;
+    explorationOrder.push(start);
+    explorationDirections.push(SearchDirection.FORWARD);
+    forward.expanded++;
+  }
+
+  while (path.length === 0 && forward.queue.length > 0 && backward.queue.length > 0) {
+    // Grow the smaller frontier by one full level
+    const side = forward.queue.length <= backward.queue.length ? forward : backward;
+    const other = side === forward ? backward : forward;
+
+    const level = side.queue;
+    side.queue = [];
+
+    // Best connection between the frontiers found on this level
+    let bestLength = Infinity;
+    let bestSidePos: Position | null = null;
+    let bestOtherPos: Position | null = null;
+
+    for (const current of level) {
+      const currentKey = `${current.row},${current.col}`;
+      const currentDepth = side.depth.get(currentKey)!;
+
+      explorationOrder.push(current);
+      explorationDirections.push(side.direction);
+      side.expanded++;
+
+      // Forward follows moves out of a cell, backward the moves into it
+      const neighbors = side === forward
+        ? getNeighbors(current, searchGrid, options.movement, options.topology)
+        : getPredecessors(current, searchGrid, options.movement, options.topology);
+      for (const neighbor of neighbors) {
+        const neighborKey = `${neighbor.row},${neighbor.col}`;
+
+        // Frontiers touch: the other side has already reached this neighbor
+        const otherDepth = other.depth.get(neighborKey);
+        if (otherDepth !== undefined && currentDepth + 1 + otherDepth < bestLength) {
+          bestLength = currentDepth + 1 + otherDepth;
+          bestSidePos = current;
+          bestOtherPos = neighbor;
+        }
+
+        if (!side.parents.has(neighborKey)) {
+          side.parents.set(neighborKey, current);
+          side.depth.set(neighborKey, currentDepth + 1);
+          side.queue.push(neighbor);
+        }
+      }
+    }
+
+    if (bestSidePos && bestOtherPos) {
+      // Stitch start -> meeting edge -> goal
+      const [forwardEnd, backwardStart] = side === forward
+        ? [bestSidePos, bestOtherPos]
+        : [bestOtherPos, bestSidePos];
+
+      path = [
+        ...chainToRoot(forward.parents, forwardEnd).reverse(),
+        ...chainToRoot(backward.parents, backwardStart),
+      ];
+      meetingPoint = bestOtherPos;
+    }
+  }
+
+  const endTime = performance.now();
+  const found = path.length > 0;
+
+  return {
+    algorithmId: 'bibfs',
+    algorithmName: 'Bi-BFS',
+    found,
+    path,
+    explorationOrder,
+    nodesExpanded: forward.expanded + backward.expanded,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost: found ? getPathCost(path, grid, options.terrainCosts, options.topology) : 0,
+    timeTaken: endTime - startTime,
+    isOptimal,
+    warnings,
+    peakMemory: forward.parents.size + backward.parents.size,
+    explorationDirections,
+    nodesExpandedForward: forward.expanded,
+    nodesExpandedBackward: backward.expanded,
+    meetingPoint,
+    baseline: getBaselineStats(executeBFS(grid, start, goal, options)),
+  };
+}
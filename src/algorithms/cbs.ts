@@ -0,0 +1,284 @@
+/**
+ * Conflict-Based Search (CBS) for multi-agent pathfinding
+ *
+ * CHARACTERISTICS:
+ * - Two levels: the high level searches a constraint tree (CT), the low level
+ *   plans one agent at a time with space-time A*
+ * - The CT root plans every agent on its own; each node then looks for the
+ *   first conflict between two agents' plans:
+ *   - vertex conflict: both agents occupy the same cell at the same time
+ *   - edge conflict: the agents swap cells in the same step
+ * - A conflict splits the node in two; each child forbids one of the agents
+ *   from the conflicting cell (or move) at that time and replans just that agent
+ * - Nodes are expanded cheapest sum of costs first, so the first conflict-free
+ *   node is an optimal solution
+ *
+ * An agent that has arrived stays on its goal, where it still blocks others.
+ * Costs are time steps (moves and waits), as in space-time A*, whose states
+ * carry no keys, so doors stay locked.
+ *
+ * OPTIMALITY: Minimizes the sum of costs (total arrival times)
+ * COMPLETENESS: Complete when a solution exists; unsolvable instances are cut
+ * off after MAX_HIGH_LEVEL_NODES constraint-tree nodes
+ */
+
+import {
+  AlgorithmResult,
+  CellType,
+  MapfAgent,
+  MapfConflict,
+  MovementModel,
+  Position,
+  SearchOptions,
+  Topology,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { hasDoors } from '../utils/specialCells';
+import { getStepDistances, planSpaceTimePath } from './spaceTimeAStar';
+
+// Most agents the editor accepts
+export const MAX_MAPF_AGENTS = 6;
+
+// Marker color of each agent, by index
+export const MAPF_AGENT_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#eab308', '#ec4899', '#14b8a6'];
+
+// Constraint-tree nodes to expand before giving up
+const MAX_HIGH_LEVEL_NODES = 2000;
+
+// Forbids one agent from a cell at a time, or from a move leaving at that time
+interface Constraint {
+  agent: number;
+  position: Position;
+  to?: Position;   // Edge constraints only
+  time: number;
+}
+
+// Constraint-tree node
+interface ConstraintNode {
+  constraints: Constraint[];
+  paths: Position[][];
+  sumOfCosts: number;
+}
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Where an agent is at a time; agents wait on their goal after arriving
+ */
+function positionAt(path: Position[], time: number): Position {
+  return path[Math.min(time, path.length - 1)];
+}
+
+function getSumOfCosts(paths: Position[][]): number {
+  return paths.reduce((total, path) => total + path.length - 1, 0);
+}
+
+/**
+ * Earliest conflict between any two agents' plans, or null if none collide
+ */
+function findFirstConflict(paths: Position[][]): Omit<MapfConflict, 'highLevelNode' | 'sumOfCosts'> | null {
+  const makespan = Math.max(...paths.map((path) => path.length - 1));
+
+  for (let time = 0; time <= makespan; time++) {
+    for (let a = 0; a < paths.length; a++) {
+      for (let b = a + 1; b < paths.length; b++) {
+        const cellA = positionAt(paths[a], time);
+        const cellB = positionAt(paths[b], time);
+        if (positionsEqual(cellA, cellB)) {
+          return { agents: [a, b], position: cellA, time };
+        }
+        if (time < makespan) {
+          const nextA = positionAt(paths[a], time + 1);
+          const nextB = positionAt(paths[b], time + 1);
+          if (positionsEqual(cellA, nextB) && positionsEqual(cellB, nextA) && !positionsEqual(cellA, nextA)) {
+            return { agents: [a, b], position: cellA, to: nextA, time };
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Plan one agent with space-time A* under the constraints that apply to it
+ * @returns The plan and its expanded cells (path is empty if impossible)
+ */
+function planAgent(
+  grid: CellType[][],
+  agent: MapfAgent,
+  index: number,
+  constraints: Constraint[],
+  movement: MovementModel,
+  topology: Topology,
+  distances: number[][]
+) {
+  const vertexBlocks = new Set<string>();
+  const edgeBlocks = new Set<string>();
+  let earliestArrival = 0;
+
+  for (const constraint of constraints) {
+    if (constraint.agent !== index) continue;
+    const { position, to, time } = constraint;
+    if (to) {
+      edgeBlocks.add(`${position.row},${position.col}>${to.row},${to.col}@${time}`);
+    } else {
+      vertexBlocks.add(`${position.row},${position.col}@${time}`);
+      // Arriving before a constraint on the goal would mean standing on it then
+      if (positionsEqual(position, agent.goal)) {
+        earliestArrival = Math.max(earliestArrival, time + 1);
+      }
+    }
+  }
+
+  return planSpaceTimePath(
+    grid,
+    agent.start,
+    agent.goal,
+    movement,
+    topology,
+    {
+      isVertexBlocked: (position, time) => vertexBlocks.has(`${position.row},${position.col}@${time}`),
+      isEdgeBlocked: (from, to, time) => edgeBlocks.has(`${from.row},${from.col}>${to.row},${to.col}@${time}`),
+      earliestArrival,
+    },
+    distances
+  );
+}
+
+/**
+ * Plan collision-free paths for several agents with Conflict-Based Search
+ * @param grid - The maze grid
+ * @param agents - Each agent's start and goal
+ * @param options - Search settings (only the movement model applies)
+ * @returns Result with one path per agent and the conflicts resolved on the way
+ */
+export function runConflictBasedSearch(
+  grid: CellType[][],
+  agents: MapfAgent[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const { movement, topology } = options;
+  const warnings: string[] = [];
+  const explorationOrder: Position[] = [];
+  const conflicts: MapfConflict[] = [];
+  let highLevelNodes = 0;
+
+  const buildResult = (solution: ConstraintNode | null): AlgorithmResult => {
+    const found = solution !== null;
+    const makespan = found ? Math.max(...solution.paths.map((path) => path.length - 1)) : 0;
+    return {
+      algorithmId: 'cbs',
+      algorithmName: `CBS (${agents.length} agent${agents.length === 1 ? '' : 's'})`,
+      found,
+      path: [],
+      explorationOrder,
+      nodesExpanded: explorationOrder.length,
+      pathLength: makespan,
+      pathCost: found ? solution.sumOfCosts : 0,
+      timeTaken: performance.now() - startTime,
+      isOptimal: found,
+      warnings,
+      agentPaths: found ? solution.paths : [],
+      sumOfCosts: found ? solution.sumOfCosts : undefined,
+      makespan: found ? makespan : undefined,
+      highLevelNodes,
+      conflicts,
+    };
+  };
+
+  // Instances no plan can solve
+  agents.forEach(({ start, goal }, i) => {
+    if (grid[start.row][start.col] === CellType.WALL || grid[goal.row][goal.col] === CellType.WALL) {
+      warnings.push(`Agent ${i + 1} starts or ends on a wall`);
+    }
+  });
+  for (let i = 0; i < agents.length; i++) {
+    for (let j = i + 1; j < agents.length; j++) {
+      if (positionsEqual(agents[i].start, agents[j].start)) {
+        warnings.push(`Agents ${i + 1} and ${j + 1} share a start`);
+      }
+      if (positionsEqual(agents[i].goal, agents[j].goal)) {
+        warnings.push(`Agents ${i + 1} and ${j + 1} share a goal`);
+      }
+    }
+  }
+  if (warnings.length > 0) return buildResult(null);
+  if (hasDoors(grid)) {
+    warnings.push('Agents carry no keys, so doors stay locked');
+  }
+
+  const distances = agents.map((agent) => getStepDistances(grid, agent.goal, movement, topology));
+  const replan = (index: number, constraints: Constraint[]): Position[] => {
+    const plan = planAgent(grid, agents[index], index, constraints, movement, topology, distances[index]);
+    for (const cell of plan.explorationOrder) {
+      explorationOrder.push(cell);
+    }
+    return plan.path;
+  };
+
+  const rootPaths = agents.map((_, index) => replan(index, []));
+  const unreachable = rootPaths.findIndex((path) => path.length === 0);
+  if (unreachable !== -1) {
+    warnings.push(`Agent ${unreachable + 1} cannot reach its goal`);
+    return buildResult(null);
+  }
+
+  // The tree stays small, so a linear scan for the cheapest node is enough
+  const open: ConstraintNode[] = [
+    { constraints: [], paths: rootPaths, sumOfCosts: getSumOfCosts(rootPaths) },
+  ];
+
+  while (open.length > 0) {
+    let cheapest = 0;
+    for (let i = 1; i < open.length; i++) {
+      if (open[i].sumOfCosts < open[cheapest].sumOfCosts) cheapest = i;
+    }
+    const node = open.splice(cheapest, 1)[0];
+    highLevelNodes++;
+
+    const conflict = findFirstConflict(node.paths);
+    if (!conflict) {
+      return buildResult(node);
+    }
+    conflicts.push({ ...conflict, highLevelNode: highLevelNodes, sumOfCosts: node.sumOfCosts });
+
+    if (highLevelNodes >= MAX_HIGH_LEVEL_NODES) {
+      warnings.push(`No collision-free plan found within ${MAX_HIGH_LEVEL_NODES} constraint-tree nodes`);
+      return buildResult(null);
+    }
+
+    // One child per agent in the conflict, each keeping that agent out of the way
+    const [first, second] = conflict.agents;
+    const { position, to, time } = conflict;
+    const children: Constraint[] = to
+      ? [
+          { agent: first, position, to, time },
+          { agent: second, position: to, to: position, time },
+        ]
+      : [
+          { agent: first, position, time },
+          { agent: second, position, time },
+        ];
+
+    for (const constraint of children) {
+      const constraints = [...node.constraints, constraint];
+      const path = replan(constraint.agent, constraints);
+      if (path.length === 0) continue;
+
+      const paths = [...node.paths];
+      paths[constraint.agent] = path;
+      open.push({ constraints, paths, sumOfCosts: getSumOfCosts(paths) });
+    }
+  }
+
+  warnings.push('No collision-free plan exists');
+  return buildResult(null);
+}
@@ -10,105 +10,77 @@
  * 
  * TIME COMPLEXITY: O(V + E) where V = vertices, E = edges
  * SPACE COMPLEXITY: O(h) where h = max depth
+ * 
+ * GENERAL GRAPHS: the same search runs over the nodes of graph mode.
  */
 
-import { CellType, Position, AlgorithmResult, SearchNode } from '../types/maze.types';
-
-const DIRECTIONS = [
-  { row: -1, col: 0 },  // Up
-  { row: 1, col: 0 },   // Down
-  { row: 0, col: -1 },  // Left
-  { row: 0, col: 1 },   // Right
-];
-
-/**
- * Check if two positions are equal
- */
-function positionsEqual(a: Position, b: Position): boolean {
-  return a.row === b.row && a.col === b.col;
-}
-
-/**
- * Get neighbors of a cell (4-directional)
- */
-function getNeighbors(pos: Position, grid: CellType[][]): Position[] {
-  const neighbors: Position[] = [];
-  const rows = grid.length;
-  const cols = grid[0].length;
-
-  for (const dir of DIRECTIONS) {
-    const newPos: Position = {
-      row: pos.row + dir.row,
-      col: pos.col + dir.col,
-    };
-
-    // Check bounds and if not a wall
-    if (
-      newPos.row >= 0 &&
-      newPos.row < rows &&
-      newPos.col >= 0 &&
-      newPos.col < cols &&
-      grid[newPos.row][newPos.col] !== CellType.WALL
-    ) {
-      neighbors.push(newPos);
-    }
-  }
-
-  return neighbors;
-}
+import {
+  AlgorithmResult,
+  CellType,
+  Graph,
+  GraphSearchOutcome,
+  Position,
+  SearchGraph,
+  SearchNode,
+  SearchOptions,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { createEdgeSearchGraph, createGridSearchGraph } from '../utils/searchGraph';
 
 /**
  * Reconstruct path from start to goal using parent pointers
  */
-function reconstructPath(
-  nodeMap: Map<string, SearchNode>,
-  goal: Position
-): Position[] {
-  const path: Position[] = [];
-  let current: Position | null = goal;
+function reconstructPath<N>(
+  graph: SearchGraph<N>,
+  nodeMap: Map<string, SearchNode<N>>,
+  goal: N
+): N[] {
+  const path: N[] = [];
+  let current: N | null = goal;
 
   while (current !== null) {
     path.unshift(current);
-    const key = `${current.row},${current.col}`;
-    const node = nodeMap.get(key);
-    current = node?.parent || null;
+    const node = nodeMap.get(graph.key(current));
+    current = node?.parent ?? null;
   }
 
   return path;
 }
 
 /**
- * Execute DFS algorithm
- * @param grid - The maze grid
- * @param start - Starting position
- * @param goal - Goal position
- * @returns Algorithm result with path and metrics
+ * Depth-first search over any search graph
+ * @param graph - Grid or general graph to search
+ * @param start - Starting state
+ * @param isGoal - Whether a state ends the search
+ * @returns Path (with its cost), exploration order and memory use
  */
-export function executeDFS(
-  grid: CellType[][],
-  start: Position,
-  goal: Position
-): AlgorithmResult {
-  const startTime = performance.now();
-  
+export function searchDepthFirst<N>(
+  graph: SearchGraph<N>,
+  start: N,
+  isGoal: (node: N) => boolean
+): GraphSearchOutcome<N> {
   // Stack for DFS (LIFO)
-  const stack: SearchNode[] = [{ position: start, parent: null }];
+  const stack: SearchNode<N>[] = [{ position: start, parent: null }];
   
   // Track visited nodes
   const visited = new Set<string>();
   
   // Map to store node information
-  const nodeMap = new Map<string, SearchNode>();
+  const nodeMap = new Map<string, SearchNode<N>>();
   
   // Track exploration order
-  const explorationOrder: Position[] = [];
+  const explorationOrder: N[] = [];
   
   let nodesExpanded = 0;
 
+  // Visited set plus stack: everything DFS holds at once
+  let peakMemory = 0;
+
   while (stack.length > 0) {
     // Pop from stack (LIFO - explores depth first)
+    peakMemory = Math.max(peakMemory, visited.size + stack.length);
     const current = stack.pop()!;
-    const key = `${current.position.row},${current.position.col}`;
+    const key = graph.key(current.position);
 
     // Skip if already visited
     if (visited.has(key)) {
@@ -122,29 +94,22 @@ export function executeDFS(
     nodesExpanded++;
 
     // Check if goal reached
-    if (positionsEqual(current.position, goal)) {
-      const path = reconstructPath(nodeMap, goal);
-      const endTime = performance.now();
-
-      return {
-        algorithmName: 'DFS',
-        found: true,
-        path,
-        explorationOrder,
-        nodesExpanded,
-        pathLength: path.length - 1, // Subtract 1 to get number of steps
-        timeTaken: endTime - startTime,
-        isOptimal: false, // DFS does NOT guarantee optimal path
-      };
+    if (isGoal(current.position)) {
+      const path = reconstructPath(graph, nodeMap, current.position);
+      let pathCost = 0;
+      for (let i = 1; i < path.length; i++) {
+        pathCost += graph.stepCost(path[i - 1], path[i]);
+      }
+      return { found: true, path, explorationOrder, nodesExpanded, pathCost, peakMemory };
     }
 
     // Add neighbors to stack (in reverse order for consistent exploration)
-    const neighbors = getNeighbors(current.position, grid);
+    const neighbors = graph.neighbors(current.position);
     
     // Reverse to maintain consistent left-to-right, top-to-bottom exploration
     for (let i = neighbors.length - 1; i >= 0; i--) {
       const neighbor = neighbors[i];
-      const neighborKey = `${neighbor.row},${neighbor.col}`;
+      const neighborKey = graph.key(neighbor);
       
       if (!visited.has(neighborKey)) {
         stack.push({
@@ -156,15 +121,55 @@ export function executeDFS(
   }
 
   // No path found
-  const endTime = performance.now();
+  return { found: false, path: [], explorationOrder, nodesExpanded, pathCost: 0, peakMemory };
+}
+
+/**
+ * Wrap a depth-first search outcome as an algorithm result
+ */
+function buildResult<N>(outcome: GraphSearchOutcome<N>, startTime: number): AlgorithmResult<N> {
   return {
+    algorithmId: 'dfs',
     algorithmName: 'DFS',
-    found: false,
-    path: [],
-    explorationOrder,
-    nodesExpanded,
-    pathLength: 0,
-    timeTaken: endTime - startTime,
-    isOptimal: false,
+    ...outcome,
+    pathLength: outcome.found ? outcome.path.length - 1 : 0, // Subtract 1 to get number of steps
+    timeTaken: performance.now() - startTime,
+    isOptimal: false, // DFS does NOT guarantee optimal path
   };
 }
+
+/**
+ * Execute DFS algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with path and metrics
+ */
+export function executeDFS(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const outcome = searchDepthFirst(
+    createGridSearchGraph(grid, options),
+    start,
+    (pos) => pos.row === goal.row && pos.col === goal.col
+  );
+  return buildResult(outcome, startTime);
+}
+
+/**
+ * Execute DFS on a general graph
+ * @param graph - Nodes and weighted edges
+ * @param start - Starting node id
+ * @param goal - Goal node id
+ * @returns Algorithm result with the node ids of the path and metrics
+ */
+export function executeGraphDFS(graph: Graph, start: string, goal: string): AlgorithmResult<string> {
+  const startTime = performance.now();
+  const outcome = searchDepthFirst(createEdgeSearchGraph(graph), start, (id) => id === goal);
+  return buildResult(outcome, startTime);
+}
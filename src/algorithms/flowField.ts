@@ -0,0 +1,157 @@
+/**
+ * Flow Field (distance field to the goal)
+ *
+ * CHARACTERISTICS:
+ * - One reverse Dijkstra from the goal(s) over the whole grid
+ * - Every reachable cell stores its cheapest cost to the nearest goal and the
+ *   neighbor to step to next, so the optimal route from ANY cell is found by
+ *   following arrows, with no further search
+ * - The standard way to steer crowds: many agents share one field
+ *
+ * Steps cost the terrain of the cell being entered, so the reverse search
+ * charges the move u → v (not v → u) when relaxing u from a settled v.
+ * Moves are followed in reverse (getPredecessors), which cannot know which
+ * keys the walker holds, so doors stay locked. Cells carry no heading, so a
+ * turn penalty is added to a route's cost afterwards and it is not optimal.
+ *
+ * TIME COMPLEXITY: O((V + E) log V) once; each route query is O(path length)
+ * SPACE COMPLEXITY: O(V) - a distance and a direction per cell
+ */
+
+import {
+  AlgorithmResult,
+  CellType,
+  FlowField,
+  Position,
+  SearchOptions,
+} from '../types/maze.types';
+import { getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { getPredecessors } from '../utils/movement';
+import { PriorityQueue } from '../utils/priorityQueue';
+import { LOCKED_DOORS_WARNING, hasDoors, lockDoors } from '../utils/specialCells';
+import { getPathTurns } from '../utils/turns';
+
+// Reverse-search node with its cost to the nearest goal
+interface FieldNode {
+  position: Position;
+  distance: number;
+}
+
+/**
+ * Compute the distance-to-goal field and next-step directions for every cell
+ * @param grid - The maze grid
+ * @param goals - Goal positions (the field leads to the nearest one)
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Distances (Infinity if unreachable) and next steps per cell
+ */
+export function computeFlowField(
+  grid: CellType[][],
+  goals: Position[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): FlowField {
+  const startTime = performance.now();
+  const searchGrid = lockDoors(grid);
+  const rows = grid.length;
+  const cols = grid[0].length;
+
+  const distances: number[][] = Array.from({ length: rows }, () => Array(cols).fill(Infinity));
+  const next: (Position | null)[][] = Array.from({ length: rows }, () => Array(cols).fill(null));
+  const settled: boolean[][] = Array.from({ length: rows }, () => Array(cols).fill(false));
+
+  const openSet = new PriorityQueue<FieldNode>((a, b) => a.distance - b.distance);
+  for (const goal of goals) {
+    distances[goal.row][goal.col] = 0;
+    openSet.enqueue({ position: goal, distance: 0 });
+  }
+
+  let nodesExpanded = 0;
+  let maxDistance = 0;
+
+  while (!openSet.isEmpty()) {
+    const { position, distance } = openSet.dequeue()!;
+    if (settled[position.row][position.col]) continue;
+
+    settled[position.row][position.col] = true;
+    nodesExpanded++;
+    maxDistance = Math.max(maxDistance, distance);
+
+    // Relax every cell that can step onto this one
+    for (const neighbor of getPredecessors(position, searchGrid, options.movement, options.topology)) {
+      if (settled[neighbor.row][neighbor.col]) continue;
+
+      const tentative = distance + getStepCost(neighbor, position, grid, options.terrainCosts, options.topology);
+      if (tentative < distances[neighbor.row][neighbor.col]) {
+        distances[neighbor.row][neighbor.col] = tentative;
+        next[neighbor.row][neighbor.col] = position;
+        openSet.enqueue({ position: neighbor, distance: tentative });
+      }
+    }
+  }
+
+  return {
+    distances,
+    next,
+    maxDistance,
+    nodesExpanded,
+    timeTaken: performance.now() - startTime,
+  };
+}
+
+/**
+ * Read the optimal route from a cell by following the field's arrows
+ * @param field - Precomputed flow field
+ * @param grid - The maze grid the field was computed on
+ * @param from - Cell to route from
+ * @param options - Search settings the field was computed with (and the turn penalty)
+ * @returns Result for the route; no search is run, so nothing is expanded
+ */
+export function getFlowFieldRoute(
+  field: FlowField,
+  grid: CellType[][],
+  from: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const distance = field.distances[from.row]?.[from.col] ?? Infinity;
+  const found = distance < Infinity && grid[from.row][from.col] !== CellType.WALL;
+  const doorsLocked = hasDoors(grid);
+
+  const path: Position[] = [];
+  if (found) {
+    let current: Position | null = from;
+    while (current) {
+      path.push(current);
+      current = field.next[current.row][current.col];
+    }
+  }
+
+  const warnings = doorsLocked ? [LOCKED_DOORS_WARNING] : [];
+  const turns = found && options.turnPenalty > 0 ? getPathTurns(path, grid, options) : null;
+  if (turns) {
+    warnings.push(
+      `Flow Field plans without turn penalties; its ${turns.turnPoints.length} turns were added to the path cost afterwards`
+    );
+  }
+
+  return {
+    algorithmId: 'flowfield',
+    algorithmName: 'Flow Field',
+    found,
+    path,
+    explorationOrder: [],
+    nodesExpanded: 0,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost: found ? distance + (turns?.turnCost ?? 0) : 0,
+    timeTaken: performance.now() - startTime,
+    isOptimal: !doorsLocked && !turns, // Distances come from a full Dijkstra
+    warnings,
+    turns: turns?.turnPoints.length,
+    turnPoints: turns?.turnPoints,
+    preprocessing: {
+      label: 'Field',
+      nodesExpanded: field.nodesExpanded,
+      timeTaken: field.timeTaken,
+    },
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * Partially observable agent (fog of war)
+ *
+ * The agent only knows the cells within its sensing radius (a square of
+ * Chebyshev radius r around it) and the goal's location. It plans with any
+ * registered algorithm on its believed map, where every unknown cell is
+ * assumed to be free (free-space assumption), walks the plan one step at a
+ * time, and replans whenever a newly sensed cell contradicts the belief
+ * somewhere on the rest of its route. Seeing a portal also reveals its twin,
+ * so the agent knows where stepping onto it leads.
+ *
+ * The trail it walks is compared against the omniscient optimal path, found
+ * by Dijkstra on the true map. Under a turn penalty both pay for their turns.
+ */
+
+import {
+  AgentStep,
+  AlgorithmDefinition,
+  AlgorithmResult,
+  CellType,
+  MovementModel,
+  Position,
+  SearchOptions,
+  Topology,
+} from '../types/maze.types';
+import { getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { getNeighbors } from '../utils/movement';
+import { findPortalTwin, isPortal } from '../utils/specialCells';
+import { getPathTurns } from '../utils/turns';
+import { executeDijkstra } from './dijkstra';
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Check that every step of a route is still a legal move on a map
+ */
+function isRouteLegal(route: Position[], grid: CellType[][], movement: MovementModel, topology: Topology): boolean {
+  for (let i = 1; i < route.length; i++) {
+    const legal = getNeighbors(route[i - 1], grid, movement, topology).some((n) => positionsEqual(n, route[i]));
+    if (!legal) return false;
+  }
+  return true;
+}
+
+/**
+ * Walk from start to goal while sensing the maze and replanning
+ * @param algorithm - Planner used on the believed map
+ * @param grid - The true maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param sensingRadius - How many cells around itself the agent can see
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Result whose path is the walked trail, with a step-by-step timeline
+ */
+export function runFogOfWarAgent(
+  algorithm: AlgorithmDefinition,
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  sensingRadius: number,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const rows = grid.length;
+  const cols = grid[0].length;
+
+  // Free-space assumption: everything the agent has not seen is open floor
+  const believed: CellType[][] = grid.map((row) =>
+    row.map((cell) => (cell === CellType.START || cell === CellType.GOAL ? cell : CellType.FREE))
+  );
+  const known = new Set<string>();
+
+  /**
+   * Reveal the true cells around a position; returns the newly seen ones
+   * and the subset that differed from the belief
+   */
+  const sense = (position: Position) => {
+    const sensed: Position[] = [];
+    const changed: Position[] = [];
+    const reveal = (row: number, col: number) => {
+      const key = `${row},${col}`;
+      if (known.has(key)) return;
+
+      known.add(key);
+      sensed.push({ row, col });
+      if (believed[row][col] !== grid[row][col]) {
+        believed[row][col] = grid[row][col];
+        changed.push({ row, col });
+      }
+      if (isPortal(grid[row][col])) {
+        const twin = findPortalTwin(grid, { row, col });
+        if (twin) reveal(twin.row, twin.col);
+      }
+    };
+
+    // On a torus the view wraps around the edges, as moves do
+    const wraps = options.topology === Topology.TORUS;
+    for (let row = position.row - sensingRadius; row <= position.row + sensingRadius; row++) {
+      for (let col = position.col - sensingRadius; col <= position.col + sensingRadius; col++) {
+        if (wraps) {
+          reveal((row % rows + rows) % rows, (col % cols + cols) % cols);
+        } else if (row >= 0 && row < rows && col >= 0 && col < cols) {
+          reveal(row, col);
+        }
+      }
+    }
+    return { sensed, changed };
+  };
+
+  const explorationOrder: Position[] = [];
+  let nodesExpanded = 0;
+  let peakMemory = 0;
+
+  /**
+   * Plan from a position on the current belief
+   */
+  const planFrom = (position: Position): Position[] => {
+    const plan = algorithm.execute(believed.map((row) => [...row]), position, goal, options);
+    for (const cell of plan.explorationOrder) {
+      explorationOrder.push(cell);
+    }
+    nodesExpanded += plan.nodesExpanded;
+    peakMemory = Math.max(peakMemory, plan.peakMemory ?? 0);
+    return plan.found ? plan.path : [];
+  };
+
+  const initialView = sense(start);
+  let position = start;
+  let route = planFrom(start);
+  let routeIndex = 0;
+  let replans = 0;
+  let distanceTraveled = 0;
+  const trail: Position[] = [start];
+  const timeline: AgentStep[] = [{ position: start, sensed: initialView.sensed, route, replanned: false }];
+
+  // A wandering agent revisits cells, but never more often than this
+  const maxSteps = rows * cols * 4;
+
+  while (!positionsEqual(position, goal) && route.length > 0 && trail.length <= maxSteps) {
+    const next = route[routeIndex + 1];
+    distanceTraveled += getStepCost(position, next, grid, options.terrainCosts, options.topology);
+    position = next;
+    routeIndex++;
+    trail.push(position);
+
+    // Replan only when something new lies on, or blocks a diagonal of, the rest of the route
+    const { sensed, changed } = sense(position);
+    const remaining = route.slice(routeIndex);
+    // Route states may carry keys, so match them by cell alone
+    const remainingCells = new Set(remaining.map(({ row, col }) => `${row},${col}`));
+    const replanned =
+      !positionsEqual(position, goal) &&
+      changed.length > 0 &&
+      (changed.some(({ row, col }) => remainingCells.has(`${row},${col}`)) ||
+        !isRouteLegal(remaining, believed, options.movement, options.topology));
+    if (replanned) {
+      route = planFrom(position);
+      routeIndex = 0;
+      replans++;
+    }
+
+    timeline.push({ position, sensed, route: route.slice(routeIndex), replanned });
+  }
+
+  const found = positionsEqual(position, goal);
+  // Turns are charged on the walked trail, as Dijkstra charges them on the optimal path
+  const { turnPoints, turnCost } = getPathTurns(trail.map(({ row, col }) => ({ row, col })), grid, options);
+  const endTime = performance.now();
+  const optimal = executeDijkstra(grid, start, goal, options);
+
+  return {
+    algorithmId: algorithm.id,
+    algorithmName: `${algorithm.name} agent (r=${sensingRadius})`,
+    found,
+    path: trail,
+    explorationOrder,
+    nodesExpanded,
+    pathLength: trail.length - 1,
+    pathCost: distanceTraveled + turnCost,
+    timeTaken: endTime - startTime,
+    isOptimal: false, // The agent cannot see the maze, so no guarantee
+    warnings: found ? [] : ['The agent could not reach the goal with what it has sensed'],
+    peakMemory,
+    optimalCost: optimal.found ? optimal.pathCost : undefined,
+    turns: options.turnPenalty > 0 ? turnPoints.length : undefined,
+    turnPoints: options.turnPenalty > 0 ? turnPoints : undefined,
+    agentTimeline: timeline,
+    agentReplans: replans,
+    sensingRadius,
+  };
+}
+
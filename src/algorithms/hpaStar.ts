@@ -0,0 +1,374 @@
+/**
+ * HPA* (Hierarchical Path-Finding A*)
+ *
+ * CHARACTERISTICS:
+ * - Preprocessing splits the grid into square clusters and builds an abstract
+ *   graph: entrances between neighboring clusters become pairs of transition
+ *   cells, joined across the border by one step and, inside each cluster, by
+ *   the cheapest path between them (costs and paths are cached)
+ * - A query links the start and goal to the transitions of their clusters,
+ *   runs A* over the small abstract graph, then refines the abstract path by
+ *   splicing in the cached cluster paths
+ * - The abstract graph depends only on the walls and terrain, so it is built
+ *   once and reused by every query until the maze changes
+ *
+ * An entrance is every crossing between the same two regions (the cells
+ * connected inside a cluster) of two clusters; it gets one transition in its
+ * middle, or one at each end when it is wide. Since every cell of a region can
+ * reach its transitions, whatever can be reached on the grid can be reached
+ * on the abstract graph. This needs moves to be reversible, so portals,
+ * one-way cells and doors make it run plain A* instead.
+ *
+ * TIME COMPLEXITY: O(C² + A log A) per query for clusters of C cells and A abstract nodes
+ * SPACE COMPLEXITY: O(A · T) for the abstract graph with T transitions per cluster
+ *
+ * OPTIMALITY: Not guaranteed. Paths must pass through transitions, which are
+ * usually close to the optimal route (within a few percent on open maps)
+ */
+
+import {
+  AlgorithmResult,
+  CellType,
+  Position,
+  PreprocessingStats,
+  SearchGraph,
+  SearchNode,
+  SearchOptions,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { getDistanceEstimate, getNeighbors } from '../utils/movement';
+import { PriorityQueue, positionKey } from '../utils/priorityQueue';
+import { getCellCost, getMinStepCost, getPathCost, getStepCost } from '../utils/terrain';
+import { hasSpecialCells } from '../utils/specialCells';
+import { executeAStar, searchBestFirst } from './astar';
+
+// Side length of a cluster, in cells
+const CLUSTER_SIZE = 8;
+
+// Entrances with at least this many crossings get a transition at each end
+const WIDE_ENTRANCE = 6;
+
+// Abstract graph edge, with the cells it stands for
+interface AbstractEdge {
+  to: Position;
+  cost: number;
+  path: Position[];                // Cells after the edge's source, up to and including `to`
+}
+
+// Clusters, transitions and cached paths shared by every query on a maze
+interface AbstractGraph {
+  clusterSize: number;
+  clusterCount: number;
+  minStepCost: number;             // Scales the abstract search's heuristic
+  nodes: Position[];               // Transition cells
+  clusterNodes: Map<string, Position[]>; // Transition cells per cluster key
+  edges: Map<string, Map<string, AbstractEdge>>; // Outgoing edges per node key, by target key
+  preprocessing: PreprocessingStats;
+}
+
+// Dijkstra node with its cost from the source
+interface CostNode extends SearchNode {
+  g: number;
+}
+
+// The abstract graph of the last maze searched, with what it was built for
+let cachedGraph: { grid: CellType[][]; options: SearchOptions; graph: AbstractGraph } | null = null;
+
+/**
+ * Key of the cluster a cell belongs to
+ */
+function getClusterKey(pos: Position, clusterSize: number): string {
+  return `${Math.floor(pos.row / clusterSize)},${Math.floor(pos.col / clusterSize)}`;
+}
+
+/**
+ * Check if an abstract graph built for one maze applies to another: it
+ * depends on the walls, terrain costs and moves, but not on where the start
+ * and goal are (they cost the same as free cells)
+ */
+function isSameAbstraction(
+  grid: CellType[][],
+  options: SearchOptions,
+  builtGrid: CellType[][],
+  builtOptions: SearchOptions
+): boolean {
+  if (
+    options.movement !== builtOptions.movement ||
+    options.topology !== builtOptions.topology ||
+    grid.length !== builtGrid.length ||
+    grid[0].length !== builtGrid[0].length
+  ) {
+    return false;
+  }
+  return grid.every((row, r) =>
+    row.every((cell, c) =>
+      getCellCost(cell, options.terrainCosts) === getCellCost(builtGrid[r][c], builtOptions.terrainCosts)
+    )
+  );
+}
+
+/**
+ * Dijkstra from a cell that never leaves its cluster
+ * @returns Best node per reached cell, and the cells in the order they were settled
+ */
+function exploreCluster(
+  grid: CellType[][],
+  source: Position,
+  options: SearchOptions,
+  clusterSize: number
+): { nodeMap: Map<string, CostNode>; explorationOrder: Position[] } {
+  const { movement, topology, terrainCosts } = options;
+  const cluster = getClusterKey(source, clusterSize);
+  const openSet = new PriorityQueue<CostNode>((a, b) => a.g - b.g);
+  const nodeMap = new Map<string, CostNode>([[positionKey(source), { position: source, parent: null, g: 0 }]]);
+  const closedSet = new Set<string>();
+  const explorationOrder: Position[] = [];
+  openSet.enqueue(nodeMap.get(positionKey(source))!);
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.dequeue()!;
+    const key = positionKey(current.position);
+    if (closedSet.has(key)) continue;
+    closedSet.add(key);
+    explorationOrder.push(current.position);
+
+    for (const neighbor of getNeighbors(current.position, grid, movement, topology)) {
+      const neighborKey = positionKey(neighbor);
+      if (closedSet.has(neighborKey) || getClusterKey(neighbor, clusterSize) !== cluster) continue;
+
+      const g = current.g + getStepCost(current.position, neighbor, grid, terrainCosts, topology);
+      const existing = nodeMap.get(neighborKey);
+      if (!existing) {
+        const node: CostNode = { position: neighbor, parent: current.position, g };
+        openSet.enqueue(node);
+        nodeMap.set(neighborKey, node);
+      } else if (g < existing.g) {
+        existing.g = g;
+        existing.parent = current.position;
+        openSet.update(existing);
+      }
+    }
+  }
+
+  return { nodeMap, explorationOrder };
+}
+
+/**
+ * Cells from just after the source up to a reached cell, following parent pointers
+ */
+function getClusterPath(nodeMap: Map<string, CostNode>, to: Position): Position[] {
+  const path: Position[] = [];
+  for (let node = nodeMap.get(positionKey(to)); node?.parent; node = nodeMap.get(positionKey(node.parent))) {
+    path.push(node.position);
+  }
+  return path.reverse();
+}
+
+/**
+ * Build the abstract graph of a maze: clusters, entrances and cached intra-cluster paths
+ */
+function buildAbstractGraph(grid: CellType[][], options: SearchOptions, clusterSize: number): AbstractGraph {
+  const startTime = performance.now();
+  const { movement, topology, terrainCosts } = options;
+  const rows = grid.length;
+  const cols = grid[0].length;
+  let nodesExpanded = 0;
+
+  // Regions: cells connected without leaving their cluster
+  const regions: number[][] = grid.map((row) => row.map(() => -1));
+  let regionCount = 0;
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (grid[row][col] === CellType.WALL || regions[row][col] !== -1) continue;
+      const { explorationOrder } = exploreCluster(grid, { row, col }, options, clusterSize);
+      explorationOrder.forEach((cell) => (regions[cell.row][cell.col] = regionCount));
+      nodesExpanded += explorationOrder.length;
+      regionCount++;
+    }
+  }
+
+  // Entrances: crossings into another cluster, grouped by the pair of regions they join
+  const entrances = new Map<string, [Position, Position][]>();
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      if (grid[row][col] === CellType.WALL) continue;
+      const from = { row, col };
+      for (const to of getNeighbors(from, grid, movement, topology)) {
+        // Moves are reversible, so each crossing is taken from its lower region only
+        const [fromRegion, toRegion] = [regions[row][col], regions[to.row][to.col]];
+        if (getClusterKey(to, clusterSize) === getClusterKey(from, clusterSize) || fromRegion >= toRegion) continue;
+        const key = `${fromRegion}-${toRegion}`;
+        if (!entrances.has(key)) entrances.set(key, []);
+        entrances.get(key)!.push([from, to]);
+      }
+    }
+  }
+
+  const nodes = new Map<string, Position>();
+  const edges = new Map<string, Map<string, AbstractEdge>>();
+  const addEdge = (from: Position, edge: AbstractEdge) => {
+    const key = positionKey(from);
+    if (!edges.has(key)) edges.set(key, new Map());
+    const outgoing = edges.get(key)!;
+    if (!outgoing.has(positionKey(edge.to))) outgoing.set(positionKey(edge.to), edge);
+  };
+
+  for (const crossings of entrances.values()) {
+    const picked = crossings.length >= WIDE_ENTRANCE
+      ? [crossings[0], crossings[crossings.length - 1]]
+      : [crossings[Math.floor(crossings.length / 2)]];
+    for (const [a, b] of picked) {
+      nodes.set(positionKey(a), a);
+      nodes.set(positionKey(b), b);
+      addEdge(a, { to: b, cost: getStepCost(a, b, grid, terrainCosts, topology), path: [b] });
+      addEdge(b, { to: a, cost: getStepCost(b, a, grid, terrainCosts, topology), path: [a] });
+    }
+  }
+
+  const clusterNodes = new Map<string, Position[]>();
+  for (const node of nodes.values()) {
+    const cluster = getClusterKey(node, clusterSize);
+    if (!clusterNodes.has(cluster)) clusterNodes.set(cluster, []);
+    clusterNodes.get(cluster)!.push(node);
+  }
+
+  // Intra-cluster edges: one Dijkstra per transition reaches the others in its cluster
+  for (const node of nodes.values()) {
+    const { nodeMap, explorationOrder } = exploreCluster(grid, node, options, clusterSize);
+    nodesExpanded += explorationOrder.length;
+    for (const other of clusterNodes.get(getClusterKey(node, clusterSize))!) {
+      const reached = nodeMap.get(positionKey(other));
+      if (other === node || !reached) continue;
+      addEdge(node, { to: other, cost: reached.g, path: getClusterPath(nodeMap, other) });
+    }
+  }
+
+  return {
+    clusterSize,
+    clusterCount: Math.ceil(rows / clusterSize) * Math.ceil(cols / clusterSize),
+    minStepCost: getMinStepCost(grid, terrainCosts),
+    nodes: Array.from(nodes.values()),
+    clusterNodes,
+    edges,
+    preprocessing: { label: 'Abstract Graph', nodesExpanded, timeTaken: performance.now() - startTime },
+  };
+}
+
+/**
+ * Get the abstract graph for a maze, building it unless the last one still applies
+ */
+function getAbstractGraph(grid: CellType[][], options: SearchOptions): AbstractGraph {
+  if (cachedGraph && isSameAbstraction(grid, options, cachedGraph.grid, cachedGraph.options)) {
+    return { ...cachedGraph.graph, preprocessing: { ...cachedGraph.graph.preprocessing, reused: true } };
+  }
+  const graph = buildAbstractGraph(grid, options, CLUSTER_SIZE);
+  cachedGraph = { grid, options, graph };
+  return graph;
+}
+
+/**
+ * Execute HPA*
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with the refined path, query-only metrics and the
+ *          preprocessing cost reported separately
+ */
+export function executeHPAStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  if (hasSpecialCells(grid)) {
+    const result = executeAStar(grid, start, goal, options);
+    return {
+      ...result,
+      algorithmId: 'hpastar',
+      algorithmName: 'HPA*',
+      warnings: ['HPA* needs every move to be reversible, without portals, one-way cells or doors; ran A* instead', ...(result.warnings ?? [])],
+    };
+  }
+
+  const abstractGraph = getAbstractGraph(grid, options);
+  const startTime = performance.now();
+  const { clusterSize } = abstractGraph;
+  const explorationOrder: Position[] = [];
+
+  // Link the start and goal to the transitions of their clusters (and to each
+  // other if they share one); edges to the goal are the reversed paths from it
+  const queryEdges = new Map<string, Map<string, AbstractEdge>>();
+  const addQueryEdge = (from: Position, edge: AbstractEdge) => {
+    const key = positionKey(from);
+    if (!queryEdges.has(key)) queryEdges.set(key, new Map());
+    queryEdges.get(key)!.set(positionKey(edge.to), edge);
+  };
+  const getTransitions = (pos: Position) => abstractGraph.clusterNodes.get(getClusterKey(pos, clusterSize)) ?? [];
+
+  const fromStart = exploreCluster(grid, start, options, clusterSize);
+  explorationOrder.push(...fromStart.explorationOrder);
+  for (const to of [...getTransitions(start), goal]) {
+    const reached = fromStart.nodeMap.get(positionKey(to));
+    if (reached) addQueryEdge(start, { to, cost: reached.g, path: getClusterPath(fromStart.nodeMap, to) });
+  }
+  const fromGoal = exploreCluster(grid, goal, options, clusterSize);
+  explorationOrder.push(...fromGoal.explorationOrder);
+  for (const node of getTransitions(goal)) {
+    if (positionKey(node) === positionKey(goal) || !fromGoal.nodeMap.has(positionKey(node))) continue;
+    const path = [...getClusterPath(fromGoal.nodeMap, node).reverse().slice(1), goal];
+    addQueryEdge(node, {
+      to: goal,
+      cost: getPathCost([node, ...path], grid, options.terrainCosts, options.topology),
+      path,
+    });
+  }
+
+  const getEdges = (pos: Position) => [
+    ...(abstractGraph.edges.get(positionKey(pos))?.values() ?? []),
+    ...(queryEdges.get(positionKey(pos))?.values() ?? []),
+  ];
+  const getEdge = (from: Position, to: Position) =>
+    queryEdges.get(positionKey(from))?.get(positionKey(to)) ?? abstractGraph.edges.get(positionKey(from))!.get(positionKey(to))!;
+  const search: SearchGraph<Position> = {
+    key: positionKey,
+    neighbors: (pos) => getEdges(pos).map(({ to }) => to),
+    stepCost: (from, to) => getEdge(from, to).cost,
+  };
+
+  const { minStepCost } = abstractGraph;
+  const distance = getDistanceEstimate(grid, options.heuristic, options.topology);
+  const outcome = searchBestFirst(
+    search,
+    [start],
+    (pos) => pos.row === goal.row && pos.col === goal.col,
+    (pos) => distance(pos, goal) * minStepCost,
+    { g: 1, h: 1 }
+  );
+  explorationOrder.push(...outcome.explorationOrder);
+
+  // Refine: splice in the cells each abstract edge stands for
+  const path = outcome.found ? [start] : [];
+  for (let i = 1; i < outcome.path.length; i++) {
+    path.push(...getEdge(outcome.path[i - 1], outcome.path[i]).path);
+  }
+
+  return {
+    algorithmId: 'hpastar',
+    algorithmName: 'HPA*',
+    found: outcome.found,
+    path,
+    explorationOrder,
+    nodesExpanded: explorationOrder.length,
+    pathLength: outcome.found ? path.length - 1 : 0,
+    pathCost: outcome.pathCost,
+    timeTaken: performance.now() - startTime,
+    isOptimal: false,
+    peakMemory: outcome.peakMemory,
+    preprocessing: abstractGraph.preprocessing,
+    clusterSize,
+    clusterCount: abstractGraph.clusterCount,
+    abstractNodes: abstractGraph.nodes,
+    abstractPath: outcome.path,
+  };
+}
@@ -0,0 +1,180 @@
+/**
+ * Iterative Deepening A* (IDA*)
+ * 
+ * CHARACTERISTICS:
+ * - Depth-first search bounded by f(n) = g(n) + h(n) instead of depth
+ * - First bound is h(start); each iteration raises the bound to the smallest
+ *   f-value that exceeded it
+ * - No open set: only the current path (plus a per-iteration table of the
+ *   cheapest g seen for each cell, which prunes the many alternative routes
+ *   a grid offers to the same cell)
+ * - Re-expands cells in every iteration, trading time for memory
+ * 
+ * TIME COMPLEXITY: O(b^d) in the worst case; one pass per distinct f-bound
+ * SPACE COMPLEXITY: O(d) stack plus the per-iteration g table
+ * 
+ * OPTIMALITY: Guaranteed with an admissible heuristic
+ */
+
+import { CellType, Position, AlgorithmResult, SearchOptions } from '../types/maze.types';
+import { getMinStepCost, getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import {
+  getNeighbors,
+  describeMovement,
+  getDistanceEstimate,
+  isHeuristicAdmissible,
+  HEURISTIC_LABELS,
+} from '../utils/movement';
+import { positionKey } from '../utils/priorityQueue';
+import { withPortalShortcuts } from '../utils/specialCells';
+import { executeAStar } from './astar';
+import { getBaselineStats } from './baseline';
+
+// Tolerance for comparing floating-point f-values against the bound
+const EPSILON = 1e-9;
+
+// One level of the explicit DFS stack
+interface Frame {
+  position: Position;
+  g: number;
+  children: Position[];
+  nextChild: number;
+}
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Execute IDA* algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with path, metrics and per-iteration exploration
+ */
+export function executeIDAStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const { terrainCosts, heuristic, movement, topology } = options;
+
+  const minStepCost = getMinStepCost(grid, terrainCosts);
+  const distance = withPortalShortcuts(grid, getDistanceEstimate(grid, heuristic, topology));
+  const estimate = (pos: Position) => distance(pos, goal) * minStepCost;
+
+  const isOptimal = isHeuristicAdmissible(heuristic, movement, topology);
+  const warnings = isOptimal
+    ? []
+    : [`${HEURISTIC_LABELS[heuristic]} heuristic overestimates with ${describeMovement(movement, topology)} movement; path may be sub-optimal`];
+
+  // Track exploration order across all iterations
+  const explorationOrder: Position[] = [];
+  const iterationStarts: number[] = [];
+  const iterationBounds: number[] = [];
+
+  // Metrics only: which cells have ever been expanded (to count re-expansions)
+  const everExpanded = new Set<string>();
+
+  let nodesExpanded = 0;
+  let reExpansions = 0;
+  let peakMemory = 0;
+  let path: Position[] = [];
+  let pathCost = 0;
+  let bound = estimate(start);
+
+  while (bound < Infinity) {
+    iterationStarts.push(explorationOrder.length);
+    iterationBounds.push(bound);
+
+    // Cheapest g each cell was reached with in this iteration
+    const bestG = new Map<string, number>();
+    // Smallest f-value that exceeded the bound (next iteration's bound)
+    let nextBound = Infinity;
+
+    const expand = (pos: Position, g: number): Position[] => {
+      const key = positionKey(pos);
+      bestG.set(key, g);
+      explorationOrder.push(pos);
+      nodesExpanded++;
+      if (everExpanded.has(key)) {
+        reExpansions++;
+      } else {
+        everExpanded.add(key);
+      }
+      return getNeighbors(pos, grid, movement, topology);
+    };
+
+    // f-bounded DFS with an explicit stack (the current path)
+    const stack: Frame[] = [{ position: start, g: 0, children: expand(start, 0), nextChild: 0 }];
+    if (positionsEqual(start, goal)) {
+      path = [start];
+    }
+
+    while (path.length === 0 && stack.length > 0) {
+      peakMemory = Math.max(peakMemory, stack.length + bestG.size);
+      const top = stack[stack.length - 1];
+
+      if (top.nextChild >= top.children.length) {
+        stack.pop();
+        continue;
+      }
+
+      const child = top.children[top.nextChild++];
+      const g = top.g + getStepCost(top.position, child, grid, terrainCosts, topology);
+
+      // Already reached at least as cheaply in this iteration (also prevents cycles)
+      const known = bestG.get(positionKey(child));
+      if (known !== undefined && known <= g + EPSILON) continue;
+
+      const f = g + estimate(child);
+      if (f > bound + EPSILON) {
+        nextBound = Math.min(nextBound, f);
+        continue;
+      }
+
+      const children = expand(child, g);
+      if (positionsEqual(child, goal)) {
+        path = [...stack.map((frame) => frame.position), child];
+        pathCost = g;
+        break;
+      }
+
+      stack.push({ position: child, g, children, nextChild: 0 });
+    }
+
+    if (path.length > 0) break;
+    bound = nextBound;
+  }
+
+  const endTime = performance.now();
+  const found = path.length > 0;
+
+  return {
+    algorithmId: 'idastar',
+    algorithmName: 'IDA*',
+    found,
+    path,
+    explorationOrder,
+    nodesExpanded,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost,
+    timeTaken: endTime - startTime,
+    isOptimal,
+    warnings,
+    peakMemory,
+    baseline: getBaselineStats(executeAStar(grid, start, goal, { ...options, heuristicWeight: 1 })),
+    iterations: iterationStarts.length,
+    reExpansions,
+    iterationStarts,
+    iterationBounds,
+    iterationBoundLabel: 'f-bound',
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Iterative Deepening Depth-First Search (IDDFS)
+ * 
+ * CHARACTERISTICS:
+ * - Runs depth-limited DFS with limit 0, 1, 2, ... until the goal is found
+ * - Re-expands shallow cells in every iteration, trading time for memory
+ * - Grids are full of alternative routes to the same cell, so plain
+ *   path-checking IDDFS would revisit exponentially many paths. Each iteration
+ *   therefore remembers the shallowest depth it reached every cell at and
+ *   prunes deeper revisits; that table is discarded between iterations.
+ * - Finds the shallowest goal, like BFS
+ * 
+ * TIME COMPLEXITY: O(V · d) expansions over all iterations (with repeats)
+ * SPACE COMPLEXITY: O(d) stack plus the per-iteration depth table
+ * 
+ * OPTIMALITY: Finds the path with fewest steps, which is the cheapest path
+ * only when every step costs the same (like BFS)
+ */
+
+import { CellType, Position, AlgorithmResult, SearchOptions } from '../types/maze.types';
+import { getPathCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS, hasUniformStepCost } from '../utils/searchOptions';
+import { getNeighbors } from '../utils/movement';
+import { positionKey } from '../utils/priorityQueue';
+import { executeBFS } from './bfs';
+import { getBaselineStats } from './baseline';
+
+// One level of the explicit DFS stack
+interface Frame {
+  position: Position;
+  children: Position[];
+  nextChild: number;
+}
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Execute IDDFS algorithm
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with path, metrics and per-iteration exploration
+ */
+export function executeIDDFS(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+
+  // Track exploration order across all iterations
+  const explorationOrder: Position[] = [];
+  const iterationStarts: number[] = [];
+  const iterationBounds: number[] = [];
+
+  // Metrics only: which cells have ever been expanded (to count re-expansions)
+  const everExpanded = new Set<string>();
+
+  let nodesExpanded = 0;
+  let reExpansions = 0;
+  let peakMemory = 0;
+  let path: Position[] = [];
+
+  for (let limit = 0; ; limit++) {
+    iterationStarts.push(explorationOrder.length);
+    iterationBounds.push(limit);
+
+    // Shallowest depth each cell was reached at in this iteration
+    const bestDepth = new Map<string, number>();
+    // Whether any branch was cut off by the limit (a deeper iteration could help)
+    let cutOff = false;
+
+    const expand = (pos: Position, depth: number): Position[] => {
+      const key = positionKey(pos);
+      bestDepth.set(key, depth);
+      explorationOrder.push(pos);
+      nodesExpanded++;
+      if (everExpanded.has(key)) {
+        reExpansions++;
+      } else {
+        everExpanded.add(key);
+      }
+
+      const children = getNeighbors(pos, grid, options.movement, options.topology).filter((n) => {
+        const known = bestDepth.get(positionKey(n));
+        return known === undefined || known > depth + 1;
+      });
+      if (depth >= limit) {
+        if (children.length > 0) cutOff = true;
+        return [];
+      }
+      return children;
+    };
+
+    // Depth-limited DFS with an explicit stack (the current path)
+    const stack: Frame[] = [{ position: start, children: expand(start, 0), nextChild: 0 }];
+    if (positionsEqual(start, goal)) {
+      path = [start];
+    }
+
+    while (path.length === 0 && stack.length > 0) {
+      peakMemory = Math.max(peakMemory, stack.length + bestDepth.size);
+      const top = stack[stack.length - 1];
+
+      if (top.nextChild >= top.children.length) {
+        stack.pop();
+        continue;
+      }
+
+      const child = top.children[top.nextChild++];
+      const depth = stack.length;
+
+      // A shallower route to this cell was found since it was queued as a child
+      const known = bestDepth.get(positionKey(child));
+      if (known !== undefined && known <= depth) continue;
+
+      const children = expand(child, depth);
+      if (positionsEqual(child, goal)) {
+        path = [...stack.map((frame) => frame.position), child];
+        break;
+      }
+
+      stack.push({ position: child, children, nextChild: 0 });
+    }
+
+    // Stop when found, or when no branch reached the limit (deeper cannot help)
+    if (path.length > 0 || !cutOff) {
+      break;
+    }
+  }
+
+  const endTime = performance.now();
+  const found = path.length > 0;
+
+  return {
+    algorithmId: 'iddfs',
+    algorithmName: 'IDDFS',
+    found,
+    path,
+    explorationOrder,
+    nodesExpanded,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost: found ? getPathCost(path, grid, options.terrainCosts, options.topology) : 0,
+    timeTaken: endTime - startTime,
+    isOptimal: hasUniformStepCost(grid, options),
+    peakMemory,
+    baseline: getBaselineStats(executeBFS(grid, start, goal, options)),
+    iterations: iterationStarts.length,
+    reExpansions,
+    iterationStarts,
+    iterationBounds,
+    iterationBoundLabel: 'Depth limit',
+  };
+}
@@ -0,0 +1,176 @@
+/**
+ * Built-in algorithm registrations
+ *
+ * Importing this module registers every bundled algorithm. To add a new
+ * search, implement an executor and register it here.
+ */
+
+import { registerAlgorithm } from './registry';
+import { executeDFS, executeGraphDFS } from './dfs';
+import { executeBFS, executeGraphBFS, executeMultiBFS } from './bfs';
+import { executeDijkstra, executeMultiDijkstra } from './dijkstra';
+import { executeAStar, executeGraphAStar, executeMultiAStar, executeGreedyBestFirst } from './astar';
+import { executeBidirectionalBFS } from './bidirectionalBfs';
+import { executeBidirectionalAStar } from './bidirectionalAStar';
+import { executeJPS } from './jps';
+import { executeThetaStar } from './thetaStar';
+import { executeHPAStar } from './hpaStar';
+import { executeIDDFS } from './iddfs';
+import { executeIDAStar } from './idastar';
+import { executeLPAStar, createLPAStarPlanner } from './lpaStar';
+
+registerAlgorithm({
+  id: 'dfs',
+  name: 'DFS',
+  color: '#f97316',
+  icon: '🔴',
+  isOptimal: false,
+  usesTerrainCosts: false,
+  execute: executeDFS,
+  executeGraph: executeGraphDFS,
+});
+
+registerAlgorithm({
+  id: 'bfs',
+  name: 'BFS',
+  color: '#3b82f6',
+  icon: '🔵',
+  isOptimal: true,
+  usesTerrainCosts: false,
+  execute: executeBFS,
+  executeMulti: executeMultiBFS,
+  executeGraph: executeGraphBFS,
+});
+
+registerAlgorithm({
+  id: 'dijkstra',
+  name: 'Dijkstra',
+  color: '#a855f7',
+  icon: '🟣',
+  isOptimal: true,
+  usesTerrainCosts: true,
+  usesTurnPenalty: true,
+  execute: executeDijkstra,
+  executeMulti: executeMultiDijkstra,
+});
+
+registerAlgorithm({
+  id: 'astar',
+  name: 'A*',
+  color: '#22c55e',
+  icon: '🟢',
+  isOptimal: true,
+  usesTerrainCosts: true,
+  usesTurnPenalty: true,
+  execute: executeAStar,
+  executeMulti: executeMultiAStar,
+  executeGraph: executeGraphAStar,
+});
+
+registerAlgorithm({
+  id: 'greedy',
+  name: 'Greedy',
+  color: '#d946ef',
+  icon: '⚡',
+  isOptimal: false,
+  usesTerrainCosts: false,
+  execute: executeGreedyBestFirst,
+});
+
+registerAlgorithm({
+  id: 'bibfs',
+  name: 'Bi-BFS',
+  color: '#06b6d4',
+  icon: '🔷',
+  isOptimal: true,
+  usesTerrainCosts: false,
+  execute: executeBidirectionalBFS,
+});
+
+registerAlgorithm({
+  id: 'biastar',
+  name: 'Bi-A*',
+  color: '#84cc16',
+  icon: '❇️',
+  isOptimal: true,
+  usesTerrainCosts: true,
+  execute: executeBidirectionalAStar,
+});
+
+registerAlgorithm({
+  id: 'jps',
+  name: 'JPS',
+  color: '#eab308',
+  icon: '🟡',
+  isOptimal: true,
+  usesTerrainCosts: false,
+  usesTurnPenalty: true, // Turn penalties make it fall back to A*
+  execute: executeJPS,
+});
+
+registerAlgorithm({
+  id: 'thetastar',
+  name: 'Theta*',
+  color: '#6366f1',
+  icon: '📐',
+  isOptimal: false,
+  usesTerrainCosts: true,
+  usesTurnPenalty: true, // Turn penalties make it fall back to A*
+  execute: executeThetaStar,
+});
+
+registerAlgorithm({
+  id: 'hpastar',
+  name: 'HPA*',
+  color: '#f472b6',
+  icon: '🗺️',
+  isOptimal: false,
+  usesTerrainCosts: true,
+  execute: executeHPAStar,
+});
+
+registerAlgorithm({
+  id: 'iddfs',
+  name: 'IDDFS',
+  color: '#f43f5e',
+  icon: '🔻',
+  isOptimal: true,
+  usesTerrainCosts: false,
+  excludeFromComparison: true,
+  execute: executeIDDFS,
+});
+
+registerAlgorithm({
+  id: 'idastar',
+  name: 'IDA*',
+  color: '#10b981',
+  icon: '💠',
+  isOptimal: true,
+  usesTerrainCosts: true,
+  excludeFromComparison: true,
+  execute: executeIDAStar,
+});
+
+registerAlgorithm({
+  id: 'lpastar',
+  name: 'LPA*',
+  color: '#0ea5e9',
+  icon: '♻️',
+  isOptimal: true,
+  usesTerrainCosts: true,
+  execute: executeLPAStar,
+  createPlanner: createLPAStarPlanner,
+});
+
+export { registerAlgorithm, getAlgorithm, getAlgorithms, getAlgorithmColor } from './registry';
+export { executeAlgorithm } from './multiTarget';
+export { computeFlowField, getFlowFieldRoute } from './flowField';
+export { runFogOfWarAgent } from './fogOfWarAgent';
+export { routeThroughWaypoints, MAX_WAYPOINTS, WAYPOINT_ORDER_LABELS } from './waypointRouting';
+export { runConflictBasedSearch, MAX_MAPF_AGENTS, MAPF_AGENT_COLORS } from './cbs';
+export {
+  planAroundMovingObstacles,
+  getObstacleCell,
+  getObstacleRouteSegment,
+  MAX_MOVING_OBSTACLES,
+} from './movingObstacles';
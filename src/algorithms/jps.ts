@@ -0,0 +1,384 @@
+/**
+ * Jump Point Search (JPS)
+ * 
+ * CHARACTERISTICS:
+ * - A* over "jump points" instead of every cell
+ * - From each expanded node, only the natural and forced neighbors are
+ *   followed (symmetric alternatives are pruned)
+ * - Each direction is scanned in a straight line until a jump point is found:
+ *   the goal, or a cell with a forced neighbor (an obstacle opens a new route)
+ * - Scanned cells are never pushed to the open set, so open maps need only a
+ *   handful of expansions
+ * - Supports 4-way, 8-way and 8-way-without-corner-cutting movement
+ * 
+ * TIME COMPLEXITY: O(b^d) in the worst case, far fewer expansions than A* on open grids
+ * SPACE COMPLEXITY: O(jump points) - only jump points are stored
+ * 
+ * OPTIMALITY: Guaranteed on uniform-cost grids with an admissible heuristic.
+ * Pruning assumes every step of the same kind costs the same, so terrain
+ * costs are counted in the result but may make the path sub-optimal.
+ * Portals, one-way cells, doors, non-square topologies and turn penalties
+ * break the symmetry pruning relies on, so those searches run plain A* instead.
+ */
+
+import {
+  CellType,
+  Position,
+  AlgorithmResult,
+  AStarNode,
+  MovementModel,
+  SearchOptions,
+  Topology,
+} from '../types/maze.types';
+import { getMinStepCost, getStepCost, hasWeightedTerrain } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import {
+  getNeighbors,
+  describeMovement,
+  heuristicDistance,
+  isHeuristicAdmissible,
+  HEURISTIC_LABELS,
+} from '../utils/movement';
+import { PriorityQueue, compareAStarNodes } from '../utils/priorityQueue';
+import { hasSpecialCells } from '../utils/specialCells';
+import { executeAStar } from './astar';
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * Cells on the straight or diagonal line from one jump point to the next
+ * (excluding the first, including the last)
+ */
+function interpolate(from: Position, to: Position): Position[] {
+  const dRow = Math.sign(to.row - from.row);
+  const dCol = Math.sign(to.col - from.col);
+  const cells: Position[] = [];
+  let row = from.row;
+  let col = from.col;
+
+  while (row !== to.row || col !== to.col) {
+    row += dRow;
+    col += dCol;
+    cells.push({ row, col });
+  }
+
+  return cells;
+}
+
+/**
+ * Reconstruct the cell-by-cell path from start to goal through the jump points
+ */
+function reconstructPath(
+  nodeMap: Map<string, AStarNode>,
+  goal: Position
+): Position[] {
+  const jumpPoints: Position[] = [];
+  let current: Position | null = goal;
+
+  while (current !== null) {
+    jumpPoints.push(current);
+    const key = `${current.row},${current.col}`;
+    const node = nodeMap.get(key);
+    current = node?.parent || null;
+  }
+
+  jumpPoints.reverse();
+  const path: Position[] = [jumpPoints[0]];
+  for (let i = 1; i < jumpPoints.length; i++) {
+    path.push(...interpolate(jumpPoints[i - 1], jumpPoints[i]));
+  }
+  return path;
+}
+
+/**
+ * Execute Jump Point Search
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with path, expanded jump points and scanned cells
+ */
+export function executeJPS(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const fallback = options.topology !== Topology.SQUARE
+    ? 'Jump Point Search only prunes plain square grids (no hex or wrap-around); ran A* instead'
+    : hasSpecialCells(grid)
+      ? 'Jump Point Search cannot prune around portals, one-way cells or doors; ran A* instead'
+      : options.turnPenalty > 0
+        ? 'Jump Point Search cannot prune paths that differ only in their turns; ran A* instead'
+        : null;
+  if (fallback) {
+    const result = executeAStar(grid, start, goal, options);
+    return {
+      ...result,
+      algorithmId: 'jps',
+      algorithmName: 'JPS',
+      warnings: [fallback, ...(result.warnings ?? [])],
+    };
+  }
+
+  const startTime = performance.now();
+  const { terrainCosts, heuristic, movement, topology } = options;
+
+  const minStepCost = getMinStepCost(grid, terrainCosts);
+  const estimate = (pos: Position) => heuristicDistance(heuristic, pos, goal) * minStepCost;
+
+  const admissible = isHeuristicAdmissible(heuristic, movement, topology);
+  const weighted = hasWeightedTerrain(grid, terrainCosts);
+  const warnings: string[] = [];
+  if (!admissible) {
+    warnings.push(`${HEURISTIC_LABELS[heuristic]} heuristic overestimates with ${describeMovement(movement, topology)} movement; path may be sub-optimal`);
+  }
+  if (weighted) {
+    warnings.push('Jump Point Search assumes uniform step costs; terrain is ignored while pruning, so the path may be sub-optimal');
+  }
+
+  const walkable = (row: number, col: number): boolean =>
+    row >= 0 &&
+    row < grid.length &&
+    col >= 0 &&
+    col < grid[0].length &&
+    grid[row][col] !== CellType.WALL;
+
+  // Cells visited by jump scans during the current expansion
+  let scanned: Position[] = [];
+
+  /**
+   * Check if a cell reached by moving (dRow, dCol) has a forced neighbor
+   */
+  const hasForcedNeighbor = (row: number, col: number, dRow: number, dCol: number): boolean => {
+    const diagonal = dRow !== 0 && dCol !== 0;
+
+    switch (movement) {
+      case MovementModel.EIGHT_WAY:
+        if (diagonal) {
+          return (walkable(row + dRow, col - dCol) && !walkable(row, col - dCol)) ||
+            (walkable(row - dRow, col + dCol) && !walkable(row - dRow, col));
+        }
+        if (dCol !== 0) {
+          return (walkable(row + 1, col + dCol) && !walkable(row + 1, col)) ||
+            (walkable(row - 1, col + dCol) && !walkable(row - 1, col));
+        }
+        return (walkable(row + dRow, col + 1) && !walkable(row, col + 1)) ||
+          (walkable(row + dRow, col - 1) && !walkable(row, col - 1));
+
+      case MovementModel.EIGHT_WAY_NO_CORNER_CUT:
+      case MovementModel.FOUR_WAY:
+      default:
+        // Diagonal scans without corner cutting only stop via their straight sub-scans
+        if (diagonal) return false;
+        if (dCol !== 0) {
+          return (walkable(row - 1, col) && !walkable(row - 1, col - dCol)) ||
+            (walkable(row + 1, col) && !walkable(row + 1, col - dCol));
+        }
+        return (walkable(row, col - 1) && !walkable(row - dRow, col - 1)) ||
+          (walkable(row, col + 1) && !walkable(row - dRow, col + 1));
+    }
+  };
+
+  /**
+   * Scan from a cell in direction (dRow, dCol) until a jump point or dead end
+   */
+  const jump = (row: number, col: number, dRow: number, dCol: number): Position | null => {
+    for (;;) {
+      if (!walkable(row, col)) return null;
+      scanned.push({ row, col });
+
+      if (row === goal.row && col === goal.col) return { row, col };
+      if (hasForcedNeighbor(row, col, dRow, dCol)) return { row, col };
+
+      // Diagonal scans stop where a straight scan would find a jump point
+      if (dRow !== 0 && dCol !== 0) {
+        if (jump(row, col + dCol, 0, dCol) || jump(row + dRow, col, dRow, 0)) {
+          return { row, col };
+        }
+      }
+
+      // Without diagonals, vertical scans stop where a horizontal scan would
+      if (movement === MovementModel.FOUR_WAY && dRow !== 0) {
+        if (jump(row, col + 1, 0, 1) || jump(row, col - 1, 0, -1)) {
+          return { row, col };
+        }
+      }
+
+      // Diagonal steps follow the same corner rules as getNeighbors
+      if (dRow !== 0 && dCol !== 0) {
+        const verticalOpen = walkable(row + dRow, col);
+        const horizontalOpen = walkable(row, col + dCol);
+        const canStep = movement === MovementModel.EIGHT_WAY
+          ? verticalOpen || horizontalOpen
+          : verticalOpen && horizontalOpen;
+        if (!canStep) return null;
+      }
+
+      row += dRow;
+      col += dCol;
+    }
+  };
+
+  /**
+   * Natural and forced neighbors of a node given the direction it was reached from
+   */
+  const getPrunedNeighbors = (node: AStarNode): Position[] => {
+    const { row, col } = node.position;
+    const legal = getNeighbors(node.position, grid, movement, topology);
+    if (!node.parent) return legal;
+
+    const dRow = Math.sign(row - node.parent.row);
+    const dCol = Math.sign(col - node.parent.col);
+    const candidates: Position[] = [];
+    const add = (r: number, c: number) => candidates.push({ row: r, col: c });
+
+    if (movement === MovementModel.FOUR_WAY) {
+      if (dCol !== 0) {
+        add(row - 1, col);
+        add(row + 1, col);
+        add(row, col + dCol);
+      } else {
+        add(row, col - 1);
+        add(row, col + 1);
+        add(row + dRow, col);
+      }
+    } else if (dRow !== 0 && dCol !== 0) {
+      // Natural diagonal neighbors
+      add(row + dRow, col);
+      add(row, col + dCol);
+      add(row + dRow, col + dCol);
+      if (movement === MovementModel.EIGHT_WAY) {
+        // Forced neighbors around cut corners
+        if (!walkable(row, col - dCol)) add(row + dRow, col - dCol);
+        if (!walkable(row - dRow, col)) add(row - dRow, col + dCol);
+      }
+    } else if (movement === MovementModel.EIGHT_WAY) {
+      // Straight move: natural neighbor plus diagonals past blocked sides
+      if (dCol !== 0) {
+        add(row, col + dCol);
+        if (!walkable(row + 1, col)) add(row + 1, col + dCol);
+        if (!walkable(row - 1, col)) add(row - 1, col + dCol);
+      } else {
+        add(row + dRow, col);
+        if (!walkable(row, col + 1)) add(row + dRow, col + 1);
+        if (!walkable(row, col - 1)) add(row + dRow, col - 1);
+      }
+    } else {
+      // Straight move without corner cutting: forced turns open up beside the wall
+      if (dCol !== 0) {
+        add(row, col + dCol);
+        add(row + 1, col + dCol);
+        add(row - 1, col + dCol);
+        add(row + 1, col);
+        add(row - 1, col);
+      } else {
+        add(row + dRow, col);
+        add(row + dRow, col + 1);
+        add(row + dRow, col - 1);
+        add(row, col + 1);
+        add(row, col - 1);
+      }
+    }
+
+    // Keep only moves the movement model allows
+    return candidates.filter((c) => legal.some((n) => positionsEqual(n, c)));
+  };
+
+  const openSet = new PriorityQueue<AStarNode>(compareAStarNodes);
+  const closedSet = new Set<string>();
+  const nodeMap = new Map<string, AStarNode>();
+
+  // Expanded jump points, and the cells scanned while expanding each one
+  const explorationOrder: Position[] = [];
+  const scannedCells: Position[][] = [];
+
+  let nodesExpanded = 0;
+
+  const h = estimate(start);
+  const startNode: AStarNode = { position: start, g: 0, h, f: h, parent: null };
+  openSet.enqueue(startNode);
+  nodeMap.set(`${start.row},${start.col}`, startNode);
+
+  const buildResult = (found: boolean, path: Position[], pathCost: number): AlgorithmResult => ({
+    algorithmId: 'jps',
+    algorithmName: 'JPS',
+    found,
+    path,
+    explorationOrder,
+    nodesExpanded,
+    pathLength: found ? path.length - 1 : 0,
+    pathCost,
+    timeTaken: performance.now() - startTime,
+    isOptimal: admissible && !weighted,
+    warnings,
+    peakMemory: nodeMap.size,
+    scannedCells,
+  });
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.dequeue()!;
+    const key = `${current.position.row},${current.position.col}`;
+
+    closedSet.add(key);
+    explorationOrder.push(current.position);
+    nodesExpanded++;
+    scanned = [];
+
+    if (positionsEqual(current.position, goal)) {
+      scannedCells.push(scanned);
+      return buildResult(true, reconstructPath(nodeMap, goal), current.g);
+    }
+
+    for (const neighbor of getPrunedNeighbors(current)) {
+      const jumpPoint = jump(
+        neighbor.row,
+        neighbor.col,
+        neighbor.row - current.position.row,
+        neighbor.col - current.position.col
+      );
+      if (!jumpPoint) continue;
+
+      const jumpKey = `${jumpPoint.row},${jumpPoint.col}`;
+      if (closedSet.has(jumpKey)) continue;
+
+      // Cost of the straight (or diagonal) segment to the jump point
+      let segmentCost = 0;
+      let previous = current.position;
+      for (const cell of interpolate(current.position, jumpPoint)) {
+        segmentCost += getStepCost(previous, cell, grid, terrainCosts, topology);
+        previous = cell;
+      }
+      const tentativeG = current.g + segmentCost;
+
+      const existingNode = nodeMap.get(jumpKey);
+      if (!existingNode) {
+        const jh = estimate(jumpPoint);
+        const newNode: AStarNode = {
+          position: jumpPoint,
+          g: tentativeG,
+          h: jh,
+          f: tentativeG + jh,
+          parent: current.position,
+        };
+        openSet.enqueue(newNode);
+        nodeMap.set(jumpKey, newNode);
+      } else if (tentativeG < existingNode.g) {
+        existingNode.g = tentativeG;
+        existingNode.f = tentativeG + existingNode.h;
+        existingNode.parent = current.position;
+        openSet.update(existingNode);
+      }
+    }
+
+    scannedCells.push(scanned);
+  }
+
+  // No path found
+  return buildResult(false, [], 0);
+}
@@ -0,0 +1,354 @@
+/**
+ * Lifelong Planning A* (LPA*)
+ *
+ * CHARACTERISTICS:
+ * - Incremental version of A*: keeps its search state between runs
+ * - Each cell has g(n) (cost found so far) and rhs(n), a one-step lookahead
+ *   from its predecessors: rhs(n) = min over predecessors p of g(p) + c(p, n)
+ * - Cells where g ≠ rhs are "inconsistent" and queued by the key
+ *   [min(g, rhs) + h(n), min(g, rhs)]
+ * - After an edit only the cells whose step costs changed are re-queued, so a
+ *   replan re-expands just the region the edit actually affects
+ * - The first plan expands about as many cells as A*
+ *
+ * TIME COMPLEXITY: O(b^d) for the first plan; replans are proportional to
+ * the number of cells whose shortest-path cost changed
+ * SPACE COMPLEXITY: O(n) - g and rhs are kept for every generated cell
+ *
+ * OPTIMALITY: Guaranteed with a consistent (hence admissible) heuristic
+ *
+ * rhs is derived from predecessors (getPredecessors), which cannot know which
+ * keys the walker holds, so doors stay locked.
+ */
+
+import {
+  CellType,
+  Position,
+  AlgorithmResult,
+  IncrementalPlanner,
+  SearchOptions,
+} from '../types/maze.types';
+import { getMinStepCost, getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import {
+  getNeighbors,
+  getPredecessors,
+  describeMovement,
+  getAdjacentCell,
+  getDistanceEstimate,
+  isHeuristicAdmissible,
+  HEURISTIC_LABELS,
+} from '../utils/movement';
+import { PriorityQueue, positionKey } from '../utils/priorityQueue';
+import {
+  LOCKED_DOORS_WARNING,
+  findPortalTwin,
+  getChannel,
+  isPortal,
+  lockDoors,
+  withPortalShortcuts,
+} from '../utils/specialCells';
+import { executeAStar } from './astar';
+import { getBaselineStats } from './baseline';
+
+// Queue entry: an inconsistent cell with its two-part priority key
+interface LPANode {
+  position: Position;
+  k1: number; // min(g, rhs) + h
+  k2: number; // min(g, rhs), breaks ties
+}
+
+// Per-cell search state
+interface CellCosts {
+  g: number;
+  rhs: number;
+}
+
+/**
+ * Order queue entries lexicographically by [k1, k2]
+ */
+function compareKeys(a: LPANode, b: LPANode): number {
+  if (a.k1 === b.k1) {
+    return a.k2 - b.k2;
+  }
+  return a.k1 - b.k1;
+}
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+/**
+ * LPA* planner for a fixed start and goal on an editable grid
+ */
+export class LPAStarPlanner implements IncrementalPlanner {
+  private grid: CellType[][] = [];
+  private doorsLocked = false;
+  private minStepCost = 1;
+  private distance: (from: Position, to: Position) => number = () => 0; // Set by initialize()
+  private costs = new Map<string, CellCosts>();
+  private openSet = new PriorityQueue<LPANode>(compareKeys);
+  private explorationOrder: Position[] = [];
+  private replanCount = 0;
+  private changedCells = 0;
+
+  constructor(
+    grid: CellType[][],
+    private readonly start: Position,
+    private readonly goal: Position,
+    private readonly options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+  ) {
+    this.setGrid(grid);
+    this.initialize();
+  }
+
+  /**
+   * Apply edited cells. Step costs into each edited cell change, and so may
+   * the diagonals that squeeze past it, so every cell in its 3x3 block gets
+   * its rhs recomputed (and a portal's twin, which is entered from there).
+   */
+  updateCells(grid: CellType[][], changed: Position[]): void {
+    const previous = this.grid;
+    this.setGrid(grid);
+    this.replanCount++;
+    this.changedCells = changed.length;
+
+    // A new cheapest step rescales the heuristic, which invalidates every key,
+    // and so does a portal edit, which also relinks cells far from the edit
+    const portalEdited = changed.some(({ row, col }) =>
+      getChannel(previous[row][col]) !== getChannel(grid[row][col]) &&
+      (isPortal(previous[row][col]) || isPortal(grid[row][col]))
+    );
+    if (portalEdited || getMinStepCost(this.grid, this.options.terrainCosts) !== this.minStepCost) {
+      this.initialize();
+      return;
+    }
+
+    const affected = new Map<string, Position>();
+    for (const cell of changed) {
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          // Hex neighbours also lie within the 3x3 block; a torus wraps it
+          const position = getAdjacentCell(grid, cell, { row: dr, col: dc }, this.options.topology);
+          if (position) {
+            const { row, col } = position;
+            affected.set(`${row},${col}`, position);
+            const twin = isPortal(this.grid[row][col]) ? findPortalTwin(this.grid, position) : null;
+            if (twin) affected.set(`${twin.row},${twin.col}`, twin);
+          }
+        }
+      }
+    }
+
+    for (const position of affected.values()) {
+      this.updateVertex(position);
+    }
+  }
+
+  /**
+   * Expand inconsistent cells until the goal is consistent and no queued
+   * cell could still lower its cost
+   */
+  plan(): AlgorithmResult {
+    const startTime = performance.now();
+    const { heuristic, movement, topology } = this.options;
+    this.explorationOrder = [];
+    let nodesExpanded = 0;
+
+    while (!this.openSet.isEmpty()) {
+      const top = this.openSet.peek()!;
+      const goalKey = this.calculateKey(this.goal);
+      const goalCosts = this.getCosts(this.goal);
+      if (compareKeys(top, goalKey) >= 0 && goalCosts.rhs === goalCosts.g) {
+        break;
+      }
+
+      this.openSet.dequeue();
+      const position = top.position;
+      const cell = this.getCosts(position);
+      this.explorationOrder.push(position);
+      nodesExpanded++;
+
+      if (cell.g > cell.rhs) {
+        // Over-consistent: the cost dropped, settle it like A* would
+        cell.g = cell.rhs;
+      } else {
+        // Under-consistent: the cost rose, invalidate and re-derive it
+        cell.g = Infinity;
+        this.updateVertex(position);
+      }
+
+      for (const neighbor of getNeighbors(position, this.grid, movement, topology)) {
+        this.updateVertex(neighbor);
+      }
+    }
+
+    const pathCost = this.getCosts(this.goal).g;
+    const found = pathCost < Infinity;
+    const path = found ? this.extractPath() : [];
+
+    const isAdmissible = isHeuristicAdmissible(heuristic, movement, topology);
+    const isOptimal = isAdmissible && !this.doorsLocked;
+    const warnings = isAdmissible
+      ? []
+      : [`${HEURISTIC_LABELS[heuristic]} heuristic overestimates with ${describeMovement(movement, topology)} movement; path may be sub-optimal`];
+    if (this.doorsLocked) {
+      warnings.push(LOCKED_DOORS_WARNING);
+    }
+
+    const endTime = performance.now();
+
+    return {
+      algorithmId: 'lpastar',
+      algorithmName: 'LPA*',
+      found,
+      path,
+      explorationOrder: this.explorationOrder,
+      nodesExpanded,
+      pathLength: found ? path.length - 1 : 0,
+      pathCost: found ? pathCost : 0,
+      timeTaken: endTime - startTime,
+      isOptimal,
+      warnings,
+      peakMemory: this.costs.size,
+      baseline: {
+        ...getBaselineStats(
+          executeAStar(this.grid, this.start, this.goal, { ...this.options, heuristicWeight: 1 })
+        ),
+        algorithmName: 'A* from scratch',
+      },
+      replanCount: this.replanCount,
+      changedCells: this.changedCells,
+    };
+  }
+
+  private setGrid(grid: CellType[][]): void {
+    this.grid = lockDoors(grid);
+    this.doorsLocked = this.grid !== grid;
+  }
+
+  /**
+   * Forget all search state and queue the start cell
+   */
+  private initialize(): void {
+    this.minStepCost = getMinStepCost(this.grid, this.options.terrainCosts);
+    this.distance = withPortalShortcuts(this.grid, getDistanceEstimate(this.grid, this.options.heuristic, this.options.topology));
+    this.costs = new Map();
+    this.openSet = new PriorityQueue<LPANode>(compareKeys);
+    this.getCosts(this.start).rhs = 0;
+    this.openSet.enqueue(this.calculateKey(this.start));
+  }
+
+  private getCosts(position: Position): CellCosts {
+    const key = positionKey(position);
+    let cell = this.costs.get(key);
+    if (!cell) {
+      cell = { g: Infinity, rhs: Infinity };
+      this.costs.set(key, cell);
+    }
+    return cell;
+  }
+
+  private heuristic(position: Position): number {
+    return this.distance(position, this.goal) * this.minStepCost;
+  }
+
+  private calculateKey(position: Position): LPANode {
+    const { g, rhs } = this.getCosts(position);
+    const best = Math.min(g, rhs);
+    return { position, k1: best + this.heuristic(position), k2: best };
+  }
+
+  /**
+   * Recompute rhs from the predecessors and (de)queue the cell if its
+   * consistency changed
+   */
+  private updateVertex(position: Position): void {
+    const cell = this.getCosts(position);
+
+    if (!positionsEqual(position, this.start)) {
+      cell.rhs = Infinity;
+      if (this.grid[position.row][position.col] !== CellType.WALL) {
+        for (const predecessor of getPredecessors(position, this.grid, this.options.movement, this.options.topology)) {
+          const g = this.getCosts(predecessor).g;
+          if (g === Infinity) continue;
+          const cost = g + getStepCost(predecessor, position, this.grid, this.options.terrainCosts, this.options.topology);
+          if (cost < cell.rhs) {
+            cell.rhs = cost;
+          }
+        }
+      }
+    }
+
+    if (cell.g !== cell.rhs) {
+      this.openSet.enqueue(this.calculateKey(position));
+    } else {
+      this.openSet.remove(position);
+    }
+  }
+
+  /**
+   * Walk back from the goal, always to the predecessor that yields its g
+   */
+  private extractPath(): Position[] {
+    const path: Position[] = [this.goal];
+    let current = this.goal;
+
+    while (!positionsEqual(current, this.start)) {
+      let next: Position | null = null;
+      let bestCost = Infinity;
+      for (const predecessor of getPredecessors(current, this.grid, this.options.movement, this.options.topology)) {
+        const cost =
+          this.getCosts(predecessor).g +
+          getStepCost(predecessor, current, this.grid, this.options.terrainCosts, this.options.topology);
+        if (cost < bestCost) {
+          bestCost = cost;
+          next = predecessor;
+        }
+      }
+      // Guard against a cycle of equal-cost cells
+      if (!next || path.length > this.costs.size) break;
+      path.push(next);
+      current = next;
+    }
+
+    return path.reverse();
+  }
+}
+
+/**
+ * Create an LPA* planner whose state survives later edits
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Planner; call plan() for the first result and after each updateCells()
+ */
+export function createLPAStarPlanner(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): LPAStarPlanner {
+  return new LPAStarPlanner(grid, start, goal, options);
+}
+
+/**
+ * Execute LPA* once, from scratch
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Algorithm result with path and metrics
+ */
+export function executeLPAStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  return createLPAStarPlanner(grid, start, goal, options).plan();
+}
@@ -0,0 +1,154 @@
+/**
+ * Planning around moving obstacles
+ *
+ * Each obstacle loops along a route of adjacent cells, one cell per time step,
+ * so where it stands at any time is known in advance. Space-time A* plans the
+ * agent against that timetable: a cell is blocked while an obstacle stands on
+ * it, and a move is blocked if it swaps cells with an obstacle. Waiting in
+ * place lets the agent let an obstacle pass instead of detouring around it.
+ *
+ * The whole timetable repeats every LCM of the route lengths, so states one
+ * period apart share their future and are searched once; unreachable goals
+ * are then detected without searching forever.
+ *
+ * Costs are time steps (moves and waits), as in space-time A*, whose states
+ * carry no keys, so doors stay locked.
+ *
+ * OPTIMALITY: Finds the earliest arrival that avoids every obstacle
+ */
+
+import {
+  AlgorithmResult,
+  CellType,
+  MovementModel,
+  MovingObstacle,
+  Position,
+  SearchOptions,
+  Topology,
+} from '../types/maze.types';
+import { getNeighbors } from '../utils/movement';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { hasDoors, lockDoors } from '../utils/specialCells';
+import { getStepDistances, planSpaceTimePath } from './spaceTimeAStar';
+
+// Most obstacles the editor accepts
+export const MAX_MOVING_OBSTACLES = 6;
+
+// Longest timetable period searched modulo; longer ones are searched by absolute time
+const MAX_PERIOD = 840;
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+function greatestCommonDivisor(a: number, b: number): number {
+  return b === 0 ? a : greatestCommonDivisor(b, a % b);
+}
+
+/**
+ * Cell an obstacle occupies at a time step
+ */
+export function getObstacleCell(obstacle: MovingObstacle, time: number): Position {
+  return obstacle.route[time % obstacle.route.length];
+}
+
+/**
+ * Shortest route an obstacle can follow between two cells (doors stay locked)
+ * @returns Cells after `from` up to and including `to`, or null if unreachable
+ */
+export function getObstacleRouteSegment(
+  grid: CellType[][],
+  from: Position,
+  to: Position,
+  movement: MovementModel,
+  topology: Topology
+): Position[] | null {
+  const distances = getStepDistances(grid, to, movement, topology);
+  if (distances[from.row][from.col] === Infinity) return null;
+
+  const lockedGrid = lockDoors(grid);
+  const segment: Position[] = [];
+  // Walk downhill on the distances to `to`
+  for (let position = from; !positionsEqual(position, to); ) {
+    const distance = distances[position.row][position.col];
+    position = getNeighbors(position, lockedGrid, movement, topology)
+      .find((next) => distances[next.row][next.col] === distance - 1)!;
+    segment.push(position);
+  }
+  return segment;
+}
+
+/**
+ * Plan the earliest arrival that avoids every moving obstacle
+ * @param grid - The maze grid
+ * @param start - Agent position at t = 0
+ * @param goal - Goal position
+ * @param obstacles - Looping obstacles
+ * @param options - Search settings (only the movement model applies)
+ * @returns Result with the agent's timed path and each obstacle's cells until arrival
+ */
+export function planAroundMovingObstacles(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  obstacles: MovingObstacle[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const { movement, topology } = options;
+  const warnings: string[] = [];
+
+  if (hasDoors(grid)) {
+    warnings.push('The agent carries no keys, so doors stay locked');
+  }
+
+  const isOccupied = (position: Position, time: number) =>
+    obstacles.some((obstacle) => positionsEqual(getObstacleCell(obstacle, time), position));
+
+  const lcm = obstacles.reduce(
+    (period, { route }) => (period * route.length) / greatestCommonDivisor(period, route.length),
+    1
+  );
+  const period = lcm <= MAX_PERIOD ? lcm : undefined;
+  const cellCount = grid.length * grid[0].length;
+
+  const plan = planSpaceTimePath(grid, start, goal, movement, topology, {
+    isVertexBlocked: isOccupied,
+    // Swapping cells with an obstacle means passing through it
+    isEdgeBlocked: (from, to, time) =>
+      obstacles.some((obstacle) =>
+        positionsEqual(getObstacleCell(obstacle, time), to) && positionsEqual(getObstacleCell(obstacle, time + 1), from)
+      ),
+    period,
+    maxTime: cellCount + (period ?? cellCount),
+  });
+
+  if (isOccupied(start, 0)) {
+    warnings.push('An obstacle starts on the start cell');
+  } else if (!plan.found) {
+    warnings.push('No plan avoids the obstacles');
+  }
+
+  const arrivalTime = plan.found ? plan.path.length - 1 : 0;
+  return {
+    algorithmId: 'spacetime',
+    algorithmName: `Space-Time A* (${obstacles.length} obstacle${obstacles.length === 1 ? '' : 's'})`,
+    found: plan.found,
+    path: plan.path,
+    explorationOrder: plan.explorationOrder,
+    nodesExpanded: plan.nodesExpanded,
+    pathLength: plan.found ? arrivalTime - plan.waits : 0,
+    pathCost: arrivalTime,
+    timeTaken: performance.now() - startTime,
+    isOptimal: plan.found,
+    warnings,
+    arrivalTime: plan.found ? arrivalTime : undefined,
+    waits: plan.found ? plan.waits : undefined,
+    obstaclePaths: obstacles.map((obstacle) =>
+      Array.from({ length: arrivalTime + 1 }, (_, time) => getObstacleCell(obstacle, time))
+    ),
+  };
+}
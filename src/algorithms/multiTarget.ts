@@ -0,0 +1,64 @@
+/**
+ * Multi-source / multi-target search helpers
+ *
+ * BFS, Dijkstra and A* accept several starts (all seeded at distance 0) and
+ * several goals (the search ends at the nearest one). Other algorithms search
+ * between the first start and the first goal only.
+ */
+
+import {
+  AlgorithmDefinition,
+  AlgorithmResult,
+  CellType,
+  Position,
+  SearchOptions,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { addTurnStats } from '../utils/turns';
+
+/**
+ * Start and goal joined by a found path, reported only when there was a choice
+ */
+export function getConnectedPair(
+  path: Position[],
+  starts: Position[],
+  goals: Position[]
+): Pick<AlgorithmResult, 'connectedStart' | 'connectedGoal'> {
+  if (path.length === 0 || (starts.length === 1 && goals.length === 1)) return {};
+  return { connectedStart: path[0], connectedGoal: path[path.length - 1] };
+}
+
+/**
+ * Run an algorithm between sets of starts and goals
+ * @param algorithm - Registered algorithm
+ * @param grid - The maze grid
+ * @param starts - Starting positions (at least one)
+ * @param goals - Goal positions (at least one)
+ * @param options - Search settings
+ * @returns Result of the multi-target search, or of the first start/goal pair
+ *          (with a warning) if the algorithm only supports one of each, with
+ *          the path's turns when a turn penalty is set
+ */
+export function executeAlgorithm(
+  algorithm: AlgorithmDefinition,
+  grid: CellType[][],
+  starts: Position[],
+  goals: Position[],
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  if (starts.length === 1 && goals.length === 1) {
+    return addTurnStats(algorithm.execute(grid, starts[0], goals[0], options), algorithm, grid, options);
+  }
+  if (algorithm.executeMulti) {
+    return addTurnStats(algorithm.executeMulti(grid, starts, goals, options), algorithm, grid, options);
+  }
+
+  const result = algorithm.execute(grid, starts[0], goals[0], options);
+  return addTurnStats({
+    ...result,
+    warnings: [
+      ...(result.warnings ?? []),
+      `${algorithm.name} supports one start and one goal; searched from the first start to the first goal`,
+    ],
+  }, algorithm, grid, options);
+}
@@ -0,0 +1,47 @@
+/**
+ * Algorithm Registry
+ *
+ * Central list of every pathfinding algorithm the visualizer knows about.
+ * Each algorithm registers its id, display name, color, optimality guarantee
+ * and executor once; the buttons, legend, comparison mode and metrics panel
+ * are all driven from this list.
+ *
+ * Algorithms appear in the UI in registration order.
+ */
+
+import { AlgorithmDefinition } from '../types/maze.types';
+
+const registry = new Map<string, AlgorithmDefinition>();
+
+/**
+ * Register a pathfinding algorithm
+ * @param definition - Algorithm metadata and executor
+ * @throws If an algorithm with the same id is already registered
+ */
+export function registerAlgorithm(definition: AlgorithmDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Algorithm "${definition.id}" is already registered`);
+  }
+  registry.set(definition.id, definition);
+}
+
+/**
+ * Look up a registered algorithm by id
+ */
+export function getAlgorithm(id: string): AlgorithmDefinition | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Get all registered algorithms in registration order
+ */
+export function getAlgorithms(): AlgorithmDefinition[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Get the display color for an algorithm, with a neutral fallback
+ */
+export function getAlgorithmColor(id: string): string {
+  return registry.get(id)?.color ?? '#3b82f6';
+}
@@ -0,0 +1,185 @@
+/**
+ * Space-Time A*
+ *
+ * CHARACTERISTICS:
+ * - Searches over (cell, time) states instead of cells, so the same cell can
+ *   be visited at different times
+ * - Every action takes one time step: a move to a neighbor or a wait in place
+ * - Cells and moves can be forbidden at particular times, which is how other
+ *   agents (CBS constraints) or moving obstacles are avoided
+ * - h(n) is the exact step distance to the goal on the static maze, computed
+ *   once by a reverse BFS; it ignores timed constraints, so it stays
+ *   admissible and consistent
+ *
+ * Costs are time steps: terrain is ignored and a diagonal move takes one step
+ * like any other, so the cost of a plan is its arrival time. States do not
+ * carry keys, so doors stay locked.
+ *
+ * TIME COMPLEXITY: O(V · T · b) for T time steps in the worst case
+ * SPACE COMPLEXITY: O(V · T) - one node per generated (cell, time) state
+ *
+ * OPTIMALITY: Finds the earliest arrival that respects every constraint
+ */
+
+import { CellType, MovementModel, Position, Topology } from '../types/maze.types';
+import { getNeighbors, getPredecessors } from '../utils/movement';
+import { PriorityQueue } from '../utils/priorityQueue';
+import { lockDoors } from '../utils/specialCells';
+
+// Timed restrictions the plan must respect
+export interface SpaceTimeConstraints {
+  isVertexBlocked?: (position: Position, time: number) => boolean;         // Cannot stand here at this time
+  isEdgeBlocked?: (from: Position, to: Position, time: number) => boolean; // Cannot move from → to leaving at this time
+  earliestArrival?: number;        // Goal only counts as reached from this time on
+  maxTime?: number;                // Give up on states later than this
+  period?: number;                 // Constraints repeat every this many steps (e.g. looping obstacles)
+}
+
+export interface SpaceTimePlan {
+  found: boolean;
+  path: Position[];                // Cell at each time step, start at t = 0 (empty if not found)
+  explorationOrder: Position[];    // Cell of each expanded state
+  nodesExpanded: number;
+  waits: number;                   // Steps spent waiting in place
+}
+
+// Search node for one (cell, time) state
+interface SpaceTimeNode {
+  position: Position;
+  time: number;    // Also the cost so far, g(n)
+  f: number;       // time + step distance to the goal
+  parent: SpaceTimeNode | null;
+}
+
+/**
+ * Check if two positions are equal
+ */
+function positionsEqual(a: Position, b: Position): boolean {
+  return a.row === b.row && a.col === b.col;
+}
+
+function stateKey(position: Position, time: number, period = Infinity): string {
+  return `${position.row},${position.col},${time % period}`;
+}
+
+/**
+ * Prefer lower f, then later states (deeper nodes reach the goal sooner)
+ */
+function compareSpaceTimeNodes(a: SpaceTimeNode, b: SpaceTimeNode): number {
+  if (a.f === b.f) {
+    return b.time - a.time;
+  }
+  return a.f - b.f;
+}
+
+/**
+ * Fewest steps from every cell to a goal, ignoring time
+ * @returns Step distances (Infinity if the goal is unreachable)
+ */
+export function getStepDistances(
+  grid: CellType[][],
+  goal: Position,
+  movement: MovementModel,
+  topology: Topology
+): number[][] {
+  const lockedGrid = lockDoors(grid);
+  const distances: number[][] = grid.map((row) => row.map(() => Infinity));
+  distances[goal.row][goal.col] = 0;
+  const queue: Position[] = [goal];
+
+  // A BFS over reversed moves from the goal gives distances to it
+  for (let head = 0; head < queue.length; head++) {
+    const position = queue[head];
+    for (const neighbor of getPredecessors(position, lockedGrid, movement, topology)) {
+      if (distances[neighbor.row][neighbor.col] !== Infinity) continue;
+      distances[neighbor.row][neighbor.col] = distances[position.row][position.col] + 1;
+      queue.push(neighbor);
+    }
+  }
+
+  return distances;
+}
+
+/**
+ * Find the earliest-arriving plan that respects every timed constraint
+ * @param grid - The maze grid
+ * @param start - Position at t = 0
+ * @param goal - Goal position
+ * @param movement - Movement model
+ * @param topology - Grid topology
+ * @param constraints - Timed restrictions to respect
+ * @param distances - Precomputed getStepDistances() to the goal, to share across calls
+ * @returns The plan, one cell per time step
+ */
+export function planSpaceTimePath(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  movement: MovementModel,
+  topology: Topology,
+  constraints: SpaceTimeConstraints = {},
+  distances: number[][] = getStepDistances(grid, goal, movement, topology)
+): SpaceTimePlan {
+  const {
+    isVertexBlocked = () => false,
+    isEdgeBlocked = () => false,
+    earliestArrival = 0,
+    period,
+  } = constraints;
+  const maxTime = constraints.maxTime ?? earliestArrival + grid.length * grid[0].length;
+  const lockedGrid = lockDoors(grid);
+
+  const explorationOrder: Position[] = [];
+  const notFound: SpaceTimePlan = { found: false, path: [], explorationOrder, nodesExpanded: 0, waits: 0 };
+  const startDistance = distances[start.row][start.col];
+  if (startDistance === Infinity || isVertexBlocked(start, 0)) {
+    return notFound;
+  }
+
+  const openSet = new PriorityQueue<SpaceTimeNode>(
+    compareSpaceTimeNodes,
+    (node) => stateKey(node.position, node.time)
+  );
+  // Every action costs one step, so the first node generated for a state is as cheap as any later one.
+  // With periodic constraints a state whole periods later has the same future, only later, so
+  // (once the goal may be reached) states are keyed by their time within the period and only
+  // an earlier time than the one generated so far is worth generating
+  const generatedKey = (position: Position, time: number) =>
+    stateKey(position, time, period !== undefined && time >= earliestArrival ? period : Infinity);
+  const generated = new Map<string, number>([[generatedKey(start, 0), 0]]);
+  openSet.enqueue({ position: start, time: 0, f: startDistance, parent: null });
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.dequeue()!;
+    const { position, time } = current;
+    explorationOrder.push(position);
+
+    if (positionsEqual(position, goal) && time >= earliestArrival) {
+      const path: Position[] = [];
+      let waits = 0;
+      for (let node: SpaceTimeNode | null = current; node; node = node.parent) {
+        path.push(node.position);
+        if (node.parent && positionsEqual(node.parent.position, node.position)) waits++;
+      }
+      return { found: true, path: path.reverse(), explorationOrder, nodesExpanded: explorationOrder.length, waits };
+    }
+    if (time >= maxTime) continue;
+
+    // Waiting in place is one more successor
+    for (const next of [position, ...getNeighbors(position, lockedGrid, movement, topology)]) {
+      const key = generatedKey(next, time + 1);
+      if ((generated.get(key) ?? Infinity) <= time + 1) continue;
+      if (isVertexBlocked(next, time + 1) || isEdgeBlocked(position, next, time)) continue;
+
+      generated.set(key, time + 1);
+      openSet.enqueue({
+        position: next,
+        time: time + 1,
+        f: time + 1 + distances[next.row][next.col],
+        parent: current,
+      });
+    }
+  }
+
+  return { ...notFound, nodesExpanded: explorationOrder.length };
+}
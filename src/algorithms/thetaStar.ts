@@ -0,0 +1,157 @@
+/**
+ * Theta* (any-angle A*)
+ *
+ * CHARACTERISTICS:
+ * - A* whose paths are not tied to grid moves: when a cell's parent can see a
+ *   neighbor, the neighbor takes that parent directly (a straight shortcut)
+ *   instead of going through the cell
+ * - Paths are chains of straight segments between cell centers, so they do
+ *   not zig-zag along cell edges
+ * - h(n) is the Euclidean distance to the goal (scaled by the cheapest step
+ *   cost), the shortest any-angle distance, so it is admissible
+ * - A segment costs its length times the terrain cost of the cells it
+ *   crosses; segments over mixed terrain are not taken as shortcuts
+ *
+ * TIME COMPLEXITY: O(b^d · L) - each relaxation traces a line of length L
+ * SPACE COMPLEXITY: O(b^d) - stores all generated nodes
+ *
+ * OPTIMALITY: Not guaranteed. Paths are usually close to the true shortest
+ * any-angle path and shorter than grid paths, but parents are only ever
+ * chosen among expanded cells. Only plain square grids have straight lines,
+ * so hex and wrap-around grids, portals, one-way cells, doors and turn
+ * penalties make it run plain A* instead.
+ */
+
+import { AlgorithmResult, AStarNode, CellType, Position, SearchOptions } from '../types/maze.types';
+import { getMinStepCost, getStepCost } from '../utils/terrain';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { getNeighbors } from '../utils/movement';
+import { PriorityQueue, compareAStarNodes, positionKey } from '../utils/priorityQueue';
+import { getPolylineLength, getSegmentCost, supportsAnyAngle, traceLine } from '../utils/anyAngle';
+import { executeAStar } from './astar';
+
+/**
+ * Reconstruct the corners of the path from start to goal using parent pointers
+ */
+function reconstructCorners(nodeMap: Map<string, AStarNode>, goal: Position): Position[] {
+  const corners: Position[] = [];
+  let current: Position | null = goal;
+
+  while (current !== null) {
+    corners.push(current);
+    current = nodeMap.get(positionKey(current))?.parent ?? null;
+  }
+
+  return corners.reverse();
+}
+
+/**
+ * Execute Theta*
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param goal - Goal position
+ * @param options - Search settings (terrain costs, movement)
+ * @returns Algorithm result with every cell crossed as the path, and its corners
+ */
+export function executeThetaStar(
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const fallback = !supportsAnyAngle(grid, options)
+    ? 'Theta* needs straight lines: a plain square grid without portals, one-way cells or doors; ran A* instead'
+    : options.turnPenalty > 0
+      ? 'Theta* paths have no grid headings to charge turns on; ran A* instead'
+      : null;
+  if (fallback) {
+    const result = executeAStar(grid, start, goal, options);
+    return {
+      ...result,
+      algorithmId: 'thetastar',
+      algorithmName: 'Theta*',
+      warnings: [fallback, ...(result.warnings ?? [])],
+    };
+  }
+
+  const startTime = performance.now();
+  const { terrainCosts, movement, topology } = options;
+  const minStepCost = getMinStepCost(grid, terrainCosts);
+  const estimate = (pos: Position) => Math.hypot(pos.row - goal.row, pos.col - goal.col) * minStepCost;
+
+  const openSet = new PriorityQueue<AStarNode>(compareAStarNodes);
+  const closedSet = new Set<string>();
+  const nodeMap = new Map<string, AStarNode>();
+  const explorationOrder: Position[] = [];
+
+  const startNode: AStarNode = { position: start, g: 0, h: estimate(start), f: estimate(start), parent: null };
+  openSet.enqueue(startNode);
+  nodeMap.set(positionKey(start), startNode);
+
+  const buildResult = (corners: Position[], pathCost: number): AlgorithmResult => {
+    const found = corners.length > 0;
+    const path = found ? [corners[0]] : [];
+    for (let i = 1; i < corners.length; i++) {
+      path.push(...traceLine(grid, corners[i - 1], corners[i], movement)!);
+    }
+    return {
+      algorithmId: 'thetastar',
+      algorithmName: 'Theta*',
+      found,
+      path,
+      explorationOrder,
+      nodesExpanded: explorationOrder.length,
+      pathLength: found ? path.length - 1 : 0,
+      pathCost,
+      timeTaken: performance.now() - startTime,
+      isOptimal: false,
+      peakMemory: nodeMap.size,
+      anyAnglePath: corners,
+      euclideanLength: found ? getPolylineLength(corners) : undefined,
+    };
+  };
+
+  while (!openSet.isEmpty()) {
+    const current = openSet.dequeue()!;
+    const key = positionKey(current.position);
+    if (closedSet.has(key)) continue;
+
+    closedSet.add(key);
+    explorationOrder.push(current.position);
+
+    if (current.position.row === goal.row && current.position.col === goal.col) {
+      return buildResult(reconstructCorners(nodeMap, goal), current.g);
+    }
+
+    const parent = current.parent ? nodeMap.get(positionKey(current.parent))! : null;
+
+    for (const neighbor of getNeighbors(current.position, grid, movement, topology)) {
+      const neighborKey = positionKey(neighbor);
+      if (closedSet.has(neighborKey)) continue;
+
+      // Path 2: straight from the parent, if it can see the neighbor;
+      // Path 1: through the current cell, as in A*
+      const shortcutG = parent ? parent.g + getSegmentCost(grid, parent.position, neighbor, options) : Infinity;
+      const directG = current.g + getStepCost(current.position, neighbor, grid, terrainCosts, topology);
+      const [tentativeG, via] = parent && shortcutG <= directG
+        ? [shortcutG, parent.position]
+        : [directG, current.position];
+
+      const existingNode = nodeMap.get(neighborKey);
+      if (!existingNode) {
+        const h = estimate(neighbor);
+        const newNode: AStarNode = { position: neighbor, g: tentativeG, h, f: tentativeG + h, parent: via };
+        openSet.enqueue(newNode);
+        nodeMap.set(neighborKey, newNode);
+      } else if (tentativeG < existingNode.g) {
+        existingNode.g = tentativeG;
+        existingNode.f = tentativeG + existingNode.h;
+        existingNode.parent = via;
+        openSet.update(existingNode);
+      }
+    }
+  }
+
+  // No path found
+  return buildResult([], 0);
+}
@@ -0,0 +1,236 @@
+/**
+ * Waypoint routing
+ *
+ * Chains searches with any registered algorithm from the start, through
+ * every waypoint, to the goal.
+ *
+ * - IN ORDER: waypoints are visited in the order they were placed; one search
+ *   per leg
+ * - BEST ORDER: searches every ordered pair of stops, then solves the small
+ *   travelling-salesman problem over those leg costs exactly with the
+ *   Held-Karp dynamic programme (O(n² · 2ⁿ) for n waypoints), keeping the
+ *   start first and the goal last
+ *
+ * The route is optimal for its order whenever every leg search is optimal;
+ * in best-order mode it is then optimal overall. Under a turn penalty each
+ * leg starts facing any way, so turns where one leg meets the next are added
+ * to the cost afterwards, and a route paying for any is no longer optimal.
+ */
+
+import {
+  AlgorithmDefinition,
+  AlgorithmResult,
+  CellType,
+  Position,
+  RouteLeg,
+  SearchOptions,
+  WaypointOrder,
+} from '../types/maze.types';
+import { DEFAULT_SEARCH_OPTIONS } from '../utils/searchOptions';
+import { addTurnStats, getPathTurns } from '../utils/turns';
+
+// Most waypoints the editor accepts (keeps best-order routing instant)
+export const MAX_WAYPOINTS = 8;
+
+export const WAYPOINT_ORDER_LABELS: Record<WaypointOrder, string> = {
+  [WaypointOrder.IN_ORDER]: 'In order',
+  [WaypointOrder.BEST_ORDER]: 'Best order',
+};
+
+/**
+ * Display name of a stop: 0 is the start, 1..n the waypoints, n + 1 the goal
+ */
+function getStopLabel(stop: number, waypointCount: number): string {
+  if (stop === 0) return 'Start';
+  if (stop === waypointCount + 1) return 'Goal';
+  return `W${stop}`;
+}
+
+/**
+ * Cheapest visiting order of the waypoints (Held-Karp)
+ * @param cost - cost[i][j] of the leg from stop i to stop j
+ * @param waypointCount - Number of waypoints n; stops are 0..n+1
+ * @returns Waypoint stops (1..n) in visiting order, or null if no order connects
+ */
+function solveBestOrder(cost: number[][], waypointCount: number): number[] | null {
+  const n = waypointCount;
+  const goal = n + 1;
+  const full = (1 << n) - 1;
+
+  // best[mask][i]: cheapest route from the start through the waypoints in
+  // mask, ending at waypoint i (bit i - 1 of mask)
+  const best: number[][] = Array.from({ length: full + 1 }, () => Array(n + 1).fill(Infinity));
+  const previous: number[][] = Array.from({ length: full + 1 }, () => Array(n + 1).fill(-1));
+
+  for (let i = 1; i <= n; i++) {
+    best[1 << (i - 1)][i] = cost[0][i];
+  }
+
+  for (let mask = 1; mask <= full; mask++) {
+    for (let last = 1; last <= n; last++) {
+      if (!(mask & (1 << (last - 1))) || best[mask][last] === Infinity) continue;
+      for (let next = 1; next <= n; next++) {
+        if (mask & (1 << (next - 1))) continue;
+        const nextMask = mask | (1 << (next - 1));
+        const total = best[mask][last] + cost[last][next];
+        if (total < best[nextMask][next]) {
+          best[nextMask][next] = total;
+          previous[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  let bestLast = -1;
+  let bestTotal = Infinity;
+  for (let last = 1; last <= n; last++) {
+    const total = best[full][last] + cost[last][goal];
+    if (total < bestTotal) {
+      bestTotal = total;
+      bestLast = last;
+    }
+  }
+  if (bestLast === -1) return null;
+
+  const order: number[] = [];
+  let mask = full;
+  let last = bestLast;
+  while (last !== -1) {
+    order.push(last);
+    const before = previous[mask][last];
+    mask &= ~(1 << (last - 1));
+    last = before;
+  }
+  return order.reverse();
+}
+
+/**
+ * Route from start to goal through every waypoint
+ * @param algorithm - Algorithm used for each leg
+ * @param grid - The maze grid
+ * @param start - Starting position
+ * @param waypoints - Waypoints in placement order
+ * @param goal - Goal position
+ * @param order - Visit waypoints in placement order or in the cheapest order
+ * @param options - Search settings (terrain costs, movement, heuristic)
+ * @returns Combined result with one entry per leg
+ */
+export function routeThroughWaypoints(
+  algorithm: AlgorithmDefinition,
+  grid: CellType[][],
+  start: Position,
+  waypoints: Position[],
+  goal: Position,
+  order: WaypointOrder,
+  options: SearchOptions = DEFAULT_SEARCH_OPTIONS
+): AlgorithmResult {
+  const startTime = performance.now();
+  const n = waypoints.length;
+  const stops = [start, ...waypoints, goal];
+  const warnings: string[] = [];
+
+  // Leg searches, computed on demand and cached by "from,to" stop index
+  const legSearches = new Map<string, AlgorithmResult>();
+  const search = (from: number, to: number): AlgorithmResult => {
+    const key = `${from},${to}`;
+    let result = legSearches.get(key);
+    if (!result) {
+      result = addTurnStats(algorithm.execute(grid, stops[from], stops[to], options), algorithm, grid, options);
+      legSearches.set(key, result);
+    }
+    return result;
+  };
+
+  let visitOrder = waypoints.map((_, i) => i + 1);
+  let pairwiseNodesExpanded: number | undefined;
+
+  if (order === WaypointOrder.BEST_ORDER && n > 1) {
+    const cost = stops.map((_, from) =>
+      stops.map((_, to) => {
+        if (from === to || to === 0 || from === n + 1 || (from === 0 && to === n + 1)) return Infinity;
+        const result = search(from, to);
+        return result.found ? result.pathCost : Infinity;
+      })
+    );
+    pairwiseNodesExpanded = Array.from(legSearches.values())
+      .reduce((total, result) => total + result.nodesExpanded, 0);
+
+    const bestOrder = solveBestOrder(cost, n);
+    if (bestOrder) {
+      visitOrder = bestOrder;
+    } else {
+      warnings.push('No visiting order connects every waypoint; showing placement order');
+    }
+    if (!algorithm.isOptimal) {
+      warnings.push(`${algorithm.name} leg costs are not shortest paths, so the best order may not be`);
+    }
+  }
+
+  // Chain the legs, stopping at the first one that cannot be completed
+  const route = [0, ...visitOrder, n + 1];
+  const legs: RouteLeg[] = [];
+  for (let i = 0; i + 1 < route.length; i++) {
+    const result = search(route[i], route[i + 1]);
+    legs.push({
+      label: `${getStopLabel(route[i], n)} → ${getStopLabel(route[i + 1], n)}`,
+      result,
+    });
+    if (!result.found) break;
+  }
+
+  const found = legs.length === route.length - 1 && legs.every((leg) => leg.result.found);
+  const path: Position[] = [];
+  const explorationOrder: Position[] = [];
+  for (const leg of legs) {
+    // Each leg starts on the previous leg's last cell
+    path.push(...(path.length > 0 ? leg.result.path.slice(1) : leg.result.path));
+    for (const cell of leg.result.explorationOrder) {
+      explorationOrder.push(cell);
+    }
+  }
+  if (!found) {
+    warnings.push(`Leg ${legs[legs.length - 1].label} is unreachable`);
+  }
+  for (const leg of legs) {
+    for (const warning of leg.result.warnings ?? []) {
+      if (!warnings.includes(warning)) warnings.push(warning);
+    }
+  }
+
+  // Turns where each leg's last move meets the next leg's first move
+  const junctionTurns = legs.slice(1).map((leg, i) => {
+    const before = legs[i].result.path;
+    const after = leg.result.path;
+    return found && options.turnPenalty > 0 && before.length > 1 && after.length > 1
+      ? getPathTurns([before[before.length - 2], before[before.length - 1], after[1]], grid, options)
+      : { turnPoints: [], turnCost: 0 };
+  });
+  const junctionCost = junctionTurns.reduce((total, { turnCost }) => total + turnCost, 0);
+  if (junctionCost > 0) {
+    warnings.push(
+      `Legs are planned separately, so the turns at waypoints (cost ${junctionCost}) were added to the path cost afterwards`
+    );
+  }
+  const turnPoints = legs.flatMap((leg, i) => [...(leg.result.turnPoints ?? []), ...(junctionTurns[i]?.turnPoints ?? [])]);
+
+  const endTime = performance.now();
+
+  return {
+    algorithmId: algorithm.id,
+    algorithmName: `${algorithm.name} via ${n} waypoint${n === 1 ? '' : 's'} (${WAYPOINT_ORDER_LABELS[order].toLowerCase()})`,
+    found,
+    path: found ? path : [],
+    explorationOrder,
+    nodesExpanded: legs.reduce((total, leg) => total + leg.result.nodesExpanded, 0),
+    pathLength: found ? path.length - 1 : 0,
+    pathCost: found ? legs.reduce((total, leg) => total + leg.result.pathCost, 0) + junctionCost : 0,
+    timeTaken: endTime - startTime,
+    isOptimal: legs.every((leg) => leg.result.isOptimal) && junctionCost === 0,
+    warnings,
+    turns: found && options.turnPenalty > 0 ? turnPoints.length : undefined,
+    turnPoints: found && options.turnPenalty > 0 ? turnPoints : undefined,
+    legs,
+    waypointOrder: visitOrder,
+    pairwiseNodesExpanded,
+  };
+}
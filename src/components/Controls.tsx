@@ -3,45 +3,179 @@
  */
 
 import React, { useState } from 'react';
-import { Algorithm, EditMode } from '../types/maze.types';
+import {
+  CaveOptions,
+  CavePockets,
+  CellType,
+  EditMode,
+  GraphEditMode,
+  Heuristic,
+  MapStyle,
+  MazeGenerator,
+  MovementModel,
+  NoiseMode,
+  NoiseOptions,
+  TerrainCosts,
+  TerrainType,
+  Topology,
+  WaypointOrder,
+} from '../types/maze.types';
+import { getAlgorithms, MAX_MAPF_AGENTS, MAX_MOVING_OBSTACLES, MAX_WAYPOINTS, WAYPOINT_ORDER_LABELS } from '../algorithms';
+import { HEURISTIC_LABELS, MOVEMENT_LABELS, TOPOLOGY_LABELS } from '../utils/movement';
+import { GRAPH_HEIGHT, GRAPH_WIDTH } from '../utils/graph';
+import {
+  CAVE_POCKETS_LABELS,
+  MAP_STYLE_LABELS,
+  MAX_MAZE_SEED,
+  MAZE_GENERATOR_LABELS,
+  NOISE_MODE_LABELS,
+} from '../utils/mazeGenerator';
 import Modal from './Modal';
 
 interface ControlsProps {
-  selectedAlgorithm: Algorithm | null;
-  onAlgorithmSelect: (algorithm: Algorithm) => void;
+  selectedAlgorithm: string | null;
+  onAlgorithmSelect: (algorithmId: string) => void;
   onRunAlgorithm: () => void;
   onRunComparison: () => void;
+  onRunMultiAgent: () => void;
   onResetVisualization: () => void;
   onGenerateMaze: () => void;
+  mapStyle: MapStyle;
+  onMapStyleChange: (style: MapStyle) => void;
+  mazeGenerator: MazeGenerator;
+  onMazeGeneratorChange: (generator: MazeGenerator) => void;
+  caveOptions: CaveOptions;
+  onCaveOptionsChange: (options: CaveOptions) => void;
+  noiseOptions: NoiseOptions;
+  onNoiseOptionsChange: (options: NoiseOptions) => void;
+  mazeSeed: number | null;    // Null once the grid or map settings no longer match a seed
+  onMazeSeedSubmit: (seed: number) => void;
+  animateGeneration: boolean;
+  onAnimateGenerationToggle: () => void;
   onClearMaze: () => void;
   animationSpeed: number;
   onSpeedChange: (speed: number) => void;
   editMode: EditMode;
   onEditModeChange: (mode: EditMode) => void;
+  movement: MovementModel;
+  onMovementChange: (movement: MovementModel) => void;
+  topology: Topology;
+  onTopologyChange: (topology: Topology) => void;
+  heuristic: Heuristic;
+  onHeuristicChange: (heuristic: Heuristic) => void;
+  heuristicWeight: number;
+  onHeuristicWeightChange: (weight: number) => void;
+  turnPenalty: number;
+  onTurnPenaltyChange: (penalty: number) => void;
+  waypointCount: number;
+  waypointOrder: WaypointOrder;
+  onWaypointOrderChange: (order: WaypointOrder) => void;
+  showFlowField: boolean;
+  onFlowFieldToggle: () => void;
+  smoothPaths: boolean;
+  onSmoothPathsToggle: () => void;
+  agentMode: boolean;
+  onAgentModeChange: (enabled: boolean) => void;
+  sensingRadius: number;
+  onSensingRadiusChange: (radius: number) => void;
+  mapfAgentCount: number;
+  onRunMovingObstacles: () => void;
+  obstacleCount: number;
+  terrainCosts: TerrainCosts;
+  onTerrainCostChange: (terrain: TerrainType, cost: number) => void;
+  graphMode: boolean;
+  onGraphModeToggle: () => void;
+  graphEditMode: GraphEditMode;
+  onGraphEditModeChange: (mode: GraphEditMode) => void;
+  edgeList: string;                                 // Current graph as an edge list, to edit and re-import
+  onImportEdgeList: (text: string) => string | null; // Returns an error message if the list is invalid
   isRunning: boolean;
 }
 
+// Agent sensing radii offered in fog-of-war mode
+const SENSING_RADII = [1, 2, 3, 4, 5, 6];
+
+// Graph edit modes with their button labels and hints
+const GRAPH_EDIT_OPTIONS: { mode: GraphEditMode; label: string; title: string }[] = [
+  { mode: GraphEditMode.ADD_NODE, label: '⚪ Add Node', title: 'Click empty canvas to add a node' },
+  { mode: GraphEditMode.ADD_EDGE, label: '🔗 Add Edge / Set Weight', title: 'Click two nodes to join them; click an edge to change its weight' },
+  { mode: GraphEditMode.SET_START, label: '🟢 Set Start Node', title: 'Click the node to search from' },
+  { mode: GraphEditMode.SET_GOAL, label: '🎯 Set Goal Node', title: 'Click the node to search to' },
+  { mode: GraphEditMode.DELETE, label: '🗑️ Delete Node / Edge', title: 'Click a node (with its edges) or an edge to remove it' },
+];
+
+// Editable terrain types with their paint modes
+const TERRAIN_OPTIONS: { terrain: TerrainType; mode?: EditMode; label: string }[] = [
+  { terrain: CellType.FREE, label: '⬛ Free' },
+  { terrain: CellType.ROAD, mode: EditMode.PAINT_ROAD, label: '🛣️ Road' },
+  { terrain: CellType.MUD, mode: EditMode.PAINT_MUD, label: '🟫 Mud' },
+  { terrain: CellType.WATER, mode: EditMode.PAINT_WATER, label: '🌊 Water' },
+];
+
 const Controls: React.FC<ControlsProps> = ({
   selectedAlgorithm,
   onAlgorithmSelect,
   onRunAlgorithm,
   onRunComparison,
+  onRunMultiAgent,
   onResetVisualization,
   onGenerateMaze,
+  mapStyle,
+  onMapStyleChange,
+  mazeGenerator,
+  onMazeGeneratorChange,
+  caveOptions,
+  onCaveOptionsChange,
+  noiseOptions,
+  onNoiseOptionsChange,
+  mazeSeed,
+  onMazeSeedSubmit,
+  animateGeneration,
+  onAnimateGenerationToggle,
   onClearMaze,
   animationSpeed,
   onSpeedChange,
   editMode,
   onEditModeChange,
+  movement,
+  onMovementChange,
+  topology,
+  onTopologyChange,
+  heuristic,
+  onHeuristicChange,
+  heuristicWeight,
+  onHeuristicWeightChange,
+  turnPenalty,
+  onTurnPenaltyChange,
+  waypointCount,
+  waypointOrder,
+  onWaypointOrderChange,
+  showFlowField,
+  onFlowFieldToggle,
+  smoothPaths,
+  onSmoothPathsToggle,
+  agentMode,
+  onAgentModeChange,
+  sensingRadius,
+  onSensingRadiusChange,
+  mapfAgentCount,
+  onRunMovingObstacles,
+  obstacleCount,
+  terrainCosts,
+  onTerrainCostChange,
+  graphMode,
+  onGraphModeToggle,
+  graphEditMode,
+  onGraphEditModeChange,
+  edgeList,
+  onImportEdgeList,
   isRunning,
 }) => {
   const [showEditModal, setShowEditModal] = useState(false);
-
-  const algorithmInfo: Record<Algorithm, { color: string; icon: string }> = {
-    [Algorithm.DFS]: { color: '#f97316', icon: '🔴' },
-    [Algorithm.BFS]: { color: '#3b82f6', icon: '🔵' },
-    [Algorithm.ASTAR]: { color: '#22c55e', icon: '🟢' },
-  };
+  const [edgeListText, setEdgeListText] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  // Graph mode offers only the algorithms that run on general graphs
+  const algorithms = getAlgorithms().filter((algo) => !graphMode || algo.executeGraph);
 
   return (
     <>
@@ -49,23 +183,116 @@ const Controls: React.FC<ControlsProps> = ({
         {/* Algorithm Selection */}
         <div className="toolbar-group">
           <span className="toolbar-label">Algorithm:</span>
-          {Object.values(Algorithm).map((algo) => (
+          {algorithms.map((algo) => (
             <button
-              key={algo}
-              onClick={() => onAlgorithmSelect(algo)}
+              key={algo.id}
+              onClick={() => onAlgorithmSelect(algo.id)}
               disabled={isRunning}
-              className={`btn btn-sm ${selectedAlgorithm === algo ? 'btn-algo-selected' : 'btn-algo'}`}
+              className={`btn btn-sm ${selectedAlgorithm === algo.id ? 'btn-algo-selected' : 'btn-algo'}`}
               style={{
-                borderLeft: `3px solid ${algorithmInfo[algo].color}`,
+                borderLeft: `3px solid ${algo.color}`,
               }}
             >
-              {algorithmInfo[algo].icon} {algo}
+              {algo.icon} {algo.name}
             </button>
           ))}
         </div>
 
         <div className="toolbar-divider" />
 
+        {!graphMode && (
+          <>
+            {/* Search Settings */}
+            <div className="toolbar-group">
+              <span className="toolbar-label">Grid:</span>
+              <select
+                value={topology}
+                onChange={(e) => onTopologyChange(e.target.value as Topology)}
+                disabled={isRunning}
+                className="toolbar-select"
+                title="Cell layout (changing it generates a new maze)"
+              >
+                {Object.values(Topology).map((t) => (
+                  <option key={t} value={t}>{TOPOLOGY_LABELS[t]}</option>
+                ))}
+              </select>
+
+              <span className="toolbar-label">Move:</span>
+              <select
+                value={movement}
+                onChange={(e) => onMovementChange(e.target.value as MovementModel)}
+                disabled={isRunning || topology === Topology.HEX}
+                className="toolbar-select"
+                title={topology === Topology.HEX ? 'Hex cells always have six neighbors' : undefined}
+              >
+                {Object.values(MovementModel).map((model) => (
+                  <option key={model} value={model}>{MOVEMENT_LABELS[model]}</option>
+                ))}
+              </select>
+
+              <span className="toolbar-label">Heuristic:</span>
+              <select
+                value={heuristic}
+                onChange={(e) => onHeuristicChange(e.target.value as Heuristic)}
+                disabled={isRunning}
+                className="toolbar-select"
+                title="Distance estimate used by A*"
+              >
+                {Object.values(Heuristic).map((h) => (
+                  <option key={h} value={h}>{HEURISTIC_LABELS[h]}</option>
+                ))}
+              </select>
+
+              <span className="toolbar-label">A* w:</span>
+              <input
+                type="range"
+                min="1"
+                max="5"
+                step="0.1"
+                value={heuristicWeight}
+                onChange={(e) => onHeuristicWeightChange(Number(e.target.value))}
+                className="speed-slider-inline"
+                disabled={isRunning}
+                title="Heuristic weight: f = g + w·h (w > 1 is faster but may be sub-optimal)"
+              />
+              <span className="speed-value-inline">{heuristicWeight.toFixed(1)}</span>
+
+              <span className="toolbar-label">Turn:</span>
+              <input
+                type="range"
+                min="0"
+                max="5"
+                step="0.5"
+                value={turnPenalty}
+                onChange={(e) => onTurnPenaltyChange(Number(e.target.value))}
+                className="speed-slider-inline"
+                disabled={isRunning}
+                title="Extra cost per 90° change of heading (0 = turns are free); A* and Dijkstra plan with it"
+              />
+              <span className="speed-value-inline">{turnPenalty.toFixed(1)}</span>
+
+              {waypointCount > 0 && (
+                <>
+                  <span className="toolbar-label">Waypoints:</span>
+                  <select
+                    value={waypointOrder}
+                    onChange={(e) => onWaypointOrderChange(e.target.value as WaypointOrder)}
+                    disabled={isRunning}
+                    className="toolbar-select"
+                    title={`${waypointCount} of ${MAX_WAYPOINTS} waypoints placed`}
+                  >
+                    {Object.values(WaypointOrder).map((order) => (
+                      <option key={order} value={order}>{WAYPOINT_ORDER_LABELS[order]}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="toolbar-divider" />
+          </>
+        )}
+
         {/* Run Controls */}
         <div className="toolbar-group">
           <button
@@ -80,10 +307,35 @@ const Controls: React.FC<ControlsProps> = ({
             onClick={onRunComparison}
             disabled={isRunning}
             className="btn btn-sm btn-compare"
-            title="Compare DFS, BFS, and A* simultaneously"
+            title={`Compare ${algorithms
+              .filter((algo) => graphMode || !algo.excludeFromComparison)
+              .map((algo) => algo.name)
+              .join(', ')} simultaneously`}
           >
             🔄 Compare All
           </button>
+
+          {mapfAgentCount > 0 && !graphMode && (
+            <button
+              onClick={onRunMultiAgent}
+              disabled={isRunning}
+              className="btn btn-sm btn-compare"
+              title="Plan collision-free paths for every placed agent with Conflict-Based Search"
+            >
+              👥 Run CBS ({mapfAgentCount})
+            </button>
+          )}
+
+          {obstacleCount > 0 && !graphMode && (
+            <button
+              onClick={onRunMovingObstacles}
+              disabled={isRunning}
+              className="btn btn-sm btn-compare"
+              title="Plan from start to goal around the moving obstacles with space-time A*, waiting where needed"
+            >
+              🚧 Run Space-Time A* ({obstacleCount})
+            </button>
+          )}
           
           <button
             onClick={onResetVisualization}
@@ -96,6 +348,57 @@ const Controls: React.FC<ControlsProps> = ({
 
         <div className="toolbar-divider" />
 
+        {!graphMode && (
+          <>
+            {/* Flow Field and Fog-of-war Agent */}
+            <div className="toolbar-group">
+              <button
+                onClick={onFlowFieldToggle}
+                disabled={isRunning}
+                className={`btn btn-sm ${showFlowField ? 'btn-algo-selected' : 'btn-algo'}`}
+                title="Distance-to-goal heatmap with arrows; click any cell to see its route (editing is paused)"
+              >
+                🧭 Flow Field
+              </button>
+              <button
+                onClick={onSmoothPathsToggle}
+                disabled={isRunning || topology !== Topology.SQUARE}
+                className={`btn btn-sm ${smoothPaths ? 'btn-algo-selected' : 'btn-algo'}`}
+                title={topology === Topology.SQUARE
+                  ? 'Draw each path string-pulled into straight segments and compare lengths'
+                  : 'Straight lines need a square grid'}
+              >
+                〰️ Smooth Paths
+              </button>
+              <button
+                onClick={() => onAgentModeChange(!agentMode)}
+                disabled={isRunning}
+                className={`btn btn-sm ${agentMode ? 'btn-algo-selected' : 'btn-algo'}`}
+                title="Run walks an agent that only senses nearby cells and replans on discovery"
+              >
+                🤖 Fog of War
+              </button>
+              {agentMode && (
+                <>
+                  <span className="toolbar-label">Sight:</span>
+                  <select
+                    value={sensingRadius}
+                    onChange={(e) => onSensingRadiusChange(Number(e.target.value))}
+                    disabled={isRunning}
+                    className="toolbar-select"
+                  >
+                    {SENSING_RADII.map((radius) => (
+                      <option key={radius} value={radius}>{radius}</option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+
+            <div className="toolbar-divider" />
+          </>
+        )}
+
         {/* Maze Controls */}
         <div className="toolbar-group">
           <button
@@ -103,16 +406,171 @@ const Controls: React.FC<ControlsProps> = ({
             disabled={isRunning}
             className="btn btn-sm btn-primary"
           >
-            🎲 New Maze
+            {graphMode ? '🎲 Sample Graph' : '🎲 New Maze'}
           </button>
+
+          {!graphMode && (
+            <select
+              value={mapStyle}
+              onChange={(e) => onMapStyleChange(e.target.value as MapStyle)}
+              disabled={isRunning}
+              className="toolbar-select"
+              title="What New Maze builds: a carved maze, cellular-automaton caves or a value-noise map"
+            >
+              {Object.values(MapStyle).map((style) => (
+                <option key={style} value={style}>{MAP_STYLE_LABELS[style]}</option>
+              ))}
+            </select>
+          )}
+
+          {!graphMode && mapStyle === MapStyle.MAZE && (
+            <select
+              value={mazeGenerator}
+              onChange={(e) => onMazeGeneratorChange(e.target.value as MazeGenerator)}
+              disabled={isRunning || topology === Topology.HEX}
+              className="toolbar-select"
+              title={topology === Topology.HEX
+                ? 'Hex mazes are always carved by the backtracker'
+                : 'Algorithm New Maze carves with'}
+            >
+              {Object.values(MazeGenerator).map((generator) => (
+                <option key={generator} value={generator}>{MAZE_GENERATOR_LABELS[generator]}</option>
+              ))}
+            </select>
+          )}
+
+          {!graphMode && mapStyle === MapStyle.CAVE && (
+            <>
+              <span className="toolbar-label">Fill:</span>
+              <input
+                type="range"
+                min="0.3"
+                max="0.6"
+                step="0.01"
+                value={caveOptions.fillRatio}
+                onChange={(e) => onCaveOptionsChange({ ...caveOptions, fillRatio: Number(e.target.value) })}
+                className="speed-slider-inline"
+                disabled={isRunning}
+                title="Share of cells walled by the random fill before smoothing"
+              />
+              <span className="speed-value-inline">{Math.round(caveOptions.fillRatio * 100)}%</span>
+
+              <span className="toolbar-label">Passes:</span>
+              <input
+                type="range"
+                min="0"
+                max="8"
+                step="1"
+                value={caveOptions.smoothingPasses}
+                onChange={(e) => onCaveOptionsChange({ ...caveOptions, smoothingPasses: Number(e.target.value) })}
+                className="speed-slider-inline"
+                disabled={isRunning}
+                title="Cellular-automaton smoothing passes (more passes give rounder caverns)"
+              />
+              <span className="speed-value-inline">{caveOptions.smoothingPasses}</span>
+
+              <select
+                value={caveOptions.pockets}
+                onChange={(e) => onCaveOptionsChange({ ...caveOptions, pockets: e.target.value as CavePockets })}
+                disabled={isRunning}
+                className="toolbar-select"
+                title="What to do with open pockets cut off from the largest cavern"
+              >
+                {Object.values(CavePockets).map((pockets) => (
+                  <option key={pockets} value={pockets}>{CAVE_POCKETS_LABELS[pockets]}</option>
+                ))}
+              </select>
+            </>
+          )}
+
+          {!graphMode && mapStyle === MapStyle.NOISE && (
+            <>
+              <select
+                value={noiseOptions.mode}
+                onChange={(e) => onNoiseOptionsChange({ ...noiseOptions, mode: e.target.value as NoiseMode })}
+                disabled={isRunning}
+                className="toolbar-select"
+                title="Whether the noise places walls or paints terrain (water, mud, roads)"
+              >
+                {Object.values(NoiseMode).map((mode) => (
+                  <option key={mode} value={mode}>{NOISE_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+
+              <span className="toolbar-label">Scale:</span>
+              <input
+                type="range"
+                min="2"
+                max="12"
+                step="1"
+                value={noiseOptions.scale}
+                onChange={(e) => onNoiseOptionsChange({ ...noiseOptions, scale: Number(e.target.value) })}
+                className="speed-slider-inline"
+                disabled={isRunning}
+                title="Size of the noise features, in cells"
+              />
+              <span className="speed-value-inline">{noiseOptions.scale}</span>
+            </>
+          )}
+
+          {!graphMode && (
+            <>
+              <span className="toolbar-label">Seed:</span>
+              <input
+                key={mazeSeed ?? 'none'}
+                defaultValue={mazeSeed ?? ''}
+                placeholder="none"
+                inputMode="numeric"
+                onKeyDown={(e) => {
+                  if (e.key !== 'Enter') return;
+                  const value = e.currentTarget.value.trim();
+                  // Plain digits only: Number() also reads '' as 0 and accepts '0x1f' or '1e3'
+                  if (!/^\d+$/.test(value)) return;
+                  const seed = Number(value);
+                  if (seed <= MAX_MAZE_SEED) onMazeSeedSubmit(seed);
+                }}
+                // Leaving a seed untyped (or invalid) shows the current maze's again, or none once it no longer matches
+                onBlur={(e) => (e.currentTarget.value = mazeSeed === null ? '' : String(mazeSeed))}
+                disabled={isRunning}
+                className="toolbar-input"
+                title={`${mazeSeed === null
+                  ? 'The grid was cleared or edited, or the map settings changed, so no seed rebuilds it'
+                  : 'Seed of the current maze'}; type one (0 to ${MAX_MAZE_SEED}) and press Enter to rebuild that exact maze`}
+              />
+            </>
+          )}
+
+          {!graphMode && (
+            <button
+              onClick={onAnimateGenerationToggle}
+              disabled={isRunning}
+              className={`btn btn-sm ${animateGeneration ? 'btn-algo-selected' : 'btn-algo'}`}
+              title="Show New Maze building the map step by step at the animation speed"
+            >
+              🎬 Animate
+            </button>
+          )}
           
           <button
-            onClick={() => setShowEditModal(true)}
+            onClick={() => {
+              setEdgeListText(edgeList);
+              setImportError(null);
+              setShowEditModal(true);
+            }}
             disabled={isRunning}
             className="btn btn-sm btn-secondary"
           >
             ✏️ Edit
           </button>
+
+          <button
+            onClick={onGraphModeToggle}
+            disabled={isRunning}
+            className={`btn btn-sm ${graphMode ? 'btn-algo-selected' : 'btn-algo'}`}
+            title="Search a hand-drawn or imported weighted graph instead of the maze"
+          >
+            🕸️ Graph
+          </button>
         </div>
 
         <div className="toolbar-divider" />
@@ -135,15 +593,17 @@ const Controls: React.FC<ControlsProps> = ({
         {/* Legend */}
         <div className="toolbar-divider" />
         <div className="toolbar-group legend-group">
-          <span className="legend-item"><span className="legend-dot" style={{ background: '#f97316' }}></span>DFS</span>
-          <span className="legend-item"><span className="legend-dot" style={{ background: '#3b82f6' }}></span>BFS</span>
-          <span className="legend-item"><span className="legend-dot" style={{ background: '#22c55e' }}></span>A*</span>
+          {algorithms.map((algo) => (
+            <span key={algo.id} className="legend-item">
+              <span className="legend-dot" style={{ background: algo.color }}></span>{algo.name}
+            </span>
+          ))}
         </div>
       </div>
 
       {/* Edit Modal */}
       <Modal 
-        isOpen={showEditModal} 
+        isOpen={showEditModal && !graphMode} 
         onClose={() => setShowEditModal(false)}
         title="✏️ Edit Maze"
       >
@@ -182,9 +642,136 @@ const Controls: React.FC<ControlsProps> = ({
             >
               🎯 Set Goal Position
             </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.TOGGLE_START);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.TOGGLE_START ? 'btn-primary' : 'btn-secondary'}`}
+              title="BFS, Dijkstra and A* search from every start at once"
+            >
+              ➕ Add / Remove Extra Start
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.TOGGLE_GOAL);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.TOGGLE_GOAL ? 'btn-primary' : 'btn-secondary'}`}
+              title="BFS, Dijkstra and A* stop at the nearest goal"
+            >
+              ➕ Add / Remove Extra Goal
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.SET_WAYPOINT);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.SET_WAYPOINT ? 'btn-primary' : 'btn-secondary'}`}
+            >
+              📍 Add / Remove Waypoint ({waypointCount}/{MAX_WAYPOINTS})
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.PLACE_AGENT);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.PLACE_AGENT ? 'btn-primary' : 'btn-secondary'}`}
+              title="Click an agent's start, then its goal; click either to remove the agent"
+            >
+              👥 Place / Remove Agent ({mapfAgentCount}/{MAX_MAPF_AGENTS})
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.PLACE_OBSTACLE);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.PLACE_OBSTACLE ? 'btn-primary' : 'btn-secondary'}`}
+              title="Click cells to draw a looped route, then its first cell to close it; click a route to remove it"
+            >
+              🚧 Draw / Remove Moving Obstacle ({obstacleCount}/{MAX_MOVING_OBSTACLES})
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.PLACE_PORTAL);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.PLACE_PORTAL ? 'btn-primary' : 'btn-secondary'}`}
+              title="Click a portal, then the twin it links to; click either to remove the pair"
+            >
+              🌀 Place / Remove Portal Pair
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.PLACE_ONE_WAY);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.PLACE_ONE_WAY ? 'btn-primary' : 'btn-secondary'}`}
+              title="Each click turns the arrow: up, right, down, left, then back to floor"
+            >
+              ➡️ Cycle One-Way Cell
+            </button>
+
+            <button
+              onClick={() => {
+                onEditModeChange(EditMode.PLACE_KEY_DOOR);
+                setShowEditModal(false);
+              }}
+              className={`btn ${editMode === EditMode.PLACE_KEY_DOOR ? 'btn-primary' : 'btn-secondary'}`}
+              title="Click a key, then the door it opens; click either to remove the pair"
+            >
+              🔑 Place / Remove Key &amp; Door
+            </button>
+
+            {TERRAIN_OPTIONS.filter((option) => option.mode).map((option) => (
+              <button
+                key={option.terrain}
+                onClick={() => {
+                  onEditModeChange(option.mode!);
+                  setShowEditModal(false);
+                }}
+                className={`btn ${editMode === option.mode ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                {option.label} Terrain
+              </button>
+            ))}
           </div>
         </div>
 
+        <div className="settings-section">
+          <h3>Terrain Costs</h3>
+          <p style={{ color: '#9ca3af', fontSize: '0.875rem', marginBottom: '16px' }}>
+            Cost of stepping onto each terrain type
+          </p>
+          {TERRAIN_OPTIONS.map((option) => (
+            <div
+              key={option.terrain}
+              style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '8px' }}
+            >
+              <span style={{ color: '#d1d5db' }}>{option.label}</span>
+              <input
+                type="number"
+                min="0.1"
+                step="0.5"
+                value={terrainCosts[option.terrain]}
+                onChange={(e) => {
+                  const cost = Number(e.target.value);
+                  if (cost > 0) onTerrainCostChange(option.terrain, cost);
+                }}
+                disabled={isRunning}
+                style={{ width: '80px' }}
+              />
+            </div>
+          ))}
+        </div>
+
         <div className="settings-section">
           <h3>Current Mode</h3>
           <div style={{ 
@@ -199,8 +786,76 @@ const Controls: React.FC<ControlsProps> = ({
             {editMode === EditMode.TOGGLE_WALL && '🧱 Toggle Wall Mode'}
             {editMode === EditMode.SET_START && '🟢 Set Start Mode'}
             {editMode === EditMode.SET_GOAL && '🎯 Set Goal Mode'}
+            {editMode === EditMode.PLACE_AGENT && '👥 Place Agent Mode'}
+            {editMode === EditMode.PLACE_OBSTACLE && '🚧 Moving Obstacle Mode'}
+            {editMode === EditMode.PLACE_PORTAL && '🌀 Place Portal Mode'}
+            {editMode === EditMode.PLACE_ONE_WAY && '➡️ One-Way Cell Mode'}
+            {editMode === EditMode.PLACE_KEY_DOOR && '🔑 Place Key & Door Mode'}
+            {TERRAIN_OPTIONS.filter((option) => option.mode === editMode).map(
+              (option) => `${option.label} Terrain Mode`
+            )}
+          </div>
+        </div>
+      </Modal>
+
+      {/* Graph Edit Modal */}
+      <Modal
+        isOpen={showEditModal && graphMode}
+        onClose={() => setShowEditModal(false)}
+        title="✏️ Edit Graph"
+      >
+        <div className="settings-section">
+          <h3>Edit Mode</h3>
+          <p style={{ color: '#9ca3af', fontSize: '0.875rem', marginBottom: '16px' }}>
+            Select a mode, then click on the graph canvas to make changes
+          </p>
+          <div className="btn-group" style={{ flexDirection: 'column' }}>
+            {GRAPH_EDIT_OPTIONS.map((option) => (
+              <button
+                key={option.mode}
+                onClick={() => {
+                  onGraphEditModeChange(option.mode);
+                  setShowEditModal(false);
+                }}
+                className={`btn ${graphEditMode === option.mode ? 'btn-primary' : 'btn-secondary'}`}
+                title={option.title}
+              >
+                {option.label}
+              </button>
+            ))}
           </div>
         </div>
+
+        <div className="settings-section">
+          <h3>Edge List</h3>
+          <p style={{ color: '#9ca3af', fontSize: '0.875rem', marginBottom: '16px' }}>
+            One edge per line as <code>from to weight</code> (weight 1 if omitted); place a node
+            with <code>name @ x y</code> on the {GRAPH_WIDTH}×{GRAPH_HEIGHT} canvas, or leave it
+            to be laid out on a circle. Importing replaces the graph.
+          </p>
+          <textarea
+            value={edgeListText}
+            onChange={(e) => setEdgeListText(e.target.value)}
+            rows={10}
+            spellCheck={false}
+            style={{ width: '100%', fontFamily: 'monospace', boxSizing: 'border-box' }}
+          />
+          {importError && (
+            <p style={{ color: '#ef4444', fontSize: '0.875rem', marginTop: '8px' }}>{importError}</p>
+          )}
+          <button
+            onClick={() => {
+              const error = onImportEdgeList(edgeListText);
+              setImportError(error);
+              if (!error) setShowEditModal(false);
+            }}
+            disabled={isRunning}
+            className="btn btn-primary"
+            style={{ marginTop: '8px' }}
+          >
+            📥 Import Edge List
+          </button>
+        </div>
       </Modal>
     </>
   );
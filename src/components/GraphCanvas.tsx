@@ -0,0 +1,179 @@
+/**
+ * GraphCanvas component - Interactive general graph visualization
+ * Draws nodes and weighted edges on an SVG canvas, colored by the algorithms
+ * that explored each node, with the found path highlighted
+ */
+
+import React, { useRef } from 'react';
+import { Graph, GraphEditMode } from '../types/maze.types';
+import { getAlgorithmColor } from '../algorithms';
+import { edgeJoins, GRAPH_HEIGHT, GRAPH_WIDTH } from '../utils/graph';
+
+const NODE_RADIUS = 16;
+
+interface GraphCanvasProps {
+  graph: Graph;
+  start: string | null;
+  goal: string | null;
+  nodeExplorers: Map<string, string[]>;  // Algorithm ids that explored each node
+  path: string[];                        // Node ids of the path to highlight
+  pendingEdgeFrom: string | null;        // First node of the edge being drawn
+  editMode: GraphEditMode;
+  onCanvasClick: (x: number, y: number) => void;
+  onNodeClick: (id: string) => void;
+  onEdgeClick: (index: number) => void;
+  isRunning: boolean;
+}
+
+/**
+ * SVG path of a pie slice of a node, from one fraction of the turn to another
+ */
+function getSlicePath(x: number, y: number, from: number, to: number): string {
+  const point = (t: number) => {
+    const angle = 2 * Math.PI * t - Math.PI / 2;
+    return `${x + NODE_RADIUS * Math.cos(angle)} ${y + NODE_RADIUS * Math.sin(angle)}`;
+  };
+  return `M ${x} ${y} L ${point(from)} A ${NODE_RADIUS} ${NODE_RADIUS} 0 ${to - from > 0.5 ? 1 : 0} 1 ${point(to)} Z`;
+}
+
+const GraphCanvas: React.FC<GraphCanvasProps> = ({
+  graph,
+  start,
+  goal,
+  nodeExplorers,
+  path,
+  pendingEdgeFrom,
+  editMode,
+  onCanvasClick,
+  onNodeClick,
+  onEdgeClick,
+  isRunning,
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const isOnPath = (a: string, b: string) =>
+    path.some((id, i) => i > 0 && ((path[i - 1] === a && id === b) || (path[i - 1] === b && id === a)));
+
+  /**
+   * Map a click to canvas coordinates
+   */
+  const handleCanvasClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (isRunning || !svg || !matrix) return;
+    const point = new DOMPoint(e.clientX, e.clientY).matrixTransform(matrix.inverse());
+    onCanvasClick(Math.round(point.x), Math.round(point.y));
+  };
+
+  const cursor = isRunning ? 'not-allowed' : editMode === GraphEditMode.ADD_NODE ? 'crosshair' : 'default';
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+      onClick={handleCanvasClick}
+      style={{
+        width: 'min(100%, 1100px)',
+        border: '2px solid rgba(59, 130, 246, 0.3)',
+        borderRadius: '12px',
+        boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
+        background: '#0f0f0f',
+        cursor,
+      }}
+    >
+      {graph.edges.map((edge, index) => {
+        const from = nodes.get(edge.from)!;
+        const to = nodes.get(edge.to)!;
+        const onPath = isOnPath(edge.from, edge.to);
+        // Parallel edges share a line; later ones cover earlier ones
+        const isParallel = graph.edges.some((other, i) => i < index && edgeJoins(other, edge.from, edge.to));
+        return (
+          <g
+            key={`${edge.from}-${edge.to}-${index}`}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (!isRunning) onEdgeClick(index);
+            }}
+            style={{ cursor: isRunning ? 'not-allowed' : 'pointer' }}
+          >
+            {/* Wide transparent stroke makes thin edges easy to click */}
+            <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} stroke="transparent" strokeWidth={14} />
+            <line
+              x1={from.x}
+              y1={from.y}
+              x2={to.x}
+              y2={to.y}
+              stroke={onPath ? '#fbbf24' : 'rgba(148, 163, 184, 0.5)'}
+              strokeWidth={onPath ? 5 : 2}
+            />
+            <text
+              x={(from.x + to.x) / 2}
+              y={(from.y + to.y) / 2 - 6 - (isParallel ? 14 : 0)}
+              fill={onPath ? '#fbbf24' : '#9ca3af'}
+              fontSize={13}
+              textAnchor="middle"
+              style={{ userSelect: 'none' }}
+            >
+              {edge.weight}
+            </text>
+          </g>
+        );
+      })}
+
+      {graph.nodes.map((node) => {
+        const explorers = nodeExplorers.get(node.id) ?? [];
+        const fill = node.id === start
+          ? '#10b981'
+          : node.id === goal
+            ? '#ef4444'
+            : path.includes(node.id)
+              ? '#fbbf24'
+              : explorers.length === 1
+                ? getAlgorithmColor(explorers[0])
+                : '#1f2937';
+        // Several explorers (comparison mode) split the node into slices
+        const showSlices = explorers.length > 1 && fill === '#1f2937';
+        return (
+          <g
+            key={node.id}
+            onClick={(e) => {
+              e.stopPropagation();
+              if (!isRunning) onNodeClick(node.id);
+            }}
+            style={{ cursor: isRunning ? 'not-allowed' : 'pointer' }}
+          >
+            <circle
+              cx={node.x}
+              cy={node.y}
+              r={NODE_RADIUS}
+              fill={fill}
+              stroke={node.id === pendingEdgeFrom ? '#ffffff' : 'rgba(255, 255, 255, 0.25)'}
+              strokeWidth={node.id === pendingEdgeFrom ? 3 : 1.5}
+              strokeDasharray={node.id === pendingEdgeFrom ? '4 3' : undefined}
+            />
+            {showSlices && explorers.map((id, i) => (
+              <path
+                key={id}
+                d={getSlicePath(node.x, node.y, i / explorers.length, (i + 1) / explorers.length)}
+                fill={getAlgorithmColor(id)}
+              />
+            ))}
+            <text
+              x={node.x}
+              y={node.y + 5}
+              fill="#ffffff"
+              fontSize={14}
+              fontWeight={700}
+              textAnchor="middle"
+              style={{ userSelect: 'none', pointerEvents: 'none' }}
+            >
+              {node.id}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default GraphCanvas;
@@ -4,19 +4,134 @@
  */
 
 import React, { useEffect, useRef, useState } from 'react';
-import { CellType, CellState, EditMode } from '../types/maze.types';
+import {
+  CellType,
+  CellState,
+  EditMode,
+  FlowField,
+  MapfAgent,
+  MovingObstacle,
+  Position,
+  TerrainType,
+  Topology,
+} from '../types/maze.types';
+import { getAlgorithmColor, getAlgorithms, getObstacleCell, MAPF_AGENT_COLORS } from '../algorithms';
+import { isTerrain, TERRAIN_COLORS } from '../utils/terrain';
+import { CHANNEL_COLORS, getChannel, isDoor, isKey, isPortal, isSpecialCell } from '../utils/specialCells';
+
+// Arrow per flow direction, indexed by [row delta + 1][col delta + 1]
+const FLOW_ARROWS = [
+  ['↖', '↑', '↗'],
+  ['←', '', '→'],
+  ['↙', '↓', '↘'],
+];
+
+// Moving obstacles and their routes
+const OBSTACLE_COLOR = '#f43f5e';
+
+// HPA* cluster boundaries
+const CLUSTER_LINE_COLOR = 'rgba(226, 232, 240, 0.45)';
+
+// Dot marking a cell where the path turns
+const TURN_POINT_STYLE: React.CSSProperties = {
+  backgroundImage: 'radial-gradient(circle, #1f2937 22%, transparent 27%)',
+};
+
+// Pointy-top hexagon; hex rows overlap by a quarter of a cell's height
+const HEX_CLIP_PATH = 'polygon(50% 0, 100% 25%, 100% 75%, 50% 100%, 0 75%, 0 25%)';
+const HEX_HEIGHT = 2 / Math.sqrt(3);     // Cell height per unit of width
+const HEX_ROW_HEIGHT = HEX_HEIGHT * 0.75; // Row pitch per unit of width
+
+// Glyph per one-way cell, pointing the way it must be entered
+const ONE_WAY_ARROWS: Partial<Record<CellType, string>> = {
+  [CellType.ONE_WAY_UP]: '⇑',
+  [CellType.ONE_WAY_RIGHT]: '⇒',
+  [CellType.ONE_WAY_DOWN]: '⇓',
+  [CellType.ONE_WAY_LEFT]: '⇐',
+};
+
+/**
+ * Glyph drawn on a portal, one-way cell, key or door
+ */
+function getSpecialCellGlyph(type: CellType): string {
+  if (isPortal(type)) return '◎';
+  if (isKey(type)) return '⚷';
+  if (isDoor(type)) return '▥';
+  return ONE_WAY_ARROWS[type] ?? '';
+}
+
+/**
+ * Flow arrow for a step between neighbours, or '◎' for a step that lands far
+ * away (through a portal). Steps across a torus edge point the way they leave;
+ * hex rows are drawn offset, so arrows follow the drawn cell centers.
+ */
+function getFlowArrow(from: Position, to: Position, topology: Topology, rows: number, cols: number): string {
+  let rowDelta = to.row - from.row;
+  let colDelta = to.col - from.col;
+  if (topology === Topology.TORUS) {
+    if (Math.abs(rowDelta) === rows - 1) rowDelta = -Math.sign(rowDelta);
+    if (Math.abs(colDelta) === cols - 1) colDelta = -Math.sign(colDelta);
+  }
+  if (topology === Topology.HEX) {
+    colDelta += ((to.row & 1) - (from.row & 1)) / 2;
+  }
+  if (Math.abs(rowDelta) > 1 || Math.abs(colDelta) > 1) return '◎';
+  return FLOW_ARROWS[Math.sign(rowDelta) + 1][Math.sign(colDelta) + 1];
+}
+
+/**
+ * Heatmap color for a distance: red near the goal through to blue far away
+ */
+function getHeatColor(distance: number, maxDistance: number): string {
+  if (distance === Infinity) return '#18181b';
+  const t = maxDistance > 0 ? distance / maxDistance : 0;
+  return `hsl(${Math.round(240 * t)}, 70%, ${Math.round(45 - 15 * t)}%)`;
+}
 
 interface GridProps {
   grid: CellType[][];
   cellStates: CellState[][];
+  cellExplorers: Map<string, string[]>; // Algorithm ids per "row,col" in comparison mode
+  waypoints: Position[];                 // In placement order, numbered from 1
+  flowField: FlowField | null;           // Distance heatmap and arrows, when shown
+  topology: Topology;                    // Hex grids draw offset hexagons; torus grids a dashed frame
+  mapfAgents: MapfAgent[];               // Multi-agent starts and goals, numbered from 1
+  pendingAgentStart: Position | null;    // Start of the agent being placed, awaiting its goal
+  mapfPositions: Position[] | null;      // Where each agent stands during a multi-agent animation
+  movingObstacles: MovingObstacle[];
+  pendingObstacleRoute: Position[] | null; // Route of the obstacle being drawn, not yet closed
+  obstacleTime: number | null;           // Time step shown during a moving-obstacle animation (t = 0 otherwise)
+  turnPoints: Position[];                // Cells where the shown path changes heading (turn penalty runs)
+  polylines: { points: Position[]; color: string }[]; // Straight-segment paths drawn through cell centers
+  clusterOverlay: { clusterSize: number; nodes: Position[]; color: string } | null; // HPA* clusters and transitions
   onCellClick: (row: number, col: number) => void;
   editMode: EditMode;
   isRunning: boolean;
 }
 
-const Grid: React.FC<GridProps> = ({ grid, cellStates, onCellClick, editMode, isRunning }) => {
+const Grid: React.FC<GridProps> = ({
+  grid,
+  cellStates,
+  cellExplorers,
+  waypoints,
+  flowField,
+  topology,
+  mapfAgents,
+  pendingAgentStart,
+  mapfPositions,
+  movingObstacles,
+  pendingObstacleRoute,
+  obstacleTime,
+  turnPoints,
+  polylines,
+  clusterOverlay,
+  onCellClick,
+  editMode,
+  isRunning,
+}) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const [cellSize, setCellSize] = useState(18);
+  const isHex = topology === Topology.HEX;
 
   useEffect(() => {
     const calculateCellSize = () => {
@@ -33,8 +148,9 @@ const Grid: React.FC<GridProps> = ({ grid, cellStates, onCellClick, editMode, is
       const availableHeight = viewportHeight - 150;
       const availableWidth = Math.min(viewportWidth - 100, 1400); // Max width constraint
       
-      const rows = grid.length;
-      const cols = grid[0]?.length || 0;
+      // Hex rows overlap but are offset by half a cell
+      const rows = isHex ? (grid.length - 1) * HEX_ROW_HEIGHT + HEX_HEIGHT : grid.length;
+      const cols = (grid[0]?.length || 0) + (isHex ? 0.5 : 0);
 
       // Calculate the maximum cell size that fits
       const maxCellWidth = Math.floor(availableWidth / cols);
@@ -48,73 +164,152 @@ const Grid: React.FC<GridProps> = ({ grid, cellStates, onCellClick, editMode, is
     window.addEventListener('resize', calculateCellSize);
     
     return () => window.removeEventListener('resize', calculateCellSize);
-  }, [grid]);
+  }, [grid, isHex]);
 
   /**
    * Get cell styling based on type and state with better visibility for comparison
    */
-  const getCellStyle = (type: CellType, state: CellState): React.CSSProperties => {
+  const getCellStyle = (
+    type: CellType,
+    state: CellState,
+    explorers: string[],
+    distance?: number
+  ): React.CSSProperties => {
     const baseStyle: React.CSSProperties = {
       width: `${cellSize}px`,
       height: `${cellSize}px`,
       border: '0.5px solid rgba(255, 255, 255, 0.05)',
       cursor: getCursorStyle(),
       transition: 'all 0.15s cubic-bezier(0.4, 0, 0.2, 1)',
+      ...(isHex && {
+        height: `${cellSize * HEX_HEIGHT}px`,
+        lineHeight: `${cellSize * HEX_HEIGHT}px`,
+        clipPath: HEX_CLIP_PATH,
+        flexShrink: 0,
+      }),
     };
 
-    // Algorithm colors
-    const DFS_COLOR = '#f97316';  // Orange
-    const BFS_COLOR = '#3b82f6';  // Blue
-    const ASTAR_COLOR = '#22c55e'; // Green
+    // Fog-of-war agent: its position and the fog hide the cell type
+    if (state === CellState.AGENT) {
+      return {
+        ...baseStyle,
+        background: 'radial-gradient(circle, #f8fafc 40%, #38bdf8 45%)',
+        boxShadow: '0 0 10px rgba(56, 189, 248, 0.9)',
+      };
+    }
+    if (state === CellState.UNKNOWN && type !== CellType.START && type !== CellType.GOAL) {
+      return { ...baseStyle, backgroundColor: '#0b0f17' };
+    }
 
     // Cell type takes precedence
     if (type === CellType.WALL) return { ...baseStyle, backgroundColor: '#111111' };
     if (type === CellType.START) return { ...baseStyle, backgroundColor: '#10b981', boxShadow: '0 0 8px rgba(16, 185, 129, 0.6)' };
     if (type === CellType.GOAL) return { ...baseStyle, backgroundColor: '#ef4444', boxShadow: '0 0 8px rgba(239, 68, 68, 0.6)' };
+    if (type === CellType.WAYPOINT) {
+      return {
+        ...baseStyle,
+        backgroundColor: '#8b5cf6',
+        boxShadow: '0 0 8px rgba(139, 92, 246, 0.6)',
+        color: '#ffffff',
+        fontSize: `${Math.max(8, cellSize * 0.55)}px`,
+        fontWeight: 700,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      };
+    }
+
+    // Special cells show a glyph in their channel color; a door is a solid block
+    if (isSpecialCell(type)) {
+      const channel = getChannel(type);
+      const color = channel === -1 ? '#e5e7eb' : CHANNEL_COLORS[channel];
+      const glyph: React.CSSProperties = {
+        color,
+        fontSize: `${Math.max(8, cellSize * 0.6)}px`,
+        fontWeight: 700,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      };
+      if (isDoor(type)) {
+        return { ...baseStyle, ...glyph, backgroundColor: color, color: '#111111' };
+      }
+      if (state === CellState.UNEXPLORED || state === CellState.SENSED) {
+        return { ...baseStyle, ...glyph, backgroundColor: '#1f2937', boxShadow: `inset 0 0 0 2px ${color}` };
+      }
+      return { ...getCellStyle(CellType.FREE, state, explorers), ...glyph, boxShadow: `inset 0 0 0 2px ${color}` };
+    }
+
+    // Flow field heatmap replaces the plain floor; terrain keeps an outline
+    if (flowField && distance !== undefined && state === CellState.UNEXPLORED) {
+      return {
+        ...baseStyle,
+        backgroundColor: getHeatColor(distance, flowField.maxDistance),
+        boxShadow: isTerrain(type) ? `inset 0 0 0 2px ${TERRAIN_COLORS[type as TerrainType]}` : undefined,
+        color: 'rgba(255, 255, 255, 0.75)',
+        fontSize: `${Math.max(8, cellSize * 0.6)}px`,
+        lineHeight: baseStyle.lineHeight ?? `${cellSize}px`,
+        textAlign: 'center',
+      };
+    }
+
+    // Terrain shows as a fill when unexplored and as an inset outline once searched
+    if (isTerrain(type)) {
+      const terrainColor = TERRAIN_COLORS[type as TerrainType];
+      if (state === CellState.UNEXPLORED || state === CellState.SENSED) {
+        return { ...baseStyle, backgroundColor: terrainColor };
+      }
+      return { ...getCellStyle(CellType.FREE, state, explorers), boxShadow: `inset 0 0 0 2px ${terrainColor}` };
+    }
 
     // Then check state - solid colors for single algorithms, gradients for combinations
     switch (state) {
       case CellState.FRONTIER:
         return { ...baseStyle, backgroundColor: '#60a5fa' };
       
-      // Single algorithm - solid colors
-      case CellState.DFS_EXPLORED:
-        return { ...baseStyle, backgroundColor: DFS_COLOR };
-      case CellState.BFS_EXPLORED:
-        return { ...baseStyle, backgroundColor: BFS_COLOR };
-      case CellState.ASTAR_EXPLORED:
-        return { ...baseStyle, backgroundColor: ASTAR_COLOR };
+      // Comparison mode - one color per algorithm that explored this cell
+      case CellState.COMPARED:
+        return { ...baseStyle, background: getExplorerBackground(explorers) };
       
-      // Two algorithms - gradient of those two colors
-      case CellState.DFS_BFS_EXPLORED:
-        return { 
-          ...baseStyle, 
-          background: `linear-gradient(135deg, ${DFS_COLOR} 0%, ${BFS_COLOR} 100%)`,
-        };
-      case CellState.DFS_ASTAR_EXPLORED:
-        return { 
-          ...baseStyle, 
-          background: `linear-gradient(135deg, ${DFS_COLOR} 0%, ${ASTAR_COLOR} 100%)`,
+      // Bidirectional frontiers
+      case CellState.FORWARD_EXPLORED:
+        return { ...baseStyle, backgroundColor: '#14b8a6' };
+      case CellState.BACKWARD_EXPLORED:
+        return { ...baseStyle, backgroundColor: '#ec4899' };
+      case CellState.MEETING:
+        return {
+          ...baseStyle,
+          backgroundColor: '#ffffff',
+          boxShadow: '0 0 10px rgba(255, 255, 255, 0.9)',
         };
-      case CellState.BFS_ASTAR_EXPLORED:
-        return { 
-          ...baseStyle, 
-          background: `linear-gradient(135deg, ${BFS_COLOR} 0%, ${ASTAR_COLOR} 100%)`,
+      
+      // Jump Point Search
+      case CellState.SCANNED:
+        return { ...baseStyle, backgroundColor: 'rgba(234, 179, 8, 0.25)' };
+      case CellState.JUMP_POINT:
+        return {
+          ...baseStyle,
+          backgroundColor: '#eab308',
+          boxShadow: 'inset 0 0 0 2px rgba(0, 0, 0, 0.35)',
         };
       
-      // All three algorithms - gradient with all three colors
-      case CellState.ALL_EXPLORED:
-        return { 
-          ...baseStyle, 
-          background: `linear-gradient(135deg, ${DFS_COLOR} 0%, ${BFS_COLOR} 50%, ${ASTAR_COLOR} 100%)`,
+      // Fog-of-war agent
+      case CellState.TRAVERSED:
+        return { ...baseStyle, backgroundColor: '#38bdf8' };
+      case CellState.SENSED:
+        return { ...baseStyle, backgroundColor: '#1f2937' };
+      
+      // Multi-agent conflict being resolved
+      case CellState.CONFLICT:
+        return {
+          ...baseStyle,
+          backgroundColor: '#dc2626',
+          boxShadow: '0 0 10px rgba(220, 38, 38, 0.9)',
         };
       
-      // Generic explored (fallback)
+      // Generic explored (single run)
       case CellState.EXPLORED:
-        return { 
-          ...baseStyle, 
-          background: `linear-gradient(135deg, ${DFS_COLOR} 0%, ${BFS_COLOR} 50%, ${ASTAR_COLOR} 100%)`,
-        };
+        return { ...baseStyle, background: getExplorerBackground([]) };
       
       case CellState.PATH:
         return { 
@@ -129,6 +324,89 @@ const Grid: React.FC<GridProps> = ({ grid, cellStates, onCellClick, editMode, is
     }
   };
 
+  /**
+   * Multi-agent overlay for a cell: a moving agent as a disc, otherwise its
+   * start as a solid ring and its goal as a dashed one, numbered in its color
+   */
+  const getAgentOverlay = (row: number, col: number): { style: React.CSSProperties; label: string } | null => {
+    const isHere = (pos: Position | null) => pos !== null && pos.row === row && pos.col === col;
+    const numbered: React.CSSProperties = {
+      color: '#ffffff',
+      fontSize: `${Math.max(8, cellSize * 0.55)}px`,
+      fontWeight: 700,
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+    };
+
+    const moving = mapfPositions?.findIndex(isHere) ?? -1;
+    if (moving !== -1) {
+      const color = MAPF_AGENT_COLORS[moving];
+      return {
+        style: {
+          ...numbered,
+          backgroundImage: `radial-gradient(circle, ${color} 55%, transparent 60%)`,
+          boxShadow: `0 0 8px ${color}`,
+        },
+        label: `${moving + 1}`,
+      };
+    }
+
+    const startOf = isHere(pendingAgentStart)
+      ? mapfAgents.length
+      : mapfAgents.findIndex((agent) => isHere(agent.start));
+    if (startOf !== -1) {
+      const color = MAPF_AGENT_COLORS[startOf];
+      return { style: { ...numbered, boxShadow: `inset 0 0 0 2px ${color}`, color }, label: `${startOf + 1}` };
+    }
+
+    const goalOf = mapfAgents.findIndex((agent) => isHere(agent.goal));
+    if (goalOf !== -1) {
+      const color = MAPF_AGENT_COLORS[goalOf];
+      return {
+        style: { ...numbered, outline: `2px dashed ${color}`, outlineOffset: '-2px', color },
+        label: `${goalOf + 1}`,
+      };
+    }
+
+    return null;
+  };
+
+  /**
+   * Moving-obstacle overlay for a cell: an obstacle as a disc, the route being
+   * drawn as a bold dashed outline, other routes as a faint one
+   */
+  const getObstacleOverlay = (row: number, col: number): React.CSSProperties | null => {
+    const isHere = (pos: Position) => pos.row === row && pos.col === col;
+
+    if (movingObstacles.some((obstacle) => isHere(getObstacleCell(obstacle, obstacleTime ?? 0)))) {
+      return {
+        backgroundImage: `radial-gradient(circle, ${OBSTACLE_COLOR} 50%, transparent 55%)`,
+        boxShadow: `0 0 8px ${OBSTACLE_COLOR}`,
+      };
+    }
+    if (pendingObstacleRoute?.some(isHere)) {
+      return { outline: `2px dashed ${OBSTACLE_COLOR}`, outlineOffset: '-2px' };
+    }
+    if (movingObstacles.some((obstacle) => obstacle.route.some(isHere))) {
+      return { outline: '1px dashed rgba(244, 63, 94, 0.6)', outlineOffset: '-1px' };
+    }
+    return null;
+  };
+
+  /**
+   * Solid color for a single explorer, diagonal gradient for several.
+   * With no explorers, blends every registered algorithm color.
+   */
+  const getExplorerBackground = (explorers: string[]): string => {
+    const colors = (explorers.length > 0 ? explorers : getAlgorithms().map((a) => a.id))
+      .map(getAlgorithmColor);
+    if (colors.length === 1) return colors[0];
+
+    const stops = colors.map((color, i) => `${color} ${(i / (colors.length - 1)) * 100}%`);
+    return `linear-gradient(135deg, ${stops.join(', ')})`;
+  };
+
   /**
    * Get cursor style based on edit mode
    */
@@ -137,52 +415,151 @@ const Grid: React.FC<GridProps> = ({ grid, cellStates, onCellClick, editMode, is
     
     switch (editMode) {
       case EditMode.TOGGLE_WALL:
+      case EditMode.PLACE_ONE_WAY:
         return 'pointer';
       case EditMode.SET_START:
         return 'crosshair';
       case EditMode.SET_GOAL:
+      case EditMode.SET_WAYPOINT:
+      case EditMode.TOGGLE_START:
+      case EditMode.TOGGLE_GOAL:
+      case EditMode.PLACE_AGENT:
+      case EditMode.PLACE_PORTAL:
+      case EditMode.PLACE_KEY_DOOR:
+      case EditMode.PLACE_OBSTACLE:
         return 'crosshair';
+      case EditMode.PAINT_ROAD:
+      case EditMode.PAINT_MUD:
+      case EditMode.PAINT_WATER:
+        return 'cell';
       default:
         return 'default';
     }
   };
 
+  // Overlay drawing space: cell centers, and the size of the drawn cells
+  const rowPitch = isHex ? cellSize * HEX_ROW_HEIGHT : cellSize;
+  const getCellCenter = ({ row, col }: Position) => ({
+    x: (col + 0.5 + (isHex && row % 2 === 1 ? 0.5 : 0)) * cellSize,
+    y: row * rowPitch + (isHex ? cellSize * HEX_HEIGHT : cellSize) / 2,
+  });
+  const overlayWidth = (grid[0].length + (isHex ? 0.5 : 0)) * cellSize;
+  const overlayHeight = (grid.length - 1) * rowPitch + (isHex ? cellSize * HEX_HEIGHT : cellSize);
+
   return (
     <div
       ref={containerRef}
       style={{
         display: 'inline-block',
-        border: '2px solid rgba(59, 130, 246, 0.3)',
+        position: 'relative',
+        border: `2px ${topology === Topology.TORUS ? 'dashed' : 'solid'} rgba(59, 130, 246, 0.3)`,
         borderRadius: '12px',
         overflow: 'hidden',
         boxShadow: '0 8px 32px rgba(0, 0, 0, 0.4)',
         background: '#0f0f0f',
         padding: '4px',
+        // The last hex row overhangs its row box
+        paddingBottom: isHex ? `${4 + cellSize * (HEX_HEIGHT - HEX_ROW_HEIGHT)}px` : '4px',
       }}
+      title={topology === Topology.TORUS ? 'Edges wrap around' : undefined}
     >
       {grid.map((row, rowIndex) => (
         <div
           key={rowIndex}
           style={{
             display: 'flex',
-            height: `${cellSize}px`,
+            height: `${isHex ? cellSize * HEX_ROW_HEIGHT : cellSize}px`,
+            marginLeft: isHex && rowIndex % 2 === 1 ? `${cellSize / 2}px` : undefined,
           }}
         >
           {row.map((cell, colIndex) => {
             const state = cellStates[rowIndex][colIndex];
-            const style = getCellStyle(cell, state);
+            const explorers = cellExplorers.get(`${rowIndex},${colIndex}`) ?? [];
+            const distance = flowField?.distances[rowIndex][colIndex];
+            const agentOverlay = getAgentOverlay(rowIndex, colIndex);
+            const isTurnPoint = turnPoints.some((pos) => pos.row === rowIndex && pos.col === colIndex);
+            const style = {
+              ...getCellStyle(cell, state, explorers, distance),
+              ...(isTurnPoint && TURN_POINT_STYLE),
+              ...getObstacleOverlay(rowIndex, colIndex),
+              ...agentOverlay?.style,
+            };
+            const step = flowField?.next[rowIndex][colIndex];
+            const arrow = step && state === CellState.UNEXPLORED && cellSize >= 12
+              ? getFlowArrow({ row: rowIndex, col: colIndex }, step, topology, grid.length, row.length)
+              : '';
+            const waypointNumber = cell === CellType.WAYPOINT
+              ? waypoints.findIndex((pos) => pos.row === rowIndex && pos.col === colIndex) + 1
+              : 0;
             
             return (
               <div
                 key={`${rowIndex}-${colIndex}`}
                 onClick={() => !isRunning && onCellClick(rowIndex, colIndex)}
                 style={style}
-                title={`(${rowIndex}, ${colIndex}) - ${cell} - ${state}`}
-              />
+                title={`(${rowIndex}, ${colIndex}) - ${cell} - ${state}${
+                  distance !== undefined && distance < Infinity ? ` - ${Number(distance.toFixed(2))} to goal` : ''
+                }`}
+              >
+                {agentOverlay
+                  ? agentOverlay.label
+                  : waypointNumber > 0
+                    ? waypointNumber
+                    : getSpecialCellGlyph(cell) || arrow}
+              </div>
             );
           })}
         </div>
       ))}
+      {(polylines.length > 0 || clusterOverlay) && (
+        <svg
+          width={overlayWidth}
+          height={overlayHeight}
+          style={{ position: 'absolute', top: '4px', left: '4px', pointerEvents: 'none' }}
+        >
+          {clusterOverlay && (
+            <g stroke={CLUSTER_LINE_COLOR} strokeWidth={1.5} strokeDasharray="4 3">
+              {Array.from({ length: Math.ceil(grid.length / clusterOverlay.clusterSize) - 1 }, (_, i) => {
+                const y = (i + 1) * clusterOverlay.clusterSize * rowPitch;
+                return <line key={`r${i}`} x1={0} y1={y} x2={overlayWidth} y2={y} />;
+              })}
+              {Array.from({ length: Math.ceil(grid[0].length / clusterOverlay.clusterSize) - 1 }, (_, i) => {
+                const x = (i + 1) * clusterOverlay.clusterSize * cellSize;
+                return <line key={`c${i}`} x1={x} y1={0} x2={x} y2={overlayHeight} />;
+              })}
+            </g>
+          )}
+          {clusterOverlay?.nodes.map((node) => {
+            const { x, y } = getCellCenter(node);
+            return (
+              <circle
+                key={`${node.row},${node.col}`}
+                cx={x}
+                cy={y}
+                r={Math.max(2, cellSize / 5)}
+                fill={clusterOverlay.color}
+                stroke="#0f0f0f"
+                strokeWidth={1}
+              />
+            );
+          })}
+          {polylines.map(({ points, color }, i) => (
+            <polyline
+              key={i}
+              points={points.map((point) => {
+                const { x, y } = getCellCenter(point);
+                return `${x},${y}`;
+              }).join(' ')}
+              fill="none"
+              stroke={color}
+              strokeWidth={Math.max(2, cellSize / 6)}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              opacity={0.9}
+            />
+          ))}
+        </svg>
+      )}
     </div>
   );
 };
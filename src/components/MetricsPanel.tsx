@@ -4,20 +4,28 @@
 
 import React from 'react';
 import { AlgorithmResult } from '../types/maze.types';
+import { getAlgorithm, getAlgorithmColor, MAPF_AGENT_COLORS } from '../algorithms';
+
+/**
+ * Format a path cost (terrain costs may be fractional)
+ */
+const formatCost = (cost: number): string =>
+  cost.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+/**
+ * Describe node expansions relative to a baseline run (e.g. "62% fewer")
+ */
+const formatSavings = (nodes: number, baseline: number): string => {
+  const change = (1 - nodes / baseline) * 100;
+  return change >= 0 ? `${change.toFixed(0)}% fewer` : `${(-change).toFixed(0)}% more`;
+};
 
 interface MetricsPanelProps {
-  results: AlgorithmResult[];
+  results: AlgorithmResult<unknown>[]; // Maze or graph-mode runs (only the metrics are read)
   showAnalysis?: boolean;
   metricsOnly?: boolean;
 }
 
-// Algorithm color mapping for consistent visual identity
-const algorithmColors: Record<string, string> = {
-  'DFS': '#f97316',
-  'BFS': '#3b82f6',
-  'A*': '#22c55e',
-};
-
 const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = true, metricsOnly = true }) => {
   if (results.length === 0) {
     return (
@@ -55,14 +63,22 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
     
     const optimalResults = successfulResults.filter(r => r.isOptimal);
     const shortestPath = Math.min(...successfulResults.map(r => r.pathLength));
-    const longestPath = Math.max(...successfulResults.map(r => r.pathLength));
+    const cheapestCost = Math.min(...successfulResults.map(r => r.pathCost));
+    const costliestCost = Math.max(...successfulResults.map(r => r.pathCost));
+    const costliestResult = successfulResults.find(r => r.pathCost === costliestCost);
+
+    // Optimal on uniform grids but blind to step costs (e.g. BFS on a weighted map)
+    const terrainBlindResults = successfulResults.filter(r => {
+      const algorithm = getAlgorithm(r.algorithmId);
+      return algorithm?.isOptimal && !algorithm.usesTerrainCosts && !r.isOptimal;
+    });
     
     const fastestTime = Math.min(...successfulResults.map(r => r.timeTaken));
     const slowestTime = Math.max(...successfulResults.map(r => r.timeTaken));
     const fastestAlgo = successfulResults.find(r => r.timeTaken === fastestTime);
 
     // Calculate efficiency ratio (nodes expanded vs path length)
-    const getEfficiencyRatio = (r: AlgorithmResult) => r.pathLength > 0 ? r.nodesExpanded / r.pathLength : Infinity;
+    const getEfficiencyRatio = (r: AlgorithmResult<unknown>) => r.pathLength > 0 ? r.nodesExpanded / r.pathLength : Infinity;
     const efficiencyRatios = successfulResults.map(r => ({ name: r.algorithmName, ratio: getEfficiencyRatio(r) }));
     efficiencyRatios.sort((a, b) => a.ratio - b.ratio);
 
@@ -82,7 +98,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               <div style={{ fontSize: '0.7rem', color: '#9ca3af', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '6px' }}>
                 ⚡ Fastest to Goal
               </div>
-              <div style={{ fontSize: '1.3rem', fontWeight: 700, color: algorithmColors[fastestAlgo?.algorithmName || 'A*'] }}>
+              <div style={{ fontSize: '1.3rem', fontWeight: 700, color: getAlgorithmColor(fastestAlgo?.algorithmId ?? '') }}>
                 {fastestAlgo?.algorithmName}
               </div>
               <div style={{ fontSize: '0.85rem', color: '#d1d5db', marginTop: '4px' }}>
@@ -100,7 +116,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               <div style={{ fontSize: '0.7rem', color: '#9ca3af', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '6px' }}>
                 🎯 Most Efficient
               </div>
-              <div style={{ fontSize: '1.3rem', fontWeight: 700, color: algorithmColors[mostEfficient?.algorithmName || 'DFS'] }}>
+              <div style={{ fontSize: '1.3rem', fontWeight: 700, color: getAlgorithmColor(mostEfficient?.algorithmId ?? '') }}>
                 {mostEfficient?.algorithmName}
               </div>
               <div style={{ fontSize: '0.85rem', color: '#d1d5db', marginTop: '4px' }}>
@@ -116,13 +132,13 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               border: '1px solid rgba(59, 130, 246, 0.3)'
             }}>
               <div style={{ fontSize: '0.7rem', color: '#9ca3af', textTransform: 'uppercase', letterSpacing: '0.05em', marginBottom: '6px' }}>
-                📏 Shortest Path
+                📏 Cheapest Path
               </div>
               <div style={{ fontSize: '1.3rem', fontWeight: 700, color: '#3b82f6' }}>
-                {shortestPath} steps
+                {formatCost(cheapestCost)} cost
               </div>
               <div style={{ fontSize: '0.85rem', color: '#d1d5db', marginTop: '4px' }}>
-                by {successfulResults.filter(r => r.pathLength === shortestPath).map(r => r.algorithmName).join(', ')}
+                by {successfulResults.filter(r => r.pathCost === cheapestCost).map(r => r.algorithmName).join(', ')}
               </div>
             </div>
           </div>
@@ -141,7 +157,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               {/* Header */}
               <div style={{ 
                 display: 'grid', 
-                gridTemplateColumns: '80px 1fr 1fr 1fr 1fr', 
+                gridTemplateColumns: '80px 1fr 1fr 1fr 1fr 1fr', 
                 gap: '8px', 
                 padding: '12px 16px',
                 background: 'rgba(255, 255, 255, 0.03)',
@@ -155,6 +171,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
                 <div>Time</div>
                 <div>Nodes</div>
                 <div>Path</div>
+                <div>Cost</div>
                 <div>Efficiency</div>
               </div>
               {/* Rows */}
@@ -166,13 +183,13 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
                 return (
                   <div key={idx} style={{ 
                     display: 'grid', 
-                    gridTemplateColumns: '80px 1fr 1fr 1fr 1fr', 
+                    gridTemplateColumns: '80px 1fr 1fr 1fr 1fr 1fr', 
                     gap: '8px', 
                     padding: '12px 16px',
                     borderTop: '1px solid rgba(255, 255, 255, 0.05)',
                     fontSize: '0.85rem'
                   }}>
-                    <div style={{ fontWeight: 700, color: algorithmColors[result.algorithmName] }}>
+                    <div style={{ fontWeight: 700, color: getAlgorithmColor(result.algorithmId) }}>
                       {result.algorithmName}
                     </div>
                     <div style={{ color: result.timeTaken === fastestTime ? '#22c55e' : '#d1d5db' }}>
@@ -199,6 +216,14 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
                         </span>
                       )}
                     </div>
+                    <div style={{ color: result.pathCost === cheapestCost ? '#22c55e' : '#f59e0b' }}>
+                      {formatCost(result.pathCost)}
+                      {result.pathCost !== cheapestCost && (
+                        <span style={{ fontSize: '0.7rem', color: '#ef4444', marginLeft: '4px' }}>
+                          +{formatCost(result.pathCost - cheapestCost)}
+                        </span>
+                      )}
+                    </div>
                     <div style={{ color: efficiency === efficiencyRatios[0].ratio ? '#22c55e' : '#9ca3af' }}>
                       {efficiency.toFixed(1)}x
                     </div>
@@ -216,10 +241,10 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
             <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
               {successfulResults.map((result) => {
                 const percentage = (result.nodesExpanded / maxNodes) * 100;
-                const color = algorithmColors[result.algorithmName] || '#3b82f6';
+                const color = getAlgorithmColor(result.algorithmId);
                 
                 return (
-                  <div key={result.algorithmName} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+                  <div key={result.algorithmId} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
                     <span style={{ minWidth: '40px', fontWeight: 700, color, fontSize: '0.85rem' }}>
                       {result.algorithmName}
                     </span>
@@ -263,14 +288,19 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               Key Insights
             </p>
             <ul className="insight-list">
-              {mostEfficient?.algorithmName === 'A*' && (
+              {mostEfficient && minNodes !== maxNodes && (
+                <li>
+                  <strong style={{ color: getAlgorithmColor(mostEfficient.algorithmId) }}>{mostEfficient.algorithmName}</strong> was most efficient, exploring {((1 - minNodes/maxNodes) * 100).toFixed(0)}% fewer nodes than {leastEfficient?.algorithmName}
+                </li>
+              )}
+              {costliestResult && cheapestCost !== costliestCost && (
                 <li>
-                  <strong style={{ color: '#22c55e' }}>A*</strong> was most efficient, exploring {((1 - minNodes/maxNodes) * 100).toFixed(0)}% fewer nodes than {leastEfficient?.algorithmName}
+                  <strong style={{ color: getAlgorithmColor(costliestResult.algorithmId) }}>{costliestResult.algorithmName}</strong> found a path costing {formatCost(costliestCost - cheapestCost)} more than the optimal
                 </li>
               )}
-              {shortestPath !== longestPath && (
+              {terrainBlindResults.length > 0 && (
                 <li>
-                  <strong style={{ color: '#f97316' }}>DFS</strong> found a path {longestPath - shortestPath} steps longer than the optimal
+                  <strong style={{ color: '#ef4444' }}>{terrainBlindResults.map(r => r.algorithmName).join(' & ')}</strong> {terrainBlindResults.length === 1 ? 'assumes' : 'assume'} uniform step costs and {terrainBlindResults.length === 1 ? 'is' : 'are'} not optimal here
                 </li>
               )}
               {optimalResults.length > 0 && (
@@ -293,7 +323,7 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
       <h2 className="metrics-header">Metrics</h2>
       
       {results.map((result, index) => {
-        const color = algorithmColors[result.algorithmName] || '#3b82f6';
+        const color = getAlgorithmColor(result.algorithmId);
         
         return (
           <div 
@@ -303,16 +333,24 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
           >
             <div className="metric-card-header">
               <h3 className="metric-card-title" style={{ color }}>
-                {result.algorithmName === 'DFS' && '🔴'} 
-                {result.algorithmName === 'BFS' && '🔵'} 
-                {result.algorithmName === 'A*' && '🟢'} 
+                {getAlgorithm(result.algorithmId)?.icon}
                 {' '}{result.algorithmName}
               </h3>
               <span className={`metric-badge ${result.isOptimal ? 'badge-optimal' : 'badge-suboptimal'}`}>
-                {result.isOptimal ? '✓ Optimal' : '⚠ Sub-optimal'}
+                {result.isOptimal
+                  ? '✓ Optimal'
+                  : result.suboptimalityBound !== undefined && isFinite(result.suboptimalityBound)
+                    ? `≤ ${result.suboptimalityBound}× Optimal`
+                    : '⚠ Sub-optimal'}
               </span>
             </div>
             
+            {result.warnings?.map((warning) => (
+              <div key={warning} className="metric-warning">
+                ⚠ {warning}
+              </div>
+            ))}
+            
             <div className="metric-grid">
               <div className="metric-item">
                 <div className="metric-label">Path Found</div>
@@ -329,19 +367,272 @@ const MetricsPanel: React.FC<MetricsPanelProps> = ({ results, showAnalysis = tru
               </div>
               
               <div className="metric-item">
-                <div className="metric-label">Path Length</div>
+                <div className="metric-label">{result.agentPaths ? 'Makespan' : 'Path Length'}</div>
                 <div className="metric-value">
                   {result.pathLength > 0 ? result.pathLength.toLocaleString() : 'N/A'}
                 </div>
               </div>
               
+              {result.turns !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Turns</div>
+                  <div className="metric-value">
+                    {result.turns.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.euclideanLength !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Euclidean Length</div>
+                  <div className="metric-value">
+                    {result.euclideanLength.toFixed(2)}
+                  </div>
+                </div>
+              )}
+              
+              {result.smoothedLength !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Smoothed Length</div>
+                  <div className="metric-value">
+                    {result.smoothedLength.toFixed(2)}
+                  </div>
+                </div>
+              )}
+              
+              <div className="metric-item">
+                <div className="metric-label">
+                  {result.agentTimeline ? 'Distance Traveled' : result.agentPaths ? 'Sum of Costs' : 'Path Cost'}
+                </div>
+                <div className="metric-value">
+                  {result.found ? formatCost(result.pathCost) : 'N/A'}
+                </div>
+              </div>
+              
               <div className="metric-item">
                 <div className="metric-label">Time</div>
                 <div className="metric-value" style={{ color }}>
                   {(result.timeTaken / 1000).toFixed(2)}s
                 </div>
               </div>
+              
+              {result.nodesExpandedForward !== undefined && result.nodesExpandedBackward !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Forward / Backward</div>
+                  <div className="metric-value">
+                    <span style={{ color: '#14b8a6' }}>{result.nodesExpandedForward.toLocaleString()}</span>
+                    {' / '}
+                    <span style={{ color: '#ec4899' }}>{result.nodesExpandedBackward.toLocaleString()}</span>
+                  </div>
+                </div>
+              )}
+              
+              {result.scannedCells && (
+                <div className="metric-item">
+                  <div className="metric-label">Cells Scanned</div>
+                  <div className="metric-value">
+                    {result.scannedCells.reduce((total, cells) => total + cells.length, 0).toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.iterations !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Iterations</div>
+                  <div className="metric-value">
+                    {result.iterations.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.reExpansions !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Re-expansions</div>
+                  <div className="metric-value">
+                    {result.reExpansions.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.suboptimalityBound !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Guaranteed Bound</div>
+                  <div className="metric-value">
+                    {isFinite(result.suboptimalityBound) ? `≤ ${result.suboptimalityBound}×` : 'None'}
+                  </div>
+                </div>
+              )}
+              
+              {result.preprocessing && (
+                <div className="metric-item">
+                  <div className="metric-label">{result.preprocessing.label} Preprocessing</div>
+                  <div className="metric-value">
+                    {result.preprocessing.nodesExpanded.toLocaleString()} nodes · {result.preprocessing.timeTaken.toFixed(1)}ms
+                    {result.preprocessing.reused && ' · reused'}
+                  </div>
+                </div>
+              )}
+              
+              {result.abstractNodes && result.clusterCount !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Abstract Graph</div>
+                  <div className="metric-value">
+                    {result.abstractNodes.length.toLocaleString()} transitions · {result.clusterCount} clusters of {result.clusterSize}×{result.clusterSize}
+                  </div>
+                </div>
+              )}
+              
+              {result.connectedStart && result.connectedGoal && (
+                <div className="metric-item">
+                  <div className="metric-label">Connected Pair</div>
+                  <div className="metric-value">
+                    ({result.connectedStart.row}, {result.connectedStart.col})
+                    {' → '}
+                    ({result.connectedGoal.row}, {result.connectedGoal.col})
+                  </div>
+                </div>
+              )}
+              
+              {result.agentReplans !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Replans (sight {result.sensingRadius})</div>
+                  <div className="metric-value">
+                    {result.agentReplans.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.agentTimeline && result.optimalCost !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Omniscient Optimal</div>
+                  <div className="metric-value">
+                    {formatCost(result.optimalCost)}
+                  </div>
+                </div>
+              )}
+              
+              {result.optimalCost !== undefined && result.optimalCost > 0 && (
+                <div className="metric-item">
+                  <div className="metric-label">Cost vs Optimal</div>
+                  <div className={`metric-value ${result.pathCost <= result.optimalCost + 1e-9 ? 'metric-value-success' : 'metric-value-danger'}`}>
+                    {(result.pathCost / result.optimalCost).toFixed(3)}×
+                  </div>
+                </div>
+              )}
+              
+              {result.replanCount !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Replan</div>
+                  <div className="metric-value">
+                    {result.replanCount === 0
+                      ? 'Initial plan'
+                      : `#${result.replanCount} (${result.changedCells ?? 0} cell edited)`}
+                  </div>
+                </div>
+              )}
+              
+              {result.peakMemory !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Peak Memory</div>
+                  <div className="metric-value">
+                    {result.peakMemory.toLocaleString()} nodes
+                  </div>
+                </div>
+              )}
+              
+              {result.baseline && result.baseline.nodesExpanded > 0 && (
+                <div className="metric-item">
+                  <div className="metric-label">Work vs {result.baseline.algorithmName}</div>
+                  <div className={`metric-value ${result.nodesExpanded <= result.baseline.nodesExpanded ? 'metric-value-success' : 'metric-value-danger'}`}>
+                    {formatSavings(result.nodesExpanded, result.baseline.nodesExpanded)}
+                  </div>
+                </div>
+              )}
+              
+              {result.baseline?.peakMemory !== undefined && result.peakMemory !== undefined && result.baseline.peakMemory > 0 && (
+                <div className="metric-item">
+                  <div className="metric-label">Memory vs {result.baseline.algorithmName}</div>
+                  <div className={`metric-value ${result.peakMemory <= result.baseline.peakMemory ? 'metric-value-success' : 'metric-value-danger'}`}>
+                    {formatSavings(result.peakMemory, result.baseline.peakMemory)}
+                  </div>
+                </div>
+              )}
+              
+              {result.highLevelNodes !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">High-Level Nodes</div>
+                  <div className="metric-value">
+                    {result.highLevelNodes.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.conflicts && (
+                <div className="metric-item">
+                  <div className="metric-label">Conflicts Resolved</div>
+                  <div className="metric-value">
+                    {result.conflicts.length.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.arrivalTime !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Arrival Time</div>
+                  <div className="metric-value">
+                    t = {result.arrivalTime.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.waits !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Waits</div>
+                  <div className="metric-value">
+                    {result.waits.toLocaleString()}
+                  </div>
+                </div>
+              )}
+              
+              {result.pairwiseNodesExpanded !== undefined && (
+                <div className="metric-item">
+                  <div className="metric-label">Pairwise Search Nodes</div>
+                  <div className="metric-value">
+                    {result.pairwiseNodesExpanded.toLocaleString()}
+                  </div>
+                </div>
+              )}
             </div>
+            
+            {/* Waypoint routes: cost and work per leg */}
+            {result.legs && (
+              <div className="metric-legs">
+                {result.legs.map((leg, legIndex) => (
+                  <div key={legIndex} className="metric-leg">
+                    <span>{leg.label}</span>
+                    <span className="metric-leg-stats">
+                      {leg.result.found ? `cost ${formatCost(leg.result.pathCost)}` : 'unreachable'}
+                      {' · '}{leg.result.nodesExpanded.toLocaleString()} nodes
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+            
+            {/* Multi-agent runs: arrival time of each agent */}
+            {result.agentPaths && result.agentPaths.length > 0 && (
+              <div className="metric-legs">
+                {result.agentPaths.map((path, agentIndex) => (
+                  <div key={agentIndex} className="metric-leg">
+                    <span style={{ color: MAPF_AGENT_COLORS[agentIndex] }}>Agent {agentIndex + 1}</span>
+                    <span className="metric-leg-stats">
+                      cost {path.length - 1}
+                      {' · '}{path.filter((cell, t) => t > 0 && cell.row === path[t - 1].row && cell.col === path[t - 1].col).length} waits
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         );
       })}
@@ -8,6 +8,124 @@ export enum CellType {
   FREE = 'free',
   START = 'start',
   GOAL = 'goal',
+  ROAD = 'road',   // Cheap terrain
+  MUD = 'mud',     // Expensive terrain
+  WATER = 'water', // Very expensive terrain
+  WAYPOINT = 'waypoint', // Stop a route must pass through (costs the same as free)
+  // Teleporter pairs, linked by channel: stepping onto one moves you to its twin
+  PORTAL_A = 'portal_a',
+  PORTAL_B = 'portal_b',
+  PORTAL_C = 'portal_c',
+  // One-way cells, entered only by moving in the arrow's direction (left freely)
+  ONE_WAY_UP = 'one_way_up',
+  ONE_WAY_RIGHT = 'one_way_right',
+  ONE_WAY_DOWN = 'one_way_down',
+  ONE_WAY_LEFT = 'one_way_left',
+  // Keys, picked up by stepping on them, and the doors of the same channel they open
+  KEY_A = 'key_a',
+  KEY_B = 'key_b',
+  KEY_C = 'key_c',
+  DOOR_A = 'door_a',
+  DOOR_B = 'door_b',
+  DOOR_C = 'door_c',
+}
+
+// Walkable cell types that carry a traversal cost
+export type TerrainType = CellType.FREE | CellType.ROAD | CellType.MUD | CellType.WATER;
+
+// Cost of entering a cell of each terrain type (start/goal/waypoints cost the same as free cells)
+export type TerrainCosts = Record<TerrainType, number>;
+
+// Which neighbouring cells a search may step to
+export enum MovementModel {
+  FOUR_WAY = 'four_way',                   // Up, down, left, right
+  EIGHT_WAY = 'eight_way',                 // Plus diagonals (may cut one wall corner)
+  EIGHT_WAY_NO_CORNER_CUT = 'eight_way_no_corner_cut', // Diagonals only past open corners
+}
+
+// How the cells of the grid connect
+export enum Topology {
+  SQUARE = 'square', // Plain rectangle of square cells
+  HEX = 'hex',       // Hexagons, odd rows shifted half a cell right; six neighbours, movement model ignored
+  TORUS = 'torus',   // Square cells whose opposite edges wrap around
+}
+
+// Distance estimate used by heuristic searches
+export enum Heuristic {
+  MANHATTAN = 'manhattan',
+  EUCLIDEAN = 'euclidean',
+  OCTILE = 'octile',
+  CHEBYSHEV = 'chebyshev',
+  HEX = 'hex',     // Steps between hexagons
+  ZERO = 'zero',
+}
+
+// How a route visits the placed waypoints
+export enum WaypointOrder {
+  IN_ORDER = 'in_order',     // In the order they were placed
+  BEST_ORDER = 'best_order', // Cheapest order (small TSP over pairwise leg costs)
+}
+
+// Algorithm that carves a new maze
+export enum MazeGenerator {
+  RECURSIVE_BACKTRACKER = 'backtracker', // Randomized DFS
+  PRIM = 'prim',                         // Randomized Prim's
+  KRUSKAL = 'kruskal',                   // Randomized Kruskal's
+  WILSON = 'wilson',                     // Loop-erased random walks (uniform spanning tree)
+  ELLER = 'eller',                       // Row by row, tracking connected sets
+  RECURSIVE_DIVISION = 'division',       // Splits open chambers with walls
+  BINARY_TREE = 'binary_tree',           // Each cell opens north or west
+  SIDEWINDER = 'sidewinder',             // Runs along rows, each opening north once
+}
+
+// Kind of map New Maze builds
+export enum MapStyle {
+  MAZE = 'maze',   // A carved maze (see MazeGenerator)
+  CAVE = 'cave',   // Organic caves grown by a cellular automaton
+  NOISE = 'noise', // Walls or terrain from value noise
+}
+
+// What a cave generator does with open pockets cut off from the main cave
+export enum CavePockets {
+  CONNECT = 'connect', // Dig the shortest corridor from each pocket into the cave
+  REMOVE = 'remove',   // Wall pockets up
+}
+
+// What value noise decides for each cell
+export enum NoiseMode {
+  WALLS = 'walls',     // Wall or free
+  TERRAIN = 'terrain', // Water, mud, free or road (no walls)
+}
+
+// Settings of the cave generator
+export interface CaveOptions {
+  fillRatio: number;       // Share of cells walled by the initial random fill (0 to 1)
+  smoothingPasses: number; // Cellular-automaton passes run over the fill
+  pockets: CavePockets;
+}
+
+// Settings of the noise generator
+export interface NoiseOptions {
+  mode: NoiseMode;
+  scale: number;           // Size of the noise features, in cells
+}
+
+// Everything besides the seed, size and topology that decides a generated map
+export interface MapSettings {
+  style: MapStyle;
+  generator: MazeGenerator; // Maze style only
+  cave: CaveOptions;        // Cave style only
+  noise: NoiseOptions;      // Noise style only
+}
+
+// Settings shared by every search
+export interface SearchOptions {
+  terrainCosts: TerrainCosts;
+  movement: MovementModel;
+  topology: Topology;
+  heuristic: Heuristic;       // Used by heuristic searches only
+  heuristicWeight: number;    // A* weight w in f = g + w·h (1 = standard A*)
+  turnPenalty: number;        // Extra cost per 90° change of heading (0 = turns are free)
 }
 
 // Cell state during algorithm execution
@@ -16,19 +134,31 @@ export enum CellState {
   FRONTIER = 'frontier',      // In the open set (to be explored)
   EXPLORED = 'explored',       // Already visited
   PATH = 'path',               // Part of the final solution path
-  DFS_EXPLORED = 'dfs_explored',     // Explored by DFS only
-  BFS_EXPLORED = 'bfs_explored',     // Explored by BFS only
-  ASTAR_EXPLORED = 'astar_explored', // Explored by A* only
-  DFS_BFS_EXPLORED = 'dfs_bfs_explored',     // Explored by DFS and BFS
-  DFS_ASTAR_EXPLORED = 'dfs_astar_explored', // Explored by DFS and A*
-  BFS_ASTAR_EXPLORED = 'bfs_astar_explored', // Explored by BFS and A*
-  ALL_EXPLORED = 'all_explored',             // Explored by all three
+  COMPARED = 'compared',       // Explored by one or more algorithms in comparison mode
+  FORWARD_EXPLORED = 'forward_explored',   // Explored by the start-side frontier of a bidirectional search
+  BACKWARD_EXPLORED = 'backward_explored', // Explored by the goal-side frontier of a bidirectional search
+  MEETING = 'meeting',                     // Cell where bidirectional frontiers met
+  SCANNED = 'scanned',                     // Passed over by a jump scan (never queued)
+  JUMP_POINT = 'jump_point',               // Jump point expanded by Jump Point Search
+  UNKNOWN = 'unknown',                     // Not yet sensed by a fog-of-war agent
+  SENSED = 'sensed',                       // Seen by the agent but not walked on
+  TRAVERSED = 'traversed',                 // Walked on by the agent
+  AGENT = 'agent',                         // Current agent position
+  CONFLICT = 'conflict',                   // Cell where two multi-agent plans collide
+}
+
+// Which frontier of a bidirectional search expanded a node
+export enum SearchDirection {
+  FORWARD = 'forward',   // From start towards goal
+  BACKWARD = 'backward', // From goal towards start
 }
 
 // Position in the grid
 export interface Position {
   row: number;
   col: number;
+  keys?: number;  // Search states only: channels of the keys held (bitmask), if any
+  heading?: number; // Turn-penalty search states only: getDirections() index of the move that entered the cell
 }
 
 // Cell in the maze
@@ -38,39 +168,253 @@ export interface Cell {
   state: CellState;
 }
 
-// Result of running a pathfinding algorithm
-export interface AlgorithmResult {
+// Result of running a pathfinding algorithm; N is the search state
+// (grid positions, or node ids in graph mode)
+export interface AlgorithmResult<N = Position> {
+  algorithmId: string;         // Registry id of the algorithm that produced this result
   algorithmName: string;
   found: boolean;              // Whether a path was found
-  path: Position[];            // Final path from start to goal
-  explorationOrder: Position[]; // Order in which nodes were explored
+  path: N[];                   // Final path from start to goal
+  explorationOrder: N[];       // Order in which nodes were explored
   nodesExpanded: number;       // Total nodes explored
   pathLength: number;          // Length of final path (0 if not found)
+  pathCost: number;            // Sum of terrain costs (and turn penalties) along the final path (0 if not found)
   timeTaken: number;           // Time in milliseconds (visual time in comparison mode)
   isOptimal: boolean;          // Whether the path is guaranteed to be optimal
   stepsToGoal?: number;        // Number of steps to reach goal (for comparison)
+  warnings?: string[];         // Caveats about this run (e.g. inadmissible heuristic)
+  peakMemory?: number;         // Most search nodes held in memory at once
+  baseline?: BaselineStats;    // Reference run on the same maze, for work/memory comparisons
+  preprocessing?: PreprocessingStats; // One-off work shared by many queries, kept out of nodesExpanded/timeTaken
+  connectedStart?: Position;   // Start the path leaves from (several starts/goals only)
+  connectedGoal?: Position;    // Goal the path reaches (several starts/goals only)
+  turns?: number;              // Changes of heading along the path (turn penalty runs only)
+  turnPoints?: Position[];     // Cells where the path changes heading (turn penalty runs only)
+
+  // Bidirectional searches only
+  explorationDirections?: SearchDirection[]; // Frontier that expanded each explorationOrder entry
+  nodesExpandedForward?: number;   // Nodes expanded from the start side
+  nodesExpandedBackward?: number;  // Nodes expanded from the goal side
+  meetingPoint?: Position;         // Cell where the frontiers met (if found)
+
+  // Any-angle paths and path smoothing
+  anyAnglePath?: Position[];       // Theta* only: corners of the path, joined by straight segments (path lists the cells crossed)
+  euclideanLength?: number;        // Straight-line length of the path as walked, between cell centers
+  smoothedPath?: Position[];       // Corners of the path after smoothing (smoothing on only)
+  smoothedLength?: number;         // Straight-line length of smoothedPath
+
+  // HPA* only
+  clusterSize?: number;            // Side length of a cluster, in cells
+  clusterCount?: number;
+  abstractNodes?: Position[];      // Transition cells of the abstract graph
+  abstractPath?: Position[];       // Abstract nodes the path passes, start and goal included
+
+  // Jump Point Search only
+  scannedCells?: Position[][];     // Cells scanned by jumps while expanding each explorationOrder entry
+
+  // Iterative deepening searches only
+  iterations?: number;             // Depth / f-bound iterations performed
+  reExpansions?: number;           // Expansions of cells that had already been expanded
+  iterationStarts?: number[];      // explorationOrder index where each iteration begins
+  iterationBounds?: number[];      // Depth (IDDFS) or f-cost (IDA*) bound of each iteration
+  iterationBoundLabel?: string;    // What the bound limits, e.g. "Depth limit"
+
+  // Searches without an optimality guarantee (weighted/greedy best-first, agents)
+  suboptimalityBound?: number;     // Guaranteed max ratio of pathCost to optimum (Infinity if none)
+  optimalCost?: number;            // Optimal path cost from a reference Dijkstra run
+
+  // Incremental planners only
+  replanCount?: number;            // Repairs since the initial plan (0 = initial plan)
+  changedCells?: number;           // Cells edited since the previous plan
+
+  // Waypoint routes only
+  legs?: RouteLeg[];               // One search per leg, in visiting order
+  waypointOrder?: number[];        // Waypoint numbers (1-based, placement order) in visiting order
+  pairwiseNodesExpanded?: number;  // Nodes expanded building the pairwise cost table (best order)
+
+  // Fog-of-war agent runs only
+  agentTimeline?: AgentStep[];     // One entry per move, starting at the start cell
+  agentReplans?: number;           // Replans triggered by newly sensed cells
+  sensingRadius?: number;          // Chebyshev radius the agent could see
+
+  // Multi-agent (CBS) runs only
+  agentPaths?: Position[][];       // Collision-free path per agent, one cell per time step
+  sumOfCosts?: number;             // Total time steps until every agent rests at its goal
+  makespan?: number;               // Time step at which the last agent arrives
+  highLevelNodes?: number;         // Constraint-tree nodes expanded
+  conflicts?: MapfConflict[];      // Conflict split at each expanded constraint-tree node, in order
+
+  // Moving-obstacle runs only
+  arrivalTime?: number;            // Time step at which the agent reaches the goal
+  waits?: number;                  // Time steps spent waiting in place
+  obstaclePaths?: Position[][];    // Cell of each obstacle at every time step until arrival
+}
+
+// One leg of a waypoint route
+export interface RouteLeg {
+  label: string;                   // e.g. "Start → W1"
+  result: AlgorithmResult;         // Search from the leg's first stop to its last
+}
+
+// One move of a fog-of-war agent
+export interface AgentStep {
+  position: Position;              // Where the agent stands after the move
+  sensed: Position[];              // Cells seen for the first time from here
+  route: Position[];               // Planned route from here to the goal
+  replanned: boolean;              // Whether the route was replanned at this step
+}
+
+// One step of building a maze, for animating its construction
+export interface GenerationStep {
+  opened: Position[];              // Cells carved open: maze cells and the walls removed between them
+  closed?: Position[];             // Cells walled up (recursive division)
+  active?: Position[];             // Working set after the step: backtracking stack, frontier, walk or run
+}
+
+// A generated map and the steps that built it from an all-wall grid
+export interface GeneratedMap {
+  grid: CellType[][];
+  steps: GenerationStep[];         // Start and goal are placed after the last step
+}
+
+// One agent of a multi-agent pathfinding problem
+export interface MapfAgent {
+  start: Position;
+  goal: Position;
+}
+
+// Obstacle that loops along a route, one cell per time step
+export interface MovingObstacle {
+  route: Position[];               // Cell at time t is route[t % route.length]; one cell = stationary
+}
+
+// Two agents of a multi-agent plan colliding
+export interface MapfConflict {
+  agents: [number, number];        // Indices of the colliding agents
+  position: Position;              // Shared cell (vertex) or the first agent's cell before the swap (edge)
+  to?: Position;                   // Edge conflicts only: the first agent's cell after the swap
+  time: number;                    // Time step of the vertex conflict, or the one the swap starts from
+  highLevelNode: number;           // Constraint-tree node (1-based, expansion order) it was found in
+  sumOfCosts: number;              // Sum of costs of that node's plans
+}
+
+// Cost of a precomputation that later queries reuse
+export interface PreprocessingStats {
+  label: string;               // What was precomputed, e.g. "Field"
+  nodesExpanded: number;
+  timeTaken: number;           // Milliseconds
+  reused?: boolean;            // Built by an earlier query on the same maze and reused by this one
+}
+
+// Distance-to-goal field with the next step towards the goal for every cell
+export interface FlowField {
+  distances: number[][];            // Cheapest cost to the nearest goal (Infinity if unreachable)
+  next: (Position | null)[][];      // Neighbor to step to (null at goals and unreachable cells)
+  maxDistance: number;              // Largest finite distance, for heatmap scaling
+  nodesExpanded: number;
+  timeTaken: number;                // Milliseconds
+}
+
+// Summary of a reference run used for comparison
+export interface BaselineStats {
+  algorithmName: string;
+  nodesExpanded: number;
+  peakMemory?: number;
 }
 
 // A* specific node data
-export interface AStarNode {
-  position: Position;
+export interface AStarNode<N = Position> {
+  position: N;
   g: number;  // Cost from start to this node
   h: number;  // Heuristic estimate from this node to goal
   f: number;  // Total cost: f = g + h
-  parent: Position | null;
+  parent: N | null;
 }
 
 // Generic node for BFS/DFS
-export interface SearchNode {
-  position: Position;
-  parent: Position | null;
+export interface SearchNode<N = Position> {
+  position: N;
+  parent: N | null;
+}
+
+// What DFS, BFS and A* search over: grid cells or the nodes of a general graph
+export interface SearchGraph<N> {
+  key(node: N): string;                 // Identity of a search state
+  neighbors(node: N): N[];              // States one move away, in exploration order
+  stepCost(from: N, to: N): number;     // Cost of moving to a neighbor
+}
+
+// Outcome of a search over a SearchGraph, before algorithm-specific metrics
+export type GraphSearchOutcome<N> = Pick<
+  AlgorithmResult<N>,
+  'found' | 'path' | 'explorationOrder' | 'nodesExpanded' | 'pathCost' | 'peakMemory'
+>;
+
+// Node of a general graph, at canvas coordinates
+export interface GraphNode {
+  id: string;   // Unique label, also used in edge lists
+  x: number;
+  y: number;
+}
+
+// Undirected weighted edge between two nodes
+export interface GraphEdge {
+  from: string;
+  to: string;
+  weight: number;
+}
+
+// General graph edited in graph mode
+export interface Graph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
 }
 
-// Algorithm type
-export enum Algorithm {
-  DFS = 'DFS',
-  BFS = 'BFS',
-  ASTAR = 'A*',
+// Signature shared by every pathfinding executor
+export type AlgorithmExecutor = (
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options?: SearchOptions
+) => AlgorithmResult;
+
+// Search that keeps its state between maze edits and repairs it incrementally
+export interface IncrementalPlanner {
+  plan(): AlgorithmResult;                                    // Compute, or repair, the shortest path
+  updateCells(grid: CellType[][], changed: Position[]): void; // Apply edited cells before the next plan()
+}
+
+export type MultiTargetExecutor = (
+  grid: CellType[][],
+  starts: Position[],
+  goals: Position[],
+  options?: SearchOptions
+) => AlgorithmResult;
+
+// Search over a general graph between two node ids
+export type GraphExecutor = (graph: Graph, start: string, goal: string) => AlgorithmResult<string>;
+
+export type IncrementalPlannerFactory = (
+  grid: CellType[][],
+  start: Position,
+  goal: Position,
+  options?: SearchOptions
+) => IncrementalPlanner;
+
+// Registry entry describing a pathfinding algorithm
+export interface AlgorithmDefinition {
+  id: string;                  // Unique key, also stamped on AlgorithmResult.algorithmId
+  name: string;                // Display name used in buttons, legend and metrics
+  color: string;               // Visual identity in the grid, legend and metrics
+  icon: string;                // Emoji shown next to the name
+  isOptimal: boolean;          // Whether the algorithm guarantees the shortest path
+  usesTerrainCosts: boolean;   // Whether the search accounts for terrain costs (else optimal only on uniform maps)
+  usesTurnPenalty?: boolean;   // Whether the search plans with turn penalties (else they are added to its path's cost afterwards)
+  excludeFromComparison?: boolean; // Left out of Compare All (iterative deepening: its log repeats the search once per bound)
+  execute: AlgorithmExecutor;
+  executeMulti?: MultiTargetExecutor;        // Multi-source / nearest-goal variant, if supported
+  createPlanner?: IncrementalPlannerFactory; // Incremental algorithms only: repair after edits instead of rerunning
+  executeGraph?: GraphExecutor;              // Also runs on general graphs (graph mode), if supported
 }
 
 // Edit mode for user interaction
@@ -78,4 +422,24 @@ export enum EditMode {
   TOGGLE_WALL = 'toggle_wall',
   SET_START = 'set_start',
   SET_GOAL = 'set_goal',
+  PAINT_ROAD = 'paint_road',
+  PAINT_MUD = 'paint_mud',
+  PAINT_WATER = 'paint_water',
+  SET_WAYPOINT = 'set_waypoint',
+  TOGGLE_START = 'toggle_start', // Add or remove one of several starts
+  TOGGLE_GOAL = 'toggle_goal',   // Add or remove one of several goals
+  PLACE_AGENT = 'place_agent',   // Place a multi-agent start, then its goal; click one to remove it
+  PLACE_PORTAL = 'place_portal', // Place a portal, then its twin; click either to remove the pair
+  PLACE_ONE_WAY = 'place_one_way', // Cycle a cell through the one-way directions
+  PLACE_KEY_DOOR = 'place_key_door', // Place a key, then the door it opens; click either to remove the pair
+  PLACE_OBSTACLE = 'place_obstacle', // Click cells to draw a looped route, then its first cell to close it; click a route to remove it
+}
+
+// Edit mode for the graph canvas
+export enum GraphEditMode {
+  ADD_NODE = 'add_node',       // Click empty canvas to add a node
+  ADD_EDGE = 'add_edge',       // Click two nodes to join them; click an edge to change its weight
+  SET_START = 'set_start',
+  SET_GOAL = 'set_goal',
+  DELETE = 'delete',           // Click a node (with its edges) or an edge to remove it
 }
@@ -0,0 +1,172 @@
+/**
+ * Any-angle movement: line of sight between cell centers, straight-segment
+ * costs and path smoothing
+ *
+ * A straight segment between two cell centers crosses every cell it passes
+ * through. It is blocked by a wall on the way, and where it passes exactly
+ * through a cell corner the two cells beside the corner follow the same rule
+ * as diagonal moves: 8-way movement may cut past one wall corner, other
+ * movement models need both cells open. Only plain square grids have straight
+ * lines (no hex or wrap-around, no portals, one-way cells or doors).
+ */
+
+import { AlgorithmResult, CellType, MovementModel, Position, SearchOptions, Topology } from '../types/maze.types';
+import { hasSpecialCells } from './specialCells';
+import { getCellCost } from './terrain';
+
+/**
+ * Check if straight lines make sense on a grid under the search settings
+ */
+export function supportsAnyAngle(grid: CellType[][], options: SearchOptions): boolean {
+  return options.topology === Topology.SQUARE && !hasSpecialCells(grid);
+}
+
+/**
+ * Cells crossed by the straight segment between two cell centers. Under
+ * 4-way movement a corner adds the cell beside it first, so each step is orthogonal.
+ * @returns The cells after `from` up to and including `to`, in order, or
+ *          null if the segment is blocked
+ */
+export function traceLine(
+  grid: CellType[][],
+  from: Position,
+  to: Position,
+  movement: MovementModel
+): Position[] | null {
+  const isOpen = (row: number, col: number) =>
+    row >= 0 && row < grid.length && col >= 0 && col < grid[0].length && grid[row][col] !== CellType.WALL;
+  const rowSpan = Math.abs(to.row - from.row);
+  const colSpan = Math.abs(to.col - from.col);
+  const rowStep = Math.sign(to.row - from.row);
+  const colStep = Math.sign(to.col - from.col);
+
+  const cells: Position[] = [];
+  let { row, col } = from;
+  // Cell borders crossed so far in each axis; the next crossing in an axis
+  // happens at t = (2·crossed + 1) / (2·span) along the segment, compared
+  // here in integers so corners are detected exactly
+  let rowsCrossed = 0;
+  let colsCrossed = 0;
+
+  while (row !== to.row || col !== to.col) {
+    const rowNext = rowSpan === 0 ? Infinity : (2 * rowsCrossed + 1) * colSpan;
+    const colNext = colSpan === 0 ? Infinity : (2 * colsCrossed + 1) * rowSpan;
+
+    if (rowNext === colNext) {
+      // Through a corner: the cells on either side are only touched
+      const verticalOpen = isOpen(row + rowStep, col);
+      const horizontalOpen = isOpen(row, col + colStep);
+      const cornerCutAllowed = movement === MovementModel.EIGHT_WAY;
+      if (cornerCutAllowed ? !verticalOpen && !horizontalOpen : !verticalOpen || !horizontalOpen) {
+        return null;
+      }
+      if (movement === MovementModel.FOUR_WAY) {
+        cells.push({ row: row + rowStep, col });
+      }
+      row += rowStep;
+      col += colStep;
+      rowsCrossed++;
+      colsCrossed++;
+    } else if (rowNext < colNext) {
+      row += rowStep;
+      rowsCrossed++;
+    } else {
+      col += colStep;
+      colsCrossed++;
+    }
+
+    if (!isOpen(row, col)) return null;
+    cells.push({ row, col });
+  }
+
+  return cells;
+}
+
+/**
+ * Straight-line distance between two cell centers
+ */
+function getDistance(a: Position, b: Position): number {
+  return Math.hypot(a.row - b.row, a.col - b.col);
+}
+
+/**
+ * Total straight-line length of a polyline through cell centers
+ */
+export function getPolylineLength(points: Position[]): number {
+  let length = 0;
+  for (let i = 1; i < points.length; i++) {
+    length += getDistance(points[i - 1], points[i]);
+  }
+  return length;
+}
+
+/**
+ * Cost of walking a straight segment: its length times the terrain cost of
+ * the cells it crosses, which must all cost the same so the cost is exact
+ * (like a grid step, the cell left is not paid for)
+ * @returns The cost, or Infinity if the segment is blocked or crosses mixed terrain
+ */
+export function getSegmentCost(
+  grid: CellType[][],
+  from: Position,
+  to: Position,
+  options: SearchOptions
+): number {
+  const cells = traceLine(grid, from, to, options.movement);
+  if (!cells || cells.length === 0) return cells ? 0 : Infinity;
+
+  const cost = getCellCost(grid[cells[0].row][cells[0].col], options.terrainCosts);
+  if (cells.some(({ row, col }) => getCellCost(grid[row][col], options.terrainCosts) !== cost)) {
+    return Infinity;
+  }
+  return getDistance(from, to) * cost;
+}
+
+/**
+ * Smooth a path by string pulling: from each corner, jump to the farthest
+ * later point still in line of sight. Walls are respected; terrain is not, so
+ * the smoothed path is only ever shorter, not necessarily cheaper.
+ * @returns Corners of the smoothed path, from the first point to the last
+ */
+export function smoothPath(grid: CellType[][], path: Position[], movement: MovementModel): Position[] {
+  if (path.length <= 2) return path.map(({ row, col }) => ({ row, col }));
+
+  const corners: Position[] = [{ row: path[0].row, col: path[0].col }];
+  let anchor = 0;
+  while (anchor < path.length - 1) {
+    let next = anchor + 1;
+    for (let candidate = path.length - 1; candidate > next; candidate--) {
+      if (traceLine(grid, path[anchor], path[candidate], movement)) {
+        next = candidate;
+        break;
+      }
+    }
+    corners.push({ row: path[next].row, col: path[next].col });
+    anchor = next;
+  }
+  return corners;
+}
+
+/**
+ * Add a smoothed version of a run's path to its result, with the straight-line
+ * lengths before and after. Paths on grids without straight lines, and timed
+ * plans (where waiting matters), are left as is.
+ */
+export function addPathSmoothing(
+  result: AlgorithmResult,
+  grid: CellType[][],
+  options: SearchOptions
+): AlgorithmResult {
+  if (!result.found || result.path.length === 0 || result.obstaclePaths || !supportsAnyAngle(grid, options)) {
+    return result;
+  }
+
+  const walked = result.anyAnglePath ?? result.path;
+  const smoothedPath = smoothPath(grid, walked, options.movement);
+  return {
+    ...result,
+    euclideanLength: getPolylineLength(walked),
+    smoothedPath,
+    smoothedLength: getPolylineLength(smoothedPath),
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * General graphs for graph mode: a sample road network, editing helpers and
+ * edge list import/export
+ *
+ * Nodes sit on a GRAPH_WIDTH × GRAPH_HEIGHT canvas. Edges are undirected;
+ * drawn edges default to a weight of their length in GRAPH_UNIT steps, so the
+ * straight-line heuristic is informative out of the box.
+ */
+
+import { Graph, GraphEdge, GraphNode } from '../types/maze.types';
+import { getEdgeLength } from './searchGraph';
+
+export const GRAPH_WIDTH = 800;
+export const GRAPH_HEIGHT = 480;
+
+// Canvas distance per unit of edge weight, for drawn edges
+const GRAPH_UNIT = 10;
+
+/**
+ * Small road network shown when graph mode opens
+ */
+export function createSampleGraph(): Graph {
+  const nodes: GraphNode[] = [
+    { id: 'A', x: 80, y: 240 },
+    { id: 'B', x: 220, y: 100 },
+    { id: 'C', x: 240, y: 380 },
+    { id: 'D', x: 400, y: 220 },
+    { id: 'E', x: 420, y: 60 },
+    { id: 'F', x: 560, y: 380 },
+    { id: 'G', x: 600, y: 160 },
+    { id: 'H', x: 720, y: 260 },
+  ];
+  const pairs = [
+    ['A', 'B'], ['A', 'C'], ['B', 'D'], ['B', 'E'], ['C', 'D'], ['C', 'F'],
+    ['D', 'G'], ['D', 'F'], ['E', 'G'], ['F', 'H'], ['G', 'H'],
+  ];
+  const graph: Graph = { nodes, edges: [] };
+  for (const [from, to] of pairs) {
+    graph.edges.push({ from, to, weight: getDefaultEdgeWeight(graph, from, to) });
+  }
+  // A congested road: shorter on the map, slower to drive
+  graph.edges.find((edge) => edge.from === 'D' && edge.to === 'G')!.weight *= 3;
+  return graph;
+}
+
+/**
+ * Weight of a new edge: its length in GRAPH_UNIT steps (at least 1)
+ */
+export function getDefaultEdgeWeight(graph: Graph, from: string, to: string): number {
+  const a = graph.nodes.find((node) => node.id === from)!;
+  const b = graph.nodes.find((node) => node.id === to)!;
+  return Math.max(1, Math.round(getEdgeLength(a, b) / GRAPH_UNIT));
+}
+
+/**
+ * First unused label: A-Z, then A1, B1, ...
+ */
+export function getNextNodeId(graph: Graph): string {
+  const used = new Set(graph.nodes.map((node) => node.id));
+  for (let round = 0; ; round++) {
+    for (let letter = 0; letter < 26; letter++) {
+      const id = String.fromCharCode(65 + letter) + (round === 0 ? '' : round);
+      if (!used.has(id)) return id;
+    }
+  }
+}
+
+/**
+ * Check if an edge joins two nodes (in either direction)
+ */
+export function edgeJoins(edge: GraphEdge, a: string, b: string): boolean {
+  return (edge.from === a && edge.to === b) || (edge.from === b && edge.to === a);
+}
+
+/**
+ * Parse an edge list into a new graph
+ *
+ * One entry per line; blank lines and lines starting with # are ignored:
+ * - `A B 5`: edge between A and B with weight 5 (weight 1 if omitted)
+ * - `A @ 120 80`: place node A at canvas coordinates (120, 80)
+ * Nodes without coordinates are spread around a circle.
+ * @throws If a line cannot be parsed
+ */
+export function parseEdgeList(text: string): Graph {
+  const positions = new Map<string, { x: number; y: number }>();
+  const ids: string[] = [];
+  const edges: GraphEdge[] = [];
+  const addId = (id: string) => {
+    if (!ids.includes(id)) ids.push(id);
+  };
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('#')) return;
+    const tokens = line.split(/[\s,]+/);
+    const fail = (reason: string) => {
+      throw new Error(`Line ${index + 1} ("${line}"): ${reason}`);
+    };
+
+    if (tokens[1] === '@') {
+      const [x, y] = [Number(tokens[2]), Number(tokens[3])];
+      if (tokens.length !== 4 || !Number.isFinite(x) || !Number.isFinite(y)) fail('expected "node @ x y"');
+      addId(tokens[0]);
+      positions.set(tokens[0], { x, y });
+      return;
+    }
+
+    if (tokens.length < 2 || tokens.length > 3) fail('expected "from to [weight]"');
+    const weight = tokens.length === 3 ? Number(tokens[2]) : 1;
+    if (!Number.isFinite(weight) || weight < 0) fail('weight must be a non-negative number');
+    if (tokens[0] === tokens[1]) fail('an edge must join two different nodes');
+    addId(tokens[0]);
+    addId(tokens[1]);
+    edges.push({ from: tokens[0], to: tokens[1], weight });
+  });
+
+  if (ids.length === 0) throw new Error('The edge list is empty');
+
+  const unplaced = ids.filter((id) => !positions.has(id));
+  const radius = Math.min(GRAPH_WIDTH, GRAPH_HEIGHT) / 2 - 40;
+  const nodes = ids.map((id) => {
+    const position = positions.get(id);
+    if (position) return { id, ...position };
+    const angle = (2 * Math.PI * unplaced.indexOf(id)) / unplaced.length - Math.PI / 2;
+    return {
+      id,
+      x: Math.round(GRAPH_WIDTH / 2 + radius * Math.cos(angle)),
+      y: Math.round(GRAPH_HEIGHT / 2 + radius * Math.sin(angle)),
+    };
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Write a graph as an edge list that parseEdgeList() reads back
+ */
+export function formatEdgeList(graph: Graph): string {
+  return [
+    ...graph.nodes.map((node) => `${node.id} @ ${Math.round(node.x)} ${Math.round(node.y)}`),
+    ...graph.edges.map((edge) => `${edge.from} ${edge.to} ${edge.weight}`),
+  ].join('\n');
+}
@@ -1,9 +1,126 @@
 /**
- * DFS-based maze generation algorithm
- * Creates a perfect maze (one path between any two cells) using recursive backtracking
+ * Maze and map generation
+ *
+ * Every generator carves a perfect maze (one path between any two cells),
+ * then a few extra walls are opened so searches have alternative routes to
+ * choose between. Generators differ in the corridor structure they leave:
+ * - Recursive backtracker (DFS): long winding corridors with few branches
+ * - Prim's: many short dead ends branching off everywhere
+ * - Kruskal's: an even mix of short corridors, no overall direction
+ * - Wilson's: a uniform spanning tree, every perfect maze equally likely
+ * - Eller's: built row by row, with mostly horizontal runs
+ * - Recursive division: long straight walls splitting the map into rooms
+ * - Binary tree: a diagonal bias, with open corridors along the top and left
+ * - Sidewinder: an open top row and vertical bias, built from horizontal runs
+ *
+ * Square and torus mazes carve passages between cells two apart; on a torus
+ * the graph-based generators (backtracker, Prim's, Kruskal's, Wilson's) may
+ * also run passages through the border and out the opposite side, while the
+ * row-based and division generators stay inside it. Hex mazes always use the
+ * backtracker on single-tile corridors, opening a tile only if no other open
+ * tile touches it, so corridors never merge into rooms.
+ *
+ * Besides mazes, two generators build open maps:
+ * - Caves: a random fill of walls smoothed by a cellular automaton (a cell
+ *   becomes a wall when most cells around it are walls, and opens when most
+ *   are open) into organic caverns; pockets cut off from the largest cavern
+ *   are walled up or joined to it by the shortest corridor
+ * - Noise: value noise (random values on a coarse lattice, blended smoothly
+ *   between lattice points) decides walls, or terrain bands from water in the
+ *   lows to roads on the highs
+ *
+ * All randomness comes from one stream seeded per map, so the same seed,
+ * size, topology, generator and settings always give the same grid.
+ *
+ * Every generator also logs its construction as steps (cells opened or walled
+ * up, and its working set: the backtracking stack, frontier, random walk or
+ * current run), which replayed from an all-wall grid rebuild the maze.
  */
 
-import { CellType, Position } from '../types/maze.types';
+import {
+  CaveOptions,
+  CavePockets,
+  CellType,
+  GeneratedMap,
+  GenerationStep,
+  MapSettings,
+  MapStyle,
+  MazeGenerator,
+  MovementModel,
+  NoiseMode,
+  NoiseOptions,
+  Position,
+  Topology,
+} from '../types/maze.types';
+import { getAdjacentCell, getDirections } from './movement';
+
+export const MAZE_GENERATOR_LABELS: Record<MazeGenerator, string> = {
+  [MazeGenerator.RECURSIVE_BACKTRACKER]: 'Backtracker (DFS)',
+  [MazeGenerator.PRIM]: "Prim's",
+  [MazeGenerator.KRUSKAL]: "Kruskal's",
+  [MazeGenerator.WILSON]: "Wilson's",
+  [MazeGenerator.ELLER]: "Eller's",
+  [MazeGenerator.RECURSIVE_DIVISION]: 'Recursive Division',
+  [MazeGenerator.BINARY_TREE]: 'Binary Tree',
+  [MazeGenerator.SIDEWINDER]: 'Sidewinder',
+};
+
+export const MAP_STYLE_LABELS: Record<MapStyle, string> = {
+  [MapStyle.MAZE]: 'Maze',
+  [MapStyle.CAVE]: 'Caves',
+  [MapStyle.NOISE]: 'Noise',
+};
+
+export const CAVE_POCKETS_LABELS: Record<CavePockets, string> = {
+  [CavePockets.CONNECT]: 'Connect pockets',
+  [CavePockets.REMOVE]: 'Fill pockets',
+};
+
+export const NOISE_MODE_LABELS: Record<NoiseMode, string> = {
+  [NoiseMode.WALLS]: 'Walls',
+  [NoiseMode.TERRAIN]: 'Terrain',
+};
+
+export const DEFAULT_CAVE_OPTIONS: CaveOptions = {
+  fillRatio: 0.45,
+  smoothingPasses: 4,
+  pockets: CavePockets.CONNECT,
+};
+
+export const DEFAULT_NOISE_OPTIONS: NoiseOptions = {
+  mode: NoiseMode.WALLS,
+  scale: 6,
+};
+
+export const DEFAULT_MAP_SETTINGS: MapSettings = {
+  style: MapStyle.MAZE,
+  generator: MazeGenerator.RECURSIVE_BACKTRACKER,
+  cave: DEFAULT_CAVE_OPTIONS,
+  noise: DEFAULT_NOISE_OPTIONS,
+};
+
+// Share of cells noise walls cover (those with the highest noise values)
+const NOISE_WALL_SHARE = 0.4;
+
+// Terrain bands of noise terrain, from the lowest noise values up, with the share of cells in each
+const NOISE_TERRAIN_BANDS = [
+  { type: CellType.WATER, share: 0.15 },
+  { type: CellType.MUD, share: 0.25 },
+  { type: CellType.FREE, share: 0.4 },
+  { type: CellType.ROAD, share: 0.2 },
+];
+
+// Largest maze seed (seeds are unsigned 32-bit integers)
+export const MAX_MAZE_SEED = 0xffffffff;
+
+// Random number stream in [0, 1)
+type Random = () => number;
+
+// Passage from a maze cell to the next one, through the walls between them
+interface Passage {
+  next: Position;
+  walls: Position[];
+}
 
 const DIRECTIONS = [
   { row: -2, col: 0 },  // Up (skip one cell to create walls)
@@ -13,23 +130,10 @@ const DIRECTIONS = [
 ];
 
 /**
- * Shuffle array in place using Fisher-Yates algorithm
+ * Pick a fresh random maze seed
  */
-function shuffleArray<T>(array: T[], seed?: number): T[] {
-  const arr = [...array];
-  
-  // Simple seeded random number generator (LCG)
-  let random = seed !== undefined ? seed : Math.random() * 2147483647;
-  const nextRandom = () => {
-    random = (random * 1103515245 + 12345) % 2147483648;
-    return random / 2147483648;
-  };
-  
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(nextRandom() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
+export function createMazeSeed(): number {
+  return Math.floor(Math.random() * (MAX_MAZE_SEED + 1));
 }
 
 /**
@@ -39,6 +143,39 @@ function isInBounds(pos: Position, rows: number, cols: number): boolean {
   return pos.row >= 0 && pos.row < rows && pos.col >= 0 && pos.col < cols;
 }
 
+/**
+ * Walls between a maze cell and the next cell in a direction (cells sit at
+ * odd coordinates). On a torus, a step off the edge crosses both border
+ * walls and lands on the first cell of the opposite side.
+ * @returns The next cell and the walls to carve, or null if off the grid
+ */
+function getPassage(
+  grid: CellType[][],
+  current: Position,
+  dir: Position,
+  topology: Topology
+): Passage | null {
+  const unit = { row: dir.row / 2, col: dir.col / 2 };
+  const walls: Position[] = [];
+  let next = getAdjacentCell(grid, current, unit, topology);
+  while (next && (next.row % 2 === 0 || next.col % 2 === 0)) {
+    walls.push(next);
+    next = getAdjacentCell(grid, next, unit, topology);
+  }
+  return next && isInBounds(next, grid.length, grid[0].length) ? { next, walls } : null;
+}
+
+/**
+ * Open cells and log them as one step of the construction
+ * @param active - Working set after the step (copied)
+ */
+function openCells(grid: CellType[][], cells: Position[], steps: GenerationStep[], active?: Position[]): void {
+  for (const { row, col } of cells) {
+    grid[row][col] = CellType.FREE;
+  }
+  steps.push({ opened: cells, active: active && [...active] });
+}
+
 /**
  * Recursive DFS maze generation
  */
@@ -46,48 +183,392 @@ function carvePath(
   grid: CellType[][],
   current: Position,
   visited: Set<string>,
-  seed?: number
+  topology: Topology,
+  steps: GenerationStep[],
+  stack: Position[],
+  random: Random
 ): void {
   const key = `${current.row},${current.col}`;
   visited.add(key);
-  grid[current.row][current.col] = CellType.FREE;
+  stack.push(current);
+  if (stack.length === 1) openCells(grid, [current], steps, stack);
 
   // Randomize directions for more interesting mazes
-  const directions = shuffleArray(DIRECTIONS, seed);
+  const directions = shuffleWith(DIRECTIONS, random);
 
   for (const dir of directions) {
-    const next: Position = {
-      row: current.row + dir.row,
-      col: current.col + dir.col,
-    };
+    const passage = getPassage(grid, current, dir, topology);
+    if (passage && !visited.has(`${passage.next.row},${passage.next.col}`)) {
+      // Carve through the wall between current and next
+      openCells(grid, [...passage.walls, passage.next], steps, [...stack, passage.next]);
 
-    const nextKey = `${next.row},${next.col}`;
+      carvePath(grid, passage.next, visited, topology, steps, stack, random);
+    }
+  }
 
-    if (
-      isInBounds(next, grid.length, grid[0].length) &&
-      !visited.has(nextKey)
-    ) {
-      // Carve through the wall between current and next
-      const wallRow = current.row + dir.row / 2;
-      const wallCol = current.col + dir.col / 2;
-      grid[wallRow][wallCol] = CellType.FREE;
+  // Dead end: backtrack
+  stack.pop();
+  steps.push({ opened: [], active: [...stack] });
+}
+
+/**
+ * Seeded random stream (Mulberry32): 32 bits of state, so every seed up to
+ * MAX_MAZE_SEED gives its own sequence
+ */
+function createRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Shuffle a copy of an array (Fisher-Yates) using a random stream
+ */
+function shuffleWith<T>(array: T[], random: Random): T[] {
+  const arr = [...array];
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+function cellKey(pos: Position): string {
+  return `${pos.row},${pos.col}`;
+}
+
+/**
+ * Maze cells of a grid: every cell at odd coordinates
+ */
+function getLatticeCells(grid: CellType[][]): Position[] {
+  const cells: Position[] = [];
+  for (let row = 1; row < grid.length - 1; row += 2) {
+    for (let col = 1; col < grid[0].length - 1; col += 2) {
+      cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Passages from a maze cell to each neighboring maze cell
+ */
+function getLatticePassages(grid: CellType[][], cell: Position, topology: Topology): Passage[] {
+  return DIRECTIONS
+    .map((dir) => getPassage(grid, cell, dir, topology))
+    .filter((passage): passage is Passage => passage !== null);
+}
+
+/**
+ * Open a passage and the cell it leads to, as one step
+ */
+function carvePassage(grid: CellType[][], passage: Passage, steps: GenerationStep[], active?: Position[]): void {
+  openCells(grid, [...passage.walls, passage.next], steps, active);
+}
+
+/**
+ * Prim's: grow the maze from one cell, each time opening a random passage
+ * from the maze to a cell outside it
+ */
+function carvePrim(grid: CellType[][], random: Random, steps: GenerationStep[], topology: Topology): void {
+  const start = { row: 1, col: 1 };
+  const inMaze = new Set([cellKey(start)]);
+  const frontier = getLatticePassages(grid, start, topology);
+  // Cells the frontier passages lead to, each once
+  const getFrontierCells = () => [
+    ...new Map(
+      frontier.filter(({ next }) => !inMaze.has(cellKey(next))).map(({ next }) => [cellKey(next), next])
+    ).values(),
+  ];
+  openCells(grid, [start], steps, getFrontierCells());
+
+  while (frontier.length > 0) {
+    const index = Math.floor(random() * frontier.length);
+    const passage = frontier[index];
+    frontier[index] = frontier[frontier.length - 1];
+    frontier.pop();
+    if (inMaze.has(cellKey(passage.next))) continue;
+
+    inMaze.add(cellKey(passage.next));
+    frontier.push(...getLatticePassages(grid, passage.next, topology));
+    carvePassage(grid, passage, steps, getFrontierCells());
+  }
+}
+
+/**
+ * Kruskal's: open every passage, in random order, that joins two cells not
+ * yet connected (tracked with a union-find over cells)
+ */
+function carveKruskal(grid: CellType[][], random: Random, steps: GenerationStep[], topology: Topology): void {
+  const cells = getLatticeCells(grid);
+  const parent = new Map(cells.map((cell) => [cellKey(cell), cellKey(cell)]));
+  const find = (key: string): string => {
+    const root = parent.get(key)!;
+    if (root === key) return key;
+    const top = find(root);
+    parent.set(key, top);
+    return top;
+  };
+
+  // Each passage once: down and right from every cell (wrapping on a torus)
+  const passages = cells.flatMap((cell) =>
+    [{ row: 2, col: 0 }, { row: 0, col: 2 }].flatMap((dir) => {
+      const passage = getPassage(grid, cell, dir, topology);
+      return passage ? [{ from: cell, passage }] : [];
+    })
+  );
+
+  openCells(grid, cells, steps);
+  for (const { from, passage } of shuffleWith(passages, random)) {
+    const [a, b] = [find(cellKey(from)), find(cellKey(passage.next))];
+    if (a === b) continue;
+    parent.set(a, b);
+    carvePassage(grid, passage, steps, [from, passage.next]);
+  }
+}
+
+/**
+ * Wilson's: from each cell outside the maze, random-walk until the maze is
+ * hit, then carve the walk with its loops erased (only the last exit taken
+ * from each cell is kept)
+ */
+function carveWilson(grid: CellType[][], random: Random, steps: GenerationStep[], topology: Topology): void {
+  const cells = getLatticeCells(grid);
+  const inMaze = new Set([cellKey(cells[0])]);
+  openCells(grid, [cells[0]], steps);
+
+  for (const cell of shuffleWith(cells, random)) {
+    const exits = new Map<string, Passage>();
+    // The walk so far with its loops erased, as shown while walking
+    const walk = [cell];
+    for (let current = cell; !inMaze.has(cellKey(current)); ) {
+      const passages = getLatticePassages(grid, current, topology);
+      const exit = passages[Math.floor(random() * passages.length)];
+      exits.set(cellKey(current), exit);
+      current = exit.next;
+
+      const loopStart = walk.findIndex((pos) => cellKey(pos) === cellKey(current));
+      if (loopStart !== -1) {
+        walk.length = loopStart + 1;
+      } else if (!inMaze.has(cellKey(current))) {
+        walk.push(current);
+      }
+      steps.push({ opened: [], active: [...walk] });
+    }
+    for (let current = cell; !inMaze.has(cellKey(current)); ) {
+      const exit = exits.get(cellKey(current))!;
+      inMaze.add(cellKey(current));
+      walk.shift();
+      openCells(grid, [current, ...exit.walls], steps, walk);
+      current = exit.next;
+    }
+  }
+}
+
+/**
+ * Eller's: one row at a time, keeping which cells of the row are already
+ * connected. Cells in different sets are joined at random, then every set
+ * continues down at least once; the last row joins whatever is left apart.
+ */
+function carveEller(grid: CellType[][], random: Random, steps: GenerationStep[]): void {
+  const cells = getLatticeCells(grid);
+  const rows = [...new Set(cells.map(({ row }) => row))];
+  const cols = [...new Set(cells.map(({ col }) => col))];
+  let sets = cols.map((_, i) => i);
+  let nextSet = cols.length;
+
+  rows.forEach((row, r) => {
+    const isLastRow = r === rows.length - 1;
+    openCells(grid, cols.map((col) => ({ row, col })), steps);
+
+    for (let i = 0; i < cols.length - 1; i++) {
+      if (sets[i] === sets[i + 1] || (!isLastRow && random() < 0.5)) continue;
+      openCells(grid, [{ row, col: cols[i] + 1 }], steps);
+      const [kept, merged] = [sets[i], sets[i + 1]];
+      sets = sets.map((set) => (set === merged ? kept : set));
+    }
+    if (isLastRow) return;
+
+    const nextSets = cols.map(() => nextSet++);
+    for (const set of new Set(sets)) {
+      const members = shuffleWith(cols.map((_, i) => i).filter((i) => sets[i] === set), random);
+      members.forEach((i, m) => {
+        if (m > 0 && random() < 0.5) return;
+        openCells(grid, [{ row: row + 1, col: cols[i] }], steps);
+        nextSets[i] = set;
+      });
+    }
+    sets = nextSets;
+  });
+}
+
+/**
+ * Recursive division: start from one open chamber and split each chamber
+ * with a wall along an even row or column, leaving one gap, until chambers
+ * are a single cell wide
+ */
+function carveRecursiveDivision(grid: CellType[][], random: Random, steps: GenerationStep[]): void {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  const interior: Position[] = [];
+  for (let row = 1; row < rows - 1; row++) {
+    for (let col = 1; col < cols - 1; col++) {
+      interior.push({ row, col });
+    }
+  }
+  openCells(grid, interior, steps);
+
+  // Chambers as inclusive bounds on maze cells (odd coordinates)
+  const chambers = [{ top: 1, left: 1, bottom: rows - 2, right: cols - 2 }];
+  while (chambers.length > 0) {
+    const { top, left, bottom, right } = chambers.pop()!;
+    const height = (bottom - top) / 2 + 1;
+    const width = (right - left) / 2 + 1;
+    if (height < 2 || width < 2) continue;
+
+    // Split across the longer side so chambers stay roughly square
+    const wall: Position[] = [];
+    if (height > width || (height === width && random() < 0.5)) {
+      const wallRow = top + 1 + 2 * Math.floor(random() * (height - 1));
+      const gapCol = left + 2 * Math.floor(random() * width);
+      for (let col = left; col <= right; col++) {
+        if (col !== gapCol) wall.push({ row: wallRow, col });
+      }
+      chambers.push({ top, left, bottom: wallRow - 1, right }, { top: wallRow + 1, left, bottom, right });
+    } else {
+      const wallCol = left + 1 + 2 * Math.floor(random() * (width - 1));
+      const gapRow = top + 2 * Math.floor(random() * height);
+      for (let row = top; row <= bottom; row++) {
+        if (row !== gapRow) wall.push({ row, col: wallCol });
+      }
+      chambers.push({ top, left, bottom, right: wallCol - 1 }, { top, left: wallCol + 1, bottom, right });
+    }
+
+    for (const { row, col } of wall) {
+      grid[row][col] = CellType.WALL;
+    }
+    steps.push({ opened: [], closed: wall });
+  }
+}
+
+/**
+ * Binary tree: every cell opens the wall to its north or its west neighbor
+ */
+function carveBinaryTree(grid: CellType[][], random: Random, steps: GenerationStep[]): void {
+  for (const { row, col } of getLatticeCells(grid)) {
+    const walls = [
+      ...(row > 1 ? [{ row: row - 1, col }] : []),
+      ...(col > 1 ? [{ row, col: col - 1 }] : []),
+    ];
+    const opened = walls.length === 0 ? [] : [walls[Math.floor(random() * walls.length)]];
+    openCells(grid, [{ row, col }, ...opened], steps);
+  }
+}
+
+/**
+ * Sidewinder: the first row is one corridor; every later row is cut into
+ * runs of cells opened eastwards, each run opening north from one random cell
+ */
+function carveSidewinder(grid: CellType[][], random: Random, steps: GenerationStep[]): void {
+  const lastCol = grid[0].length - 2;
+  for (let row = 1; row < grid.length - 1; row += 2) {
+    let run: Position[] = [];
+    for (let col = 1; col <= lastCol; col += 2) {
+      run.push({ row, col });
+      const atEastEdge = col === lastCol;
+      if (row > 1 && (atEastEdge || random() < 0.5)) {
+        const northCol = run[Math.floor(random() * run.length)].col;
+        run = [];
+        openCells(grid, [{ row, col }, { row: row - 1, col: northCol }], steps);
+      } else {
+        openCells(grid, atEastEdge ? [{ row, col }] : [{ row, col }, { row, col: col + 1 }], steps, run);
+      }
+    }
+  }
+}
+
+// Generators that carve the square lattice of maze cells from a random stream
+const LATTICE_GENERATORS: Record<
+  Exclude<MazeGenerator, MazeGenerator.RECURSIVE_BACKTRACKER>,
+  (grid: CellType[][], random: Random, steps: GenerationStep[], topology: Topology) => void
+> = {
+  [MazeGenerator.PRIM]: carvePrim,
+  [MazeGenerator.KRUSKAL]: carveKruskal,
+  [MazeGenerator.WILSON]: carveWilson,
+  [MazeGenerator.ELLER]: carveEller,
+  [MazeGenerator.RECURSIVE_DIVISION]: carveRecursiveDivision,
+  [MazeGenerator.BINARY_TREE]: carveBinaryTree,
+  [MazeGenerator.SIDEWINDER]: carveSidewinder,
+};
+
+/**
+ * Hex neighbours of a tile that lie inside the border
+ */
+function getInteriorHexNeighbors(grid: CellType[][], pos: Position): Position[] {
+  return getDirections(MovementModel.FOUR_WAY, Topology.HEX, pos.row)
+    .map((dir) => ({ row: pos.row + dir.row, col: pos.col + dir.col }))
+    .filter((n) => n.row > 0 && n.row < grid.length - 1 && n.col > 0 && n.col < grid[0].length - 1);
+}
+
+/**
+ * DFS hex maze generation: carve a wall tile only if the current tile is its
+ * only open neighbour, so corridors stay one tile wide and never loop
+ */
+function carveHexPath(grid: CellType[][], start: Position, steps: GenerationStep[], random: Random): void {
+  const stack: Position[] = [start];
+  openCells(grid, [start], steps, stack);
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+    const candidates = shuffleWith(getInteriorHexNeighbors(grid, current), random).filter((n) =>
+      grid[n.row][n.col] === CellType.WALL &&
+      getInteriorHexNeighbors(grid, n).every(
+        (m) => (m.row === current.row && m.col === current.col) || grid[m.row][m.col] === CellType.WALL
+      )
+    );
 
-      carvePath(grid, next, visited, seed);
+    if (candidates.length === 0) {
+      stack.pop();
+      steps.push({ opened: [], active: [...stack] });
+      continue;
     }
+    stack.push(candidates[0]);
+    openCells(grid, [candidates[0]], steps, stack);
   }
 }
 
 /**
- * Generate a maze using DFS algorithm with multiple paths
+ * Goal cell that sits far from the start at (1, 1): the opposite corner, or
+ * the middle of a torus (whose corners wrap round to meet)
+ */
+function getGoalPosition(rows: number, cols: number, topology: Topology): Position {
+  if (topology === Topology.TORUS) {
+    return { row: Math.floor(rows / 4) * 2 + 1, col: Math.floor(cols / 4) * 2 + 1 };
+  }
+  return { row: rows - 2, col: cols - 2 };
+}
+
+/**
+ * Generate a maze with multiple paths, logging how it was built
  * @param rows - Number of rows (should be odd for best results)
  * @param cols - Number of columns (should be odd for best results)
- * @param seed - Optional seed for deterministic generation
+ * @param seed - Seed of the random stream (0 to MAX_MAZE_SEED; a fresh one if omitted)
+ * @param topology - How cells connect (hex mazes use hex neighbours, torus mazes wrap)
+ * @param generator - Algorithm that carves the maze (hex mazes always use the backtracker)
+ * @returns The maze, and the steps that carve it from an all-wall grid
+ *          (start and goal are placed afterwards, outside the steps)
  */
-export function generateMaze(
+export function generateMazeWithSteps(
   rows: number,
   cols: number,
-  seed?: number
-): CellType[][] {
+  seed?: number,
+  topology: Topology = Topology.SQUARE,
+  generator: MazeGenerator = MazeGenerator.RECURSIVE_BACKTRACKER
+): GeneratedMap {
   // Ensure odd dimensions for proper maze generation
   const actualRows = rows % 2 === 0 ? rows - 1 : rows;
   const actualCols = cols % 2 === 0 ? cols - 1 : cols;
@@ -100,16 +581,18 @@ export function generateMaze(
   // Start carving from top-left corner
   const startPos: Position = { row: 1, col: 1 };
   const visited = new Set<string>();
+  const nextRandom = createRandom(seed ?? createMazeSeed());
+  const steps: GenerationStep[] = [];
 
-  carvePath(grid, startPos, visited, seed);
+  if (topology === Topology.HEX) {
+    carveHexPath(grid, startPos, steps, nextRandom);
+  } else if (generator === MazeGenerator.RECURSIVE_BACKTRACKER) {
+    carvePath(grid, startPos, visited, topology, steps, [], nextRandom);
+  } else {
+    LATTICE_GENERATORS[generator](grid, nextRandom, steps, topology);
+  }
 
   // Add some extra openings to create multiple paths (makes comparison more interesting)
-  const random = seed !== undefined ? seed : Math.random() * 2147483647;
-  let currentRandom = random;
-  const nextRandom = () => {
-    currentRandom = (currentRandom * 1103515245 + 12345) % 2147483648;
-    return currentRandom / 2147483648;
-  };
 
   // Open some additional walls (10-15% of walls) to create alternative paths
   const wallsToOpen = Math.floor((actualRows * actualCols) * 0.08);
@@ -123,15 +606,13 @@ export function generateMaze(
     
     if (grid[row][col] === CellType.WALL) {
       // Make sure we're not opening a wall that would create a 2x2 open space
-      const adjacentFree = [
-        grid[row - 1]?.[col],
-        grid[row + 1]?.[col],
-        grid[row]?.[col - 1],
-        grid[row]?.[col + 1]
-      ].filter(cell => cell === CellType.FREE).length;
+      const adjacent = topology === Topology.HEX
+        ? getInteriorHexNeighbors(grid, { row, col }).map((n) => grid[n.row][n.col])
+        : [grid[row - 1]?.[col], grid[row + 1]?.[col], grid[row]?.[col - 1], grid[row]?.[col + 1]];
+      const adjacentFree = adjacent.filter(cell => cell === CellType.FREE).length;
       
       if (adjacentFree >= 2 && adjacentFree <= 3) {
-        grid[row][col] = CellType.FREE;
+        openCells(grid, [{ row, col }], steps);
         opened++;
       }
     }
@@ -140,9 +621,395 @@ export function generateMaze(
 
   // Set start and goal positions - place them further apart
   grid[1][1] = CellType.START;
-  grid[actualRows - 2][actualCols - 2] = CellType.GOAL;
+  if (topology === Topology.HEX) {
+    // Hex corridors may miss the corner, so use the open tile nearest to it
+    const goal = [...grid.keys()].reverse()
+      .map((row) => ({ row, col: grid[row].lastIndexOf(CellType.FREE) }))
+      .find((pos) => pos.col !== -1)!;
+    grid[goal.row][goal.col] = CellType.GOAL;
+  } else {
+    const goal = getGoalPosition(actualRows, actualCols, topology);
+    grid[goal.row][goal.col] = CellType.GOAL;
+  }
 
-  return grid;
+  return { grid, steps };
+}
+
+/**
+ * Generate a maze with multiple paths
+ * @param rows - Number of rows (should be odd for best results)
+ * @param cols - Number of columns (should be odd for best results)
+ * @param seed - Seed of the random stream (0 to MAX_MAZE_SEED; a fresh one if omitted)
+ * @param topology - How cells connect (hex mazes use hex neighbours, torus mazes wrap)
+ * @param generator - Algorithm that carves the maze (hex mazes always use the backtracker)
+ */
+export function generateMaze(
+  rows: number,
+  cols: number,
+  seed?: number,
+  topology: Topology = Topology.SQUARE,
+  generator: MazeGenerator = MazeGenerator.RECURSIVE_BACKTRACKER
+): CellType[][] {
+  return generateMazeWithSteps(rows, cols, seed, topology, generator).grid;
+}
+
+/**
+ * Cells a map generator may change: everything inside the border, or every
+ * cell on a torus (which has no border)
+ */
+function getMapInterior(rows: number, cols: number, topology: Topology): Position[] {
+  const margin = topology === Topology.TORUS ? 0 : 1;
+  const cells: Position[] = [];
+  for (let row = margin; row < rows - margin; row++) {
+    for (let col = margin; col < cols - margin; col++) {
+      cells.push({ row, col });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Cells one step from a cell under a movement model (hex grids always have 6)
+ * @returns One entry per direction: the cell, or null off the grid
+ */
+function getSurroundings(
+  grid: CellType[][],
+  pos: Position,
+  movement: MovementModel,
+  topology: Topology
+): (Position | null)[] {
+  return getDirections(movement, topology, pos.row).map((dir) => getAdjacentCell(grid, pos, dir, topology));
+}
+
+/**
+ * Open neighbors of a cell, joined by orthogonal (or hex) steps so every
+ * movement model can walk between them
+ */
+function getOpenNeighbors(grid: CellType[][], pos: Position, topology: Topology): Position[] {
+  return getSurroundings(grid, pos, MovementModel.FOUR_WAY, topology)
+    .filter((n): n is Position => n !== null && grid[n.row][n.col] !== CellType.WALL);
+}
+
+/**
+ * Connected open regions of a map, largest first
+ */
+function getOpenRegions(grid: CellType[][], topology: Topology): Position[][] {
+  const seen = new Set<string>();
+  const regions: Position[][] = [];
+
+  grid.forEach((cells, row) =>
+    cells.forEach((type, col) => {
+      if (type === CellType.WALL || seen.has(cellKey({ row, col }))) return;
+      seen.add(cellKey({ row, col }));
+      const region = [{ row, col }];
+      for (let i = 0; i < region.length; i++) {
+        for (const next of getOpenNeighbors(grid, region[i], topology)) {
+          if (seen.has(cellKey(next))) continue;
+          seen.add(cellKey(next));
+          region.push(next);
+        }
+      }
+      regions.push(region);
+    })
+  );
+
+  return regions.sort((a, b) => b.length - a.length);
+}
+
+/**
+ * Shortest corridor from a pocket to connected cells, through any cell the
+ * generator may change (breadth-first from every cell of the pocket)
+ * @returns The cells to open, or none if the pocket already touches them
+ */
+function findCorridor(
+  grid: CellType[][],
+  pocket: Position[],
+  connected: Set<string>,
+  topology: Topology
+): Position[] {
+  const interior = new Set(getMapInterior(grid.length, grid[0].length, topology).map(cellKey));
+  const parents = new Map<string, Position | null>(pocket.map((cell) => [cellKey(cell), null]));
+  const queue = [...pocket];
+
+  for (let i = 0; i < queue.length; i++) {
+    const current = queue[i];
+    for (const next of getSurroundings(grid, current, MovementModel.FOUR_WAY, topology)) {
+      if (!next || parents.has(cellKey(next)) || !interior.has(cellKey(next))) continue;
+      parents.set(cellKey(next), current);
+      if (!connected.has(cellKey(next))) {
+        queue.push(next);
+        continue;
+      }
+
+      const corridor: Position[] = [];
+      for (let cell: Position | null = current; parents.get(cellKey(cell)) !== null; cell = parents.get(cellKey(cell))!) {
+        corridor.push(cell);
+      }
+      return corridor;
+    }
+  }
+  return [];
+}
+
+/**
+ * Keep a map in one piece: pockets cut off from the largest open region are
+ * walled up, or joined to the regions connected so far by the shortest corridor
+ */
+function resolvePockets(
+  grid: CellType[][],
+  steps: GenerationStep[],
+  topology: Topology,
+  pockets: CavePockets
+): void {
+  const [main, ...others] = getOpenRegions(grid, topology);
+  if (!main) return;
+  const connected = new Set(main.map(cellKey));
+
+  for (const pocket of others) {
+    if (pockets === CavePockets.REMOVE) {
+      for (const { row, col } of pocket) {
+        grid[row][col] = CellType.WALL;
+      }
+      steps.push({ opened: [], closed: pocket });
+      continue;
+    }
+
+    const corridor = findCorridor(grid, pocket, connected, topology);
+    openCells(grid, corridor, steps, pocket);
+    for (const cell of [...pocket, ...corridor]) {
+      connected.add(cellKey(cell));
+    }
+  }
+}
+
+/**
+ * A map too walled up to hold a start and a goal (a dense cave fill, or flat
+ * noise on a small grid) gets a corridor dug across its middle
+ */
+function ensureRoomForEnds(grid: CellType[][], steps: GenerationStep[], topology: Topology): void {
+  if ((getOpenRegions(grid, topology)[0]?.length ?? 0) >= 2) return;
+  const middle = Math.floor(grid.length / 2);
+  openCells(grid, getMapInterior(grid.length, grid[0].length, topology).filter(({ row }) => row === middle), steps);
+}
+
+/**
+ * Place the start on the open cell nearest the top-left corner and the goal
+ * on the open cell the most steps away from it (nothing on a map with no
+ * open cell, which only a grid without an interior can be)
+ */
+function placeStartAndGoal(grid: CellType[][], topology: Topology): void {
+  const open = grid.flatMap((cells, row) =>
+    cells.flatMap((type, col) => (type === CellType.WALL ? [] : [{ row, col }]))
+  );
+  if (open.length === 0) return;
+  const start = open.reduce((best, cell) => (cell.row + cell.col < best.row + best.col ? cell : best));
+
+  // Breadth-first: the last cell reached is the farthest
+  const seen = new Set([cellKey(start)]);
+  const queue = [start];
+  for (let i = 0; i < queue.length; i++) {
+    for (const next of getOpenNeighbors(grid, queue[i], topology)) {
+      if (seen.has(cellKey(next))) continue;
+      seen.add(cellKey(next));
+      queue.push(next);
+    }
+  }
+  const goal = queue[queue.length - 1];
+
+  grid[start.row][start.col] = CellType.START;
+  grid[goal.row][goal.col] = CellType.GOAL;
+}
+
+/**
+ * Generate organic caves with a cellular automaton
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param seed - Seed of the random stream (0 to MAX_MAZE_SEED; a fresh one if omitted)
+ * @param topology - How cells connect (torus caves wrap and have no border)
+ * @param options - Fill ratio, smoothing passes and what to do with pockets
+ * @returns The caves, and the steps that grow them from an all-wall grid
+ */
+export function generateCave(
+  rows: number,
+  cols: number,
+  seed?: number,
+  topology: Topology = Topology.SQUARE,
+  options: CaveOptions = DEFAULT_CAVE_OPTIONS
+): GeneratedMap {
+  const random = createRandom(seed ?? createMazeSeed());
+  const grid: CellType[][] = Array.from({ length: rows }, () => Array(cols).fill(CellType.WALL));
+  const steps: GenerationStep[] = [];
+  const interior = getMapInterior(rows, cols, topology);
+
+  openCells(grid, interior.filter(() => random() >= options.fillRatio), steps);
+
+  // Each pass decides every cell from the previous pass: walls where most of
+  // the cells around are walls (the grid's edge counts as wall), open where
+  // most are open, unchanged on a tie
+  const neighborhood = topology === Topology.HEX ? MovementModel.FOUR_WAY : MovementModel.EIGHT_WAY;
+  for (let pass = 0; pass < options.smoothingPasses; pass++) {
+    const opened: Position[] = [];
+    const closed: Position[] = [];
+    for (const cell of interior) {
+      const around = getSurroundings(grid, cell, neighborhood, topology);
+      const walls = around.filter((n) => !n || grid[n.row][n.col] === CellType.WALL).length;
+      const isWall = grid[cell.row][cell.col] === CellType.WALL;
+      if (isWall && walls * 2 < around.length) opened.push(cell);
+      if (!isWall && walls * 2 > around.length) closed.push(cell);
+    }
+    if (opened.length === 0 && closed.length === 0) break;
+
+    for (const { row, col } of opened) {
+      grid[row][col] = CellType.FREE;
+    }
+    for (const { row, col } of closed) {
+      grid[row][col] = CellType.WALL;
+    }
+    steps.push({ opened, closed });
+  }
+
+  ensureRoomForEnds(grid, steps, topology);
+  resolvePockets(grid, steps, topology, options.pockets);
+  placeStartAndGoal(grid, topology);
+  return { grid, steps };
+}
+
+/**
+ * Value noise in two octaves: smooth blends of random values on a lattice
+ * `scale` cells apart, plus half as much of a lattice twice as fine. Lattices
+ * wrap around, so the noise tiles seamlessly on a torus.
+ * @returns A value in [0, 1) for every cell
+ */
+function getValueNoise(rows: number, cols: number, scale: number, random: Random): number[][] {
+  const octaves = [
+    { spacing: scale, weight: 2 / 3 },
+    { spacing: scale / 2, weight: 1 / 3 },
+  ].map(({ spacing, weight }) => {
+    const latticeRows = Math.max(1, Math.round(rows / spacing));
+    const latticeCols = Math.max(1, Math.round(cols / spacing));
+    const lattice = Array.from({ length: latticeRows }, () => Array.from({ length: latticeCols }, random));
+    return { lattice, latticeRows, latticeCols, weight };
+  });
+  // Smoothstep easing hides the lattice lines
+  const ease = (t: number) => t * t * (3 - 2 * t);
+
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col) =>
+      octaves.reduce((sum, { lattice, latticeRows, latticeCols, weight }) => {
+        const y = (row * latticeRows) / rows;
+        const x = (col * latticeCols) / cols;
+        const [top, left] = [Math.floor(y), Math.floor(x)];
+        const [bottom, right] = [(top + 1) % latticeRows, (left + 1) % latticeCols];
+        const [ty, tx] = [ease(y - top), ease(x - left)];
+        const upper = lattice[top][left] + (lattice[top][right] - lattice[top][left]) * tx;
+        const lower = lattice[bottom][left] + (lattice[bottom][right] - lattice[bottom][left]) * tx;
+        return sum + weight * (upper + (lower - upper) * ty);
+      }, 0)
+    )
+  );
+}
+
+/**
+ * Value below which a share of the values lie
+ */
+function getQuantile(values: number[], share: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.floor(share * sorted.length))];
+}
+
+/**
+ * Generate a map from value noise: walls on the highest values (with any
+ * pockets connected), or terrain bands with no walls inside the border
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param seed - Seed of the random stream (0 to MAX_MAZE_SEED; a fresh one if omitted)
+ * @param topology - How cells connect (torus maps wrap and have no border)
+ * @param options - Walls or terrain, and the size of the noise features
+ * @returns The map, and the steps that open it from an all-wall grid
+ */
+export function generateNoiseTerrain(
+  rows: number,
+  cols: number,
+  seed?: number,
+  topology: Topology = Topology.SQUARE,
+  options: NoiseOptions = DEFAULT_NOISE_OPTIONS
+): GeneratedMap {
+  const random = createRandom(seed ?? createMazeSeed());
+  const grid: CellType[][] = Array.from({ length: rows }, () => Array(cols).fill(CellType.WALL));
+  const steps: GenerationStep[] = [];
+  const interior = getMapInterior(rows, cols, topology);
+  const noise = getValueNoise(rows, cols, options.scale, random);
+  const values = interior.map(({ row, col }) => noise[row][col]);
+
+  if (options.mode === NoiseMode.WALLS) {
+    const threshold = getQuantile(values, 1 - NOISE_WALL_SHARE);
+    openCells(grid, interior.filter(({ row, col }) => noise[row][col] < threshold), steps);
+    ensureRoomForEnds(grid, steps, topology);
+    resolvePockets(grid, steps, topology, CavePockets.CONNECT);
+  } else {
+    // One step per band, from the lowest up
+    let lower = -Infinity;
+    let share = 0;
+    NOISE_TERRAIN_BANDS.forEach((band, i) => {
+      share += band.share;
+      const upper = i === NOISE_TERRAIN_BANDS.length - 1 ? Infinity : getQuantile(values, share);
+      const cells = interior.filter(({ row, col }) => noise[row][col] >= lower && noise[row][col] < upper);
+      openCells(grid, cells, steps);
+      for (const { row, col } of cells) {
+        grid[row][col] = band.type;
+      }
+      lower = upper;
+    });
+  }
+
+  placeStartAndGoal(grid, topology);
+  return { grid, steps };
+}
+
+/**
+ * Generate a map in any style
+ * @param rows - Number of rows
+ * @param cols - Number of columns
+ * @param seed - Seed of the random stream (0 to MAX_MAZE_SEED; a fresh one if omitted)
+ * @param topology - How cells connect
+ * @param settings - Style, and the generator or options of that style
+ * @returns The map, and the steps that build it from an all-wall grid
+ */
+export function generateMap(
+  rows: number,
+  cols: number,
+  seed: number | undefined,
+  topology: Topology,
+  settings: MapSettings
+): GeneratedMap {
+  switch (settings.style) {
+    case MapStyle.CAVE:
+      return generateCave(rows, cols, seed, topology, settings.cave);
+    case MapStyle.NOISE:
+      return generateNoiseTerrain(rows, cols, seed, topology, settings.noise);
+    default:
+      return generateMazeWithSteps(rows, cols, seed, topology, settings.generator);
+  }
+}
+
+/**
+ * Check if two map settings build the same map from a seed (settings of
+ * other styles do not matter)
+ */
+export function isSameMapSettings(a: MapSettings, b: MapSettings): boolean {
+  if (a.style !== b.style) return false;
+  switch (a.style) {
+    case MapStyle.CAVE:
+      return (
+        a.cave.fillRatio === b.cave.fillRatio &&
+        a.cave.smoothingPasses === b.cave.smoothingPasses &&
+        a.cave.pockets === b.cave.pockets
+      );
+    case MapStyle.NOISE:
+      return a.noise.mode === b.noise.mode && a.noise.scale === b.noise.scale;
+    default:
+      return a.generator === b.generator;
+  }
 }
 
 /**
@@ -184,13 +1051,24 @@ export function createSimpleMaze(): CellType[][] {
 }
 
 /**
- * Create an empty grid with just borders
+ * Create an empty grid with just borders (a torus has none, it wraps)
  */
-export function createEmptyMaze(rows: number, cols: number): CellType[][] {
+export function createEmptyMaze(
+  rows: number,
+  cols: number,
+  topology: Topology = Topology.SQUARE
+): CellType[][] {
   const grid: CellType[][] = Array(rows)
     .fill(null)
     .map(() => Array(cols).fill(CellType.FREE));
 
+  if (topology === Topology.TORUS) {
+    const goal = getGoalPosition(rows, cols, topology);
+    grid[1][1] = CellType.START;
+    grid[goal.row][goal.col] = CellType.GOAL;
+    return grid;
+  }
+
   // Add border walls
   for (let i = 0; i < rows; i++) {
     grid[i][0] = CellType.WALL;
@@ -0,0 +1,299 @@
+/**
+ * Movement models, grid topologies and distance heuristics
+ *
+ * Every search generates successors through getNeighbors so the movement
+ * model, the topology and the special cells (see specialCells.ts) are applied
+ * consistently. Orthogonal steps have distance 1 and diagonal steps distance
+ * √2; the cost of a step is that distance times the terrain cost of the cell
+ * entered. On a hex grid all six steps have distance 1.
+ *
+ * Hex grids use "odd-r" offset coordinates: cells keep their row and column,
+ * and odd rows are drawn shifted half a cell to the right.
+ */
+
+import { CellType, Heuristic, MovementModel, Position, Topology } from '../types/maze.types';
+import { canEnter, findPortalTwin, getChannel, isDoor, isKey, isPortal } from './specialCells';
+
+export const ORTHOGONAL_DIRECTIONS = [
+  { row: -1, col: 0 },  // Up
+  { row: 1, col: 0 },   // Down
+  { row: 0, col: -1 },  // Left
+  { row: 0, col: 1 },   // Right
+];
+
+export const DIAGONAL_DIRECTIONS = [
+  { row: -1, col: -1 }, // Up-left
+  { row: -1, col: 1 },  // Up-right
+  { row: 1, col: -1 },  // Down-left
+  { row: 1, col: 1 },   // Down-right
+];
+
+// Hex directions, by row parity (odd rows are shifted right)
+const HEX_DIRECTIONS = [
+  [
+    { row: 0, col: -1 }, { row: 0, col: 1 },
+    { row: -1, col: -1 }, { row: -1, col: 0 },
+    { row: 1, col: -1 }, { row: 1, col: 0 },
+  ],
+  [
+    { row: 0, col: -1 }, { row: 0, col: 1 },
+    { row: -1, col: 0 }, { row: -1, col: 1 },
+    { row: 1, col: 0 }, { row: 1, col: 1 },
+  ],
+];
+
+export const MOVEMENT_LABELS: Record<MovementModel, string> = {
+  [MovementModel.FOUR_WAY]: '4-way',
+  [MovementModel.EIGHT_WAY]: '8-way',
+  [MovementModel.EIGHT_WAY_NO_CORNER_CUT]: '8-way (no corner cutting)',
+};
+
+export const HEURISTIC_LABELS: Record<Heuristic, string> = {
+  [Heuristic.MANHATTAN]: 'Manhattan',
+  [Heuristic.EUCLIDEAN]: 'Euclidean',
+  [Heuristic.OCTILE]: 'Octile',
+  [Heuristic.CHEBYSHEV]: 'Chebyshev',
+  [Heuristic.HEX]: 'Hex',
+  [Heuristic.ZERO]: 'Zero',
+};
+
+export const TOPOLOGY_LABELS: Record<Topology, string> = {
+  [Topology.SQUARE]: 'Square',
+  [Topology.HEX]: 'Hex',
+  [Topology.TORUS]: 'Torus (wraps)',
+};
+
+/**
+ * Name of the moves a search may make, for messages (hex grids ignore the movement model)
+ */
+export function describeMovement(movement: MovementModel, topology: Topology): string {
+  return topology === Topology.HEX ? 'hex' : MOVEMENT_LABELS[movement];
+}
+
+/**
+ * Directions allowed by a movement model, or the six hex directions of a
+ * cell's row on a hex grid
+ */
+export function getDirections(movement: MovementModel, topology: Topology = Topology.SQUARE, row = 0): Position[] {
+  if (topology === Topology.HEX) {
+    return HEX_DIRECTIONS[row & 1];
+  }
+  return movement === MovementModel.FOUR_WAY
+    ? ORTHOGONAL_DIRECTIONS
+    : [...ORTHOGONAL_DIRECTIONS, ...DIAGONAL_DIRECTIONS];
+}
+
+/**
+ * Cell one step from a position, wrapping around on a torus
+ * @returns The cell, or null if the step leaves the grid
+ */
+export function getAdjacentCell(
+  grid: CellType[][],
+  pos: Position,
+  dir: Position,
+  topology: Topology
+): Position | null {
+  const rows = grid.length;
+  const cols = grid[0].length;
+  let row = pos.row + dir.row;
+  let col = pos.col + dir.col;
+  if (topology === Topology.TORUS) {
+    row = (row + rows) % rows;
+    col = (col + cols) % cols;
+  }
+  return row >= 0 && row < rows && col >= 0 && col < cols ? { row, col } : null;
+}
+
+/**
+ * Check if a cell exists and is not a wall (or a door the keys cannot open)
+ */
+function isOpen(grid: CellType[][], pos: Position | null, keys: number): boolean {
+  if (!pos) return false;
+  const cell = grid[pos.row][pos.col];
+  return cell !== CellType.WALL && (!isDoor(cell) || (keys & (1 << getChannel(cell))) !== 0);
+}
+
+// One move: the state it reaches and the getDirections() index it was made in
+export interface Move {
+  position: Position;
+  direction: number;
+}
+
+/**
+ * Get the moves possible from a state under a movement model
+ *
+ * This is the neighbor-generation layer every search goes through, so it
+ * applies the special cells too: a move onto a portal lands on its twin,
+ * one-way cells are only entered in their direction, doors need the key of
+ * their channel, and stepping on a key adds it to the state's keys.
+ *
+ * Diagonal moves never squeeze between two walls. 8-way movement may cut
+ * past a single wall corner; 8-way without corner cutting needs both
+ * orthogonally adjacent cells to be open. Hex grids have no diagonals.
+ */
+export function getMoves(
+  pos: Position,
+  grid: CellType[][],
+  movement: MovementModel,
+  topology: Topology
+): Move[] {
+  const moves: Move[] = [];
+  const keys = pos.keys ?? 0;
+
+  getDirections(movement, topology, pos.row).forEach((dir, direction) => {
+    const adjacent = getAdjacentCell(grid, pos, dir, topology);
+    if (!adjacent || !canEnter(grid[adjacent.row][adjacent.col], dir, keys)) return;
+    const { row, col } = adjacent;
+
+    if (topology !== Topology.HEX && dir.row !== 0 && dir.col !== 0) {
+      const verticalOpen = isOpen(grid, getAdjacentCell(grid, pos, { row: dir.row, col: 0 }, topology), keys);
+      const horizontalOpen = isOpen(grid, getAdjacentCell(grid, pos, { row: 0, col: dir.col }, topology), keys);
+      const cornerCutAllowed = movement === MovementModel.EIGHT_WAY;
+
+      if (cornerCutAllowed ? !verticalOpen && !horizontalOpen : !verticalOpen || !horizontalOpen) {
+        return;
+      }
+    }
+
+    const cell = grid[row][col];
+    let target: Position = { row, col };
+    if (isPortal(cell)) {
+      const twin = findPortalTwin(grid, target);
+      // Stepping back onto the portal just left would land where we stand
+      if (twin && twin.row === pos.row && twin.col === pos.col) return;
+      target = twin ?? target;
+    }
+
+    const nextKeys = isKey(cell) ? keys | (1 << getChannel(cell)) : keys;
+    moves.push({ position: nextKeys ? { ...target, keys: nextKeys } : target, direction });
+  });
+
+  return moves;
+}
+
+/**
+ * Get the states reachable in one move under a movement model (see getMoves)
+ */
+export function getNeighbors(
+  pos: Position,
+  grid: CellType[][],
+  movement: MovementModel,
+  topology: Topology
+): Position[] {
+  return getMoves(pos, grid, movement, topology).map((move) => move.position);
+}
+
+/**
+ * Get the cells with a move onto a cell (the reverse of getNeighbors), for
+ * searches that run backwards from the goal. Keys are not tracked, so these
+ * searches run on lockDoors() grids.
+ */
+export function getPredecessors(
+  pos: Position,
+  grid: CellType[][],
+  movement: MovementModel,
+  topology: Topology
+): Position[] {
+  // Moves land here from next to this cell, or from next to its twin if it is a portal
+  // (adjacency is symmetric in every topology)
+  const entries = [pos];
+  const twin = isPortal(grid[pos.row][pos.col]) ? findPortalTwin(grid, pos) : null;
+  if (twin) entries.push(twin);
+
+  const predecessors: Position[] = [];
+  const seen = new Set<string>();
+  for (const entry of entries) {
+    for (const dir of getDirections(movement, topology, entry.row)) {
+      const candidate = getAdjacentCell(grid, entry, dir, topology);
+      if (!candidate || !isOpen(grid, candidate, 0)) continue;
+      const key = `${candidate.row},${candidate.col}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      if (getNeighbors(candidate, grid, movement, topology).some((n) => n.row === pos.row && n.col === pos.col)) {
+        predecessors.push(candidate);
+      }
+    }
+  }
+
+  return predecessors;
+}
+
+/**
+ * Distance of a single step between adjacent cells (1 or √2; always 1 on a hex grid)
+ */
+export function getStepDistance(from: Position, to: Position, topology: Topology): number {
+  if (topology === Topology.HEX) return 1;
+  return from.row !== to.row && from.col !== to.col ? Math.SQRT2 : 1;
+}
+
+/**
+ * Estimate the unit-cost distance between two positions
+ */
+export function heuristicDistance(heuristic: Heuristic, from: Position, to: Position): number {
+  const dRow = Math.abs(from.row - to.row);
+  const dCol = Math.abs(from.col - to.col);
+
+  switch (heuristic) {
+    case Heuristic.MANHATTAN:
+      return dRow + dCol;
+    case Heuristic.EUCLIDEAN:
+      return Math.sqrt(dRow * dRow + dCol * dCol);
+    case Heuristic.OCTILE:
+      return Math.max(dRow, dCol) + (Math.SQRT2 - 1) * Math.min(dRow, dCol);
+    case Heuristic.CHEBYSHEV:
+      return Math.max(dRow, dCol);
+    case Heuristic.HEX: {
+      // Steps between hexagons, via cube coordinates (x + y + z = 0)
+      const dx = (from.col - (from.row - (from.row & 1)) / 2) - (to.col - (to.row - (to.row & 1)) / 2);
+      const dz = from.row - to.row;
+      return Math.max(Math.abs(dx), Math.abs(dz), Math.abs(dx + dz));
+    }
+    case Heuristic.ZERO:
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Distance estimate between two cells of a grid. On a torus it measures to
+ * the copy of the target nearest across the wrap, so e.g. Manhattan counts
+ * the shorter way around each axis.
+ */
+export function getDistanceEstimate(
+  grid: CellType[][],
+  heuristic: Heuristic,
+  topology: Topology
+): (from: Position, to: Position) => number {
+  if (topology !== Topology.TORUS) {
+    return (from, to) => heuristicDistance(heuristic, from, to);
+  }
+
+  const nearest = (from: number, to: number, size: number) =>
+    Math.abs(to - from) * 2 > size ? to - Math.sign(to - from) * size : to;
+  return (from, to) => heuristicDistance(heuristic, from, {
+    row: nearest(from.row, to.row, grid.length),
+    col: nearest(from.col, to.col, grid[0].length),
+  });
+}
+
+/**
+ * Check if a heuristic never overestimates under a movement model and topology
+ *
+ * All supported heuristics are metrics, so they are admissible (and
+ * consistent) exactly when no single allowed step, from a cell of either row
+ * parity, is estimated above its true distance.
+ */
+export function isHeuristicAdmissible(
+  heuristic: Heuristic,
+  movement: MovementModel,
+  topology: Topology
+): boolean {
+  return [0, 1].every((row) => {
+    const origin: Position = { row, col: 0 };
+    return getDirections(movement, topology, row).every((dir) => {
+      const to = { row: row + dir.row, col: dir.col };
+      return heuristicDistance(heuristic, origin, to) <= getStepDistance(origin, to, topology) + 1e-9;
+    });
+  });
+}
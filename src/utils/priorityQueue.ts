@@ -0,0 +1,171 @@
+/**
+ * Indexed binary min-heap used as the open set of priority-based searches
+ *
+ * Items are keyed by grid position, so the queue holds at most one entry per
+ * cell. An index from key to heap slot makes contains() O(1) and lets a node
+ * be re-prioritised in place (decrease-key) in O(log n) instead of re-sorting.
+ * Searches over richer states (e.g. cell and time, or graph nodes) pass their
+ * own key.
+ */
+
+import { AStarNode, Position } from '../types/maze.types';
+
+/**
+ * Key identifying a search state: a grid position, plus the keys held and the
+ * heading if any
+ */
+export function positionKey(pos: Position): string {
+  const key = pos.keys ? `${pos.row},${pos.col}+${pos.keys}` : `${pos.row},${pos.col}`;
+  return pos.heading === undefined ? key : `${key}^${pos.heading}`;
+}
+
+/**
+ * Order A* nodes by f-value, breaking ties by h-value
+ * (prefer nodes closer to the goal)
+ */
+export function compareAStarNodes<N>(a: AStarNode<N>, b: AStarNode<N>): number {
+  if (a.f === b.f) {
+    return a.h - b.h;
+  }
+  return a.f - b.f;
+}
+
+export class PriorityQueue<T extends { position: unknown }> {
+  private heap: T[] = [];
+  private indexByKey = new Map<string, number>();
+
+  /**
+   * @param compare - Negative when a should be dequeued before b
+   * @param getKey - Identity of a node (defaults to its grid position);
+   *   contains() and remove() look nodes up by position, so they assume the default
+   */
+  constructor(
+    private readonly compare: (a: T, b: T) => number,
+    private readonly getKey: (node: T) => string = (node) => positionKey(node.position as Position)
+  ) {}
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  contains(position: Position): boolean {
+    return this.indexByKey.has(positionKey(position));
+  }
+
+  /**
+   * Add a node, or replace the queued node at the same position
+   */
+  enqueue(node: T): void {
+    const key = this.getKey(node);
+    const index = this.indexByKey.get(key);
+
+    if (index !== undefined) {
+      this.heap[index] = node;
+      this.restore(index);
+      return;
+    }
+
+    this.heap.push(node);
+    this.indexByKey.set(key, this.heap.length - 1);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  /**
+   * Remove and return the highest-priority node
+   */
+  dequeue(): T | undefined {
+    if (this.heap.length === 0) return undefined;
+
+    const top = this.heap[0];
+    const last = this.heap.pop()!;
+    this.indexByKey.delete(this.getKey(top));
+
+    if (this.heap.length > 0) {
+      this.heap[0] = last;
+      this.indexByKey.set(this.getKey(last), 0);
+      this.siftDown(0);
+    }
+
+    return top;
+  }
+
+  peek(): T | undefined {
+    return this.heap[0];
+  }
+
+  /**
+   * Remove the queued node at a position, if any
+   */
+  remove(position: Position): void {
+    const key = positionKey(position);
+    const index = this.indexByKey.get(key);
+    if (index === undefined) return;
+
+    const last = this.heap.pop()!;
+    this.indexByKey.delete(key);
+
+    if (index < this.heap.length) {
+      this.heap[index] = last;
+      this.indexByKey.set(this.getKey(last), index);
+      this.restore(index);
+    }
+  }
+
+  /**
+   * Re-position a queued node after its priority changed (e.g. decrease-key).
+   * The node may be mutated in place or replaced by a new object.
+   */
+  update(node: T): void {
+    this.enqueue(node);
+  }
+
+  private restore(index: number): void {
+    if (index > 0 && this.compare(this.heap[index], this.heap[(index - 1) >> 1]) < 0) {
+      this.siftUp(index);
+    } else {
+      this.siftDown(index);
+    }
+  }
+
+  private siftUp(index: number): void {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.heap[index], this.heap[parent]) >= 0) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number): void {
+    const length = this.heap.length;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+
+      if (left < length && this.compare(this.heap[left], this.heap[smallest]) < 0) {
+        smallest = left;
+      }
+      if (right < length && this.compare(this.heap[right], this.heap[smallest]) < 0) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number): void {
+    const a = this.heap[i];
+    const b = this.heap[j];
+    this.heap[i] = b;
+    this.heap[j] = a;
+    this.indexByKey.set(this.getKey(b), i);
+    this.indexByKey.set(this.getKey(a), j);
+  }
+}
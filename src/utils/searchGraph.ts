@@ -0,0 +1,76 @@
+/**
+ * Search graphs: the view of a maze or a general graph that DFS, BFS and A*
+ * search over
+ *
+ * A grid graph's states are positions (with any keys held) and its moves come
+ * from the movement layer, so every grid rule still applies. A general graph's
+ * states are node ids and its moves follow the undirected weighted edges.
+ */
+
+import { CellType, Graph, GraphNode, Position, SearchGraph, SearchOptions } from '../types/maze.types';
+import { getNeighbors } from './movement';
+import { positionKey } from './priorityQueue';
+import { getStepCost } from './terrain';
+
+/**
+ * Search graph of a maze under the given search settings
+ */
+export function createGridSearchGraph(grid: CellType[][], options: SearchOptions): SearchGraph<Position> {
+  const { movement, topology, terrainCosts } = options;
+  return {
+    key: positionKey,
+    neighbors: (pos) => getNeighbors(pos, grid, movement, topology),
+    stepCost: (from, to) => getStepCost(from, to, grid, terrainCosts, topology),
+  };
+}
+
+/**
+ * Straight-line distance between two graph nodes
+ */
+export function getEdgeLength(a: GraphNode, b: GraphNode): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * Search graph of a general graph; neighbors come in edge order
+ */
+export function createEdgeSearchGraph(graph: Graph): SearchGraph<string> {
+  const adjacency = new Map<string, { to: string; weight: number }[]>(
+    graph.nodes.map((node) => [node.id, []])
+  );
+  for (const { from, to, weight } of graph.edges) {
+    adjacency.get(from)?.push({ to, weight });
+    adjacency.get(to)?.push({ to: from, weight });
+  }
+
+  return {
+    key: (id) => id,
+    neighbors: (id) => (adjacency.get(id) ?? []).map((edge) => edge.to),
+    // Parallel edges: the cheapest one is taken
+    stepCost: (from, to) => (adjacency.get(from) ?? [])
+      .reduce((best, edge) => (edge.to === to ? Math.min(best, edge.weight) : best), Infinity),
+  };
+}
+
+/**
+ * Euclidean distance to a goal node, scaled by the smallest weight-to-length
+ * ratio of any edge so it never overestimates however weights were chosen
+ * @returns Estimate per node id (0 for unknown ids)
+ */
+export function getEuclideanEstimate(graph: Graph, goal: string): (id: string) => number {
+  const nodes = new Map(graph.nodes.map((node) => [node.id, node]));
+  const goalNode = nodes.get(goal);
+  if (!goalNode) return () => 0;
+
+  let scale = Infinity;
+  for (const { from, to, weight } of graph.edges) {
+    const length = getEdgeLength(nodes.get(from)!, nodes.get(to)!);
+    if (length > 0) scale = Math.min(scale, weight / length);
+  }
+  if (scale === Infinity) scale = 0;
+
+  return (id) => {
+    const node = nodes.get(id);
+    return node ? getEdgeLength(node, goalNode) * scale : 0;
+  };
+}
@@ -0,0 +1,23 @@
+/**
+ * Default search settings and helpers that depend on more than one setting
+ */
+
+import { CellType, Heuristic, MovementModel, SearchOptions, Topology } from '../types/maze.types';
+import { DEFAULT_TERRAIN_COSTS, hasWeightedTerrain } from './terrain';
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  terrainCosts: DEFAULT_TERRAIN_COSTS,
+  movement: MovementModel.FOUR_WAY,
+  topology: Topology.SQUARE,
+  heuristic: Heuristic.MANHATTAN,
+  heuristicWeight: 1,
+  turnPenalty: 0,
+};
+
+/**
+ * Check if every possible step costs the same, so fewest steps means cheapest path
+ */
+export function hasUniformStepCost(grid: CellType[][], options: SearchOptions): boolean {
+  const unitSteps = options.movement === MovementModel.FOUR_WAY || options.topology === Topology.HEX;
+  return unitSteps && !hasWeightedTerrain(grid, options.terrainCosts);
+}
@@ -0,0 +1,151 @@
+/**
+ * Special cell helpers: portals, one-way cells, keys and doors
+ *
+ * Each special cell type belongs to a channel (A, B or C). The two portals of
+ * a channel are twins, and a channel's key opens the doors of that channel,
+ * so the grid alone describes every link. Search states carry the keys they
+ * hold as a bitmask of channels (Position.keys); getNeighbors applies all of
+ * these rules, so every search respects them.
+ */
+
+import { CellType, Position } from '../types/maze.types';
+
+export const PORTAL_TYPES = [CellType.PORTAL_A, CellType.PORTAL_B, CellType.PORTAL_C];
+export const KEY_TYPES = [CellType.KEY_A, CellType.KEY_B, CellType.KEY_C];
+export const DOOR_TYPES = [CellType.DOOR_A, CellType.DOOR_B, CellType.DOOR_C];
+
+// Direction a one-way cell must be entered in
+export const ONE_WAY_DIRECTIONS: Partial<Record<CellType, Position>> = {
+  [CellType.ONE_WAY_UP]: { row: -1, col: 0 },
+  [CellType.ONE_WAY_RIGHT]: { row: 0, col: 1 },
+  [CellType.ONE_WAY_DOWN]: { row: 1, col: 0 },
+  [CellType.ONE_WAY_LEFT]: { row: 0, col: -1 },
+};
+
+// Order the editor cycles one-way cells through
+export const ONE_WAY_TYPES = [
+  CellType.ONE_WAY_UP,
+  CellType.ONE_WAY_RIGHT,
+  CellType.ONE_WAY_DOWN,
+  CellType.ONE_WAY_LEFT,
+];
+
+// Display color of each channel
+export const CHANNEL_COLORS = ['#22d3ee', '#f472b6', '#a3e635'];
+
+export const CHANNEL_LABELS = ['A', 'B', 'C'];
+
+// Shown by searches that run backwards from the goal and cannot track keys
+export const LOCKED_DOORS_WARNING = 'Searches backwards from the goal, so keys are ignored and doors stay locked';
+
+/**
+ * Channel of a portal, key or door (-1 for other cells)
+ */
+export function getChannel(cell: CellType): number {
+  const index = [PORTAL_TYPES, KEY_TYPES, DOOR_TYPES]
+    .map((types) => types.indexOf(cell))
+    .find((i) => i !== -1);
+  return index ?? -1;
+}
+
+export function isPortal(cell: CellType): boolean {
+  return PORTAL_TYPES.includes(cell);
+}
+
+export function isKey(cell: CellType): boolean {
+  return KEY_TYPES.includes(cell);
+}
+
+export function isDoor(cell: CellType): boolean {
+  return DOOR_TYPES.includes(cell);
+}
+
+/**
+ * Check if a cell is a portal, one-way cell, key or door
+ */
+export function isSpecialCell(cell: CellType): boolean {
+  return isPortal(cell) || isKey(cell) || isDoor(cell) || ONE_WAY_DIRECTIONS[cell] !== undefined;
+}
+
+/**
+ * Check if any cell on the grid matches a predicate
+ */
+function gridHas(grid: CellType[][], predicate: (cell: CellType) => boolean): boolean {
+  return grid.some((row) => row.some(predicate));
+}
+
+export function hasSpecialCells(grid: CellType[][]): boolean {
+  return gridHas(grid, isSpecialCell);
+}
+
+export function hasDoors(grid: CellType[][]): boolean {
+  return gridHas(grid, isDoor);
+}
+
+/**
+ * Cells of one type, in row-major order
+ */
+export function findCells(grid: CellType[][], type: CellType): Position[] {
+  const cells: Position[] = [];
+  grid.forEach((row, r) => row.forEach((cell, c) => {
+    if (cell === type) cells.push({ row: r, col: c });
+  }));
+  return cells;
+}
+
+/**
+ * The other portal of a portal's channel, or null while it has no twin
+ */
+export function findPortalTwin(grid: CellType[][], portal: Position): Position | null {
+  const pair = findCells(grid, grid[portal.row][portal.col]);
+  if (pair.length !== 2) return null;
+  return pair[0].row === portal.row && pair[0].col === portal.col ? pair[1] : pair[0];
+}
+
+/**
+ * Check if a state may enter a cell by moving in a direction
+ */
+export function canEnter(cell: CellType, direction: Position, keys: number): boolean {
+  if (cell === CellType.WALL) return false;
+  if (isDoor(cell)) return (keys & (1 << getChannel(cell))) !== 0;
+
+  // A one-way cell needs the move to head the arrow's way (diagonals included)
+  const oneWay = ONE_WAY_DIRECTIONS[cell];
+  if (oneWay) {
+    return (oneWay.row === 0 || direction.row === oneWay.row) && (oneWay.col === 0 || direction.col === oneWay.col);
+  }
+  return true;
+}
+
+/**
+ * Copy of the grid with every door walled up and every key removed, for
+ * searches whose states cannot carry keys (the same grid if it has no doors)
+ */
+export function lockDoors(grid: CellType[][]): CellType[][] {
+  if (!hasDoors(grid)) return grid;
+  return grid.map((row) =>
+    row.map((cell) => (isDoor(cell) ? CellType.WALL : isKey(cell) ? CellType.FREE : cell))
+  );
+}
+
+/**
+ * Make a distance estimate account for portals
+ *
+ * Any route that teleports costs at least the estimate to the nearest portal
+ * plus the estimate from the portal nearest the target, so taking the minimum
+ * with that keeps an admissible (and consistent) estimate admissible.
+ */
+export function withPortalShortcuts(
+  grid: CellType[][],
+  estimate: (from: Position, to: Position) => number
+): (from: Position, to: Position) => number {
+  const portals = PORTAL_TYPES.flatMap((type) => {
+    const pair = findCells(grid, type);
+    return pair.length === 2 ? pair : [];
+  });
+  if (portals.length === 0) return estimate;
+
+  const nearest = (pos: Position) =>
+    portals.reduce((best, portal) => Math.min(best, estimate(pos, portal)), Infinity);
+  return (from, to) => Math.min(estimate(from, to), nearest(from) + nearest(to));
+}
@@ -0,0 +1,113 @@
+/**
+ * Terrain cost helpers
+ * Every step costs the terrain cost of the cell being entered,
+ * times √2 for diagonal steps (hex steps are never diagonal)
+ */
+
+import { CellType, Position, TerrainCosts, TerrainType, Topology } from '../types/maze.types';
+import { getStepDistance } from './movement';
+import { findPortalTwin, isPortal } from './specialCells';
+
+export const DEFAULT_TERRAIN_COSTS: TerrainCosts = {
+  [CellType.FREE]: 1,
+  [CellType.ROAD]: 0.5,
+  [CellType.MUD]: 3,
+  [CellType.WATER]: 5,
+};
+
+// Display colors for terrain cells
+export const TERRAIN_COLORS: Record<TerrainType, string> = {
+  [CellType.FREE]: '#1f2937',
+  [CellType.ROAD]: '#6b7280',
+  [CellType.MUD]: '#78350f',
+  [CellType.WATER]: '#1e3a8a',
+};
+
+/**
+ * Check if a cell type is a paintable terrain (not free, wall, start or goal)
+ */
+export function isTerrain(cell: CellType): boolean {
+  return cell === CellType.ROAD || cell === CellType.MUD || cell === CellType.WATER;
+}
+
+/**
+ * Cost of entering a cell (Infinity for walls)
+ */
+export function getCellCost(cell: CellType, costs: TerrainCosts): number {
+  switch (cell) {
+    case CellType.WALL:
+      return Infinity;
+    case CellType.ROAD:
+    case CellType.MUD:
+    case CellType.WATER:
+      return costs[cell];
+    default:
+      return costs[CellType.FREE];
+  }
+}
+
+/**
+ * Cost of stepping between two adjacent cells, or through a portal: a state
+ * on a portal was reached by stepping onto its twin, which is the cell paid for
+ */
+export function getStepCost(
+  from: Position,
+  to: Position,
+  grid: CellType[][],
+  costs: TerrainCosts,
+  topology: Topology
+): number {
+  const entered = isPortal(grid[to.row][to.col]) ? findPortalTwin(grid, to) ?? to : to;
+  return getStepDistance(from, entered, topology) * getCellCost(grid[entered.row][entered.col], costs);
+}
+
+/**
+ * Total cost of a path (the start cell itself is free)
+ */
+export function getPathCost(
+  path: Position[],
+  grid: CellType[][],
+  costs: TerrainCosts,
+  topology: Topology
+): number {
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) {
+    cost += getStepCost(path[i - 1], path[i], grid, costs, topology);
+  }
+  return cost;
+}
+
+/**
+ * Cheapest step cost on the grid
+ * Scaling a unit-step heuristic by this keeps it admissible on weighted maps
+ */
+export function getMinStepCost(grid: CellType[][], costs: TerrainCosts): number {
+  let min = Infinity;
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell !== CellType.WALL) {
+        min = Math.min(min, getCellCost(cell, costs));
+      }
+    }
+  }
+  return min === Infinity ? 1 : min;
+}
+
+/**
+ * Check if walkable cells on the grid have different step costs
+ */
+export function hasWeightedTerrain(grid: CellType[][], costs: TerrainCosts): boolean {
+  let firstCost: number | null = null;
+  for (const row of grid) {
+    for (const cell of row) {
+      if (cell === CellType.WALL) continue;
+      const cost = getCellCost(cell, costs);
+      if (firstCost === null) {
+        firstCost = cost;
+      } else if (cost !== firstCost) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
@@ -0,0 +1,129 @@
+/**
+ * Turn penalties: a kinematic cost model for agents that cannot turn for free
+ *
+ * A heading is the getDirections() index of the move that entered a cell (an
+ * index points the same way on every hex row). Changing heading costs the
+ * turn penalty per 90° turned, so a 45° turn costs half of it and a U-turn
+ * twice it. The first move is free in any direction, and the goal may be
+ * reached facing any way. Searches that plan with the penalty search over
+ * (cell, heading) states; others have it added to their path's cost.
+ */
+
+import {
+  AlgorithmDefinition,
+  AlgorithmResult,
+  CellType,
+  MovementModel,
+  Position,
+  SearchOptions,
+  SearchGraph,
+  Topology,
+} from '../types/maze.types';
+import { getDirections, getMoves } from './movement';
+import { positionKey } from './priorityQueue';
+import { getStepCost } from './terrain';
+
+// Angle of each hex direction (W, E, NW, NE, SW, SE), in degrees counterclockwise from east
+const HEX_ANGLES = [180, 0, 120, 60, 240, 300];
+
+/**
+ * Angle of a heading in degrees, counterclockwise from east
+ */
+function getHeadingAngle(heading: number, movement: MovementModel, topology: Topology): number {
+  if (topology === Topology.HEX) return HEX_ANGLES[heading];
+  const { row, col } = getDirections(movement, topology)[heading];
+  return (Math.round((Math.atan2(-row, col) * 180) / Math.PI) + 360) % 360;
+}
+
+/**
+ * Extra cost of moving in a heading after arriving in another
+ * @param from - Heading before the move (undefined at the start: no cost)
+ * @param to - Heading of the move
+ */
+export function getTurnCost(
+  from: number | undefined,
+  to: number,
+  options: SearchOptions
+): number {
+  if (from === undefined || from === to || options.turnPenalty === 0) return 0;
+  const { movement, topology } = options;
+  const difference = Math.abs(getHeadingAngle(from, movement, topology) - getHeadingAngle(to, movement, topology));
+  return (options.turnPenalty * Math.min(difference, 360 - difference)) / 90;
+}
+
+/**
+ * Search graph of a maze whose states carry a heading, so each step also pays
+ * for the turn into it
+ */
+export function createTurnAwareSearchGraph(grid: CellType[][], options: SearchOptions): SearchGraph<Position> {
+  const { movement, topology, terrainCosts } = options;
+  return {
+    key: positionKey,
+    neighbors: (pos) =>
+      getMoves(pos, grid, movement, topology).map(({ position, direction }) => ({ ...position, heading: direction })),
+    stepCost: (from, to) =>
+      getStepCost(from, to, grid, terrainCosts, topology) + getTurnCost(from.heading, to.heading!, options),
+  };
+}
+
+/**
+ * Headings of the moves along a path, one per step
+ */
+function getPathHeadings(path: Position[], grid: CellType[][], options: SearchOptions): number[] {
+  const { movement, topology } = options;
+  return path.slice(1).map((position, i) =>
+    position.heading ??
+    getMoves(path[i], grid, movement, topology)
+      .find((move) => move.position.row === position.row && move.position.col === position.col)?.direction ??
+    -1
+  );
+}
+
+/**
+ * Cells where a path changes heading, and the total penalty of those turns
+ */
+export function getPathTurns(
+  path: Position[],
+  grid: CellType[][],
+  options: SearchOptions
+): { turnPoints: Position[]; turnCost: number } {
+  const headings = getPathHeadings(path, grid, options);
+  const turnPoints: Position[] = [];
+  let turnCost = 0;
+  for (let i = 1; i < headings.length; i++) {
+    if (headings[i] === headings[i - 1]) continue;
+    // The turn happens on the cell between the two moves
+    const { row, col } = path[i];
+    turnPoints.push({ row, col });
+    turnCost += getTurnCost(headings[i - 1], headings[i], options);
+  }
+  return { turnPoints, turnCost };
+}
+
+/**
+ * Add the turns of a run's path to its result. Algorithms that plan without
+ * the penalty also have their turns added to the path cost, and lose any
+ * optimality claim, since a path with fewer turns may now be cheaper.
+ */
+export function addTurnStats(
+  result: AlgorithmResult,
+  algorithm: AlgorithmDefinition,
+  grid: CellType[][],
+  options: SearchOptions
+): AlgorithmResult {
+  if (options.turnPenalty === 0 || !result.found) return result;
+
+  const { turnPoints, turnCost } = getPathTurns(result.path, grid, options);
+  const stats = { ...result, turns: turnPoints.length, turnPoints };
+  if (algorithm.usesTurnPenalty) return stats;
+
+  return {
+    ...stats,
+    pathCost: result.pathCost + turnCost,
+    isOptimal: false,
+    warnings: [
+      ...(result.warnings ?? []),
+      `${algorithm.name} plans without turn penalties; its ${turnPoints.length} turns were added to the path cost afterwards`,
+    ],
+  };
+}